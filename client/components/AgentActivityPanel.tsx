@@ -0,0 +1,168 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { io } from 'socket.io-client'
+import { Activity, CheckCircle2, XCircle, Loader2, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react'
+
+// Mirrors AgentActivity in server/src/agents/shared/AgentCommunication.ts
+interface AgentActivity {
+  id: string
+  sessionId: string
+  agentId: string
+  type: 'request' | 'response' | 'error' | 'progress'
+  timestamp: string
+  action?: string
+  planId?: string
+  success?: boolean
+  confidence?: number
+  error?: string
+  progress?: {
+    planId: string
+    planType: string
+    status: 'started' | 'retrying' | 'completed' | 'failed'
+    attempt: number
+    durationMs?: number
+    error?: string
+  }
+}
+
+// Older events are dropped so a long session does not grow the timeline without bound
+const MAX_ACTIVITIES = 200
+
+function describeActivity(activity: AgentActivity): string {
+  const { progress } = activity
+
+  if (progress) {
+    const plan = `${progress.planType} plan "${progress.planId}"`
+    switch (progress.status) {
+      case 'started':
+        return `started ${plan}`
+      case 'retrying':
+        return `retrying ${plan} after attempt ${progress.attempt}: ${progress.error}`
+      case 'completed':
+        return `completed ${plan}${progress.durationMs !== undefined ? ` in ${(progress.durationMs / 1000).toFixed(1)}s` : ''}`
+      case 'failed':
+        return `failed ${plan}: ${progress.error}`
+    }
+  }
+
+  const action = activity.action || 'request'
+  switch (activity.type) {
+    case 'request':
+      return `${action}${activity.planId ? ` for "${activity.planId}"` : ''}`
+    case 'response':
+      return activity.success
+        ? `finished ${action}${activity.confidence !== undefined ? ` (confidence ${Math.round(activity.confidence * 100)}%)` : ''}`
+        : `${action} failed: ${activity.error}`
+    default:
+      return `${action} error: ${activity.error}`
+  }
+}
+
+function ActivityIcon({ activity }: { activity: AgentActivity }) {
+  const status = activity.progress?.status
+
+  if (status === 'completed' || (activity.type === 'response' && activity.success)) {
+    return <CheckCircle2 className="h-3.5 w-3.5 text-green-400 flex-shrink-0" />
+  }
+  if (status === 'failed' || activity.type === 'error' || activity.type === 'response') {
+    return <XCircle className="h-3.5 w-3.5 text-red-400 flex-shrink-0" />
+  }
+  if (status === 'retrying') {
+    return <RotateCcw className="h-3.5 w-3.5 text-yellow-400 flex-shrink-0" />
+  }
+  return <Activity className="h-3.5 w-3.5 text-blue-400 flex-shrink-0" />
+}
+
+interface AgentActivityPanelProps {
+  sessionId: string
+}
+
+// Live timeline of the session's agents, fed by the server's 'agent-activity' Socket.IO events
+export default function AgentActivityPanel({ sessionId }: AgentActivityPanelProps) {
+  const [activities, setActivities] = useState<AgentActivity[]>([])
+  const [expanded, setExpanded] = useState(true)
+  const timelineEndRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!sessionId) return
+
+    const socket = io(process.env.NEXT_PUBLIC_API_URL || '')
+    // Rooms are left on disconnect, so the session's room is joined again on every reconnect
+    socket.on('connect', () => socket.emit('join-project', sessionId))
+    socket.on('agent-activity', (activity: AgentActivity) => {
+      setActivities(prev => [...prev, activity].slice(-MAX_ACTIVITIES))
+    })
+
+    return () => {
+      socket.disconnect()
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    if (expanded) timelineEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }, [activities, expanded])
+
+  // The latest progress of every plan, in the order the plans first started
+  const plans = new Map<string, { agentId: string; progress: NonNullable<AgentActivity['progress']> }>()
+  for (const activity of activities) {
+    if (activity.progress) plans.set(activity.progress.planId, { agentId: activity.agentId, progress: activity.progress })
+  }
+  const running = Array.from(plans.values()).filter(plan => plan.progress.status === 'started' || plan.progress.status === 'retrying')
+
+  if (!sessionId) return null
+
+  return (
+    <div className="border-b border-blue-500/20 bg-gray-900/40">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-4 py-2 text-left hover:bg-gray-700/40 transition-colors"
+      >
+        <div className="flex items-center space-x-2">
+          {expanded ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+          <span className="text-white text-sm font-medium">Agent Activity</span>
+        </div>
+        <span className="text-gray-400 text-xs">
+          {running.length > 0 ? `${running.length} running` : plans.size > 0 ? `${plans.size} plans` : 'Idle'}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-3 space-y-3">
+          {running.length > 0 && (
+            <div className="space-y-1">
+              {running.map(({ agentId, progress }) => (
+                <div key={progress.planId} className="flex items-center space-x-2 text-xs text-blue-200">
+                  <Loader2 className="h-3.5 w-3.5 animate-spin flex-shrink-0" />
+                  <span className="font-medium">{agentId}</span>
+                  <span className="text-gray-400 truncate">
+                    {progress.planType} plan "{progress.planId}"{progress.status === 'retrying' ? ` (attempt ${progress.attempt + 1})` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+            {activities.length === 0 ? (
+              <p className="text-gray-500 text-xs">Agent activity appears here while a build runs.</p>
+            ) : (
+              activities.map(activity => (
+                <div key={activity.id} className="flex items-start space-x-2 text-xs">
+                  <ActivityIcon activity={activity} />
+                  <span className="text-gray-500 flex-shrink-0">
+                    {new Date(activity.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                  </span>
+                  <span className="text-gray-300 break-words min-w-0">
+                    <span className="text-white font-medium">{activity.agentId}</span> {describeActivity(activity)}
+                  </span>
+                </div>
+              ))
+            )}
+            <div ref={timelineEndRef} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { Allotment } from 'allotment'
 import CodeEditor from './CodeEditor'
+import AgentActivityPanel from './AgentActivityPanel'
 import { ArrowLeft, Send, Folder, File, Play, Download, Settings, Share, Smartphone, FolderOpen, ChevronRight, ChevronDown, Code, X, Tabs } from 'lucide-react'
 import 'allotment/dist/style.css'
 
@@ -22,6 +23,95 @@ interface Message {
   files?: Array<{ path: string; content: string }>
 }
 
+interface CompileCheck {
+  analyzed: boolean
+  fixRounds: number
+  remainingDiagnostics: Array<{ severity: string; file: string; line: number; code: string; message: string }>
+}
+
+// Summarises the server's analyze-and-fix pass for the chat
+function formatCompileCheck(check?: CompileCheck): string {
+  if (!check || !check.analyzed) return ''
+
+  const rounds = `🔧 **Analyzer:** ${check.fixRounds} fix round${check.fixRounds === 1 ? '' : 's'}`
+  if (check.remainingDiagnostics.length === 0) {
+    return `\n\n${rounds}, no remaining issues.`
+  }
+
+  const shown = check.remainingDiagnostics.slice(0, 5)
+    .map(d => `• ${d.severity} ${d.file}:${d.line} ${d.message}`)
+    .join('\n')
+  const more = check.remainingDiagnostics.length > 5 ? `\n…and ${check.remainingDiagnostics.length - 5} more` : ''
+  return `\n\n${rounds}, ${check.remainingDiagnostics.length} remaining:\n${shown}${more}`
+}
+
+interface StreamEvent {
+  type: 'token' | 'explanation' | 'file' | 'retry' | 'done' | 'error'
+  text?: string
+  agentId?: string
+  file?: { path: string; content: string }
+  result?: any
+  error?: string
+  code?: string
+  retryable?: boolean
+  retryAfter?: number
+  attempt?: number
+  maxAttempts?: number
+  reason?: string
+}
+
+// Turns the server's machine-readable AI error codes into something the user can act on
+function describeAIError(code?: string, retryAfter?: number): string {
+  switch (code) {
+    case 'AI_AUTH_FAILED':
+      return 'The AI provider rejected the server\'s API key. Check the key configured on the server.'
+    case 'AI_RATE_LIMITED':
+      return `The AI provider's rate limit or quota was reached. Try again ${retryAfter ? `in ${retryAfter} seconds` : 'in a moment'}.`
+    case 'AI_TIMEOUT':
+      return 'The AI provider took too long to respond. Try again, or simplify the request.'
+    case 'AI_SAFETY_BLOCKED':
+      return 'The AI provider blocked this request. Rephrase it and try again.'
+    case 'AI_MALFORMED_OUTPUT':
+      return 'The AI returned output that could not be used. Trying again usually helps.'
+    case 'AI_PROVIDER_UNAVAILABLE':
+      return 'The AI provider is currently unavailable. Try again shortly.'
+    case 'TOKEN_BUDGET_EXCEEDED':
+      return 'Your daily token budget is used up. It resets at midnight UTC.'
+    case 'GUARDRAIL_BLOCKED':
+      return 'The generated code was blocked by the safety checks (unsafe file paths, APIs or embedded secrets). Rephrase the request and try again.'
+    default:
+      return 'The multi-agent system encountered an issue. This might be due to API configuration.'
+  }
+}
+
+// Reads a Server-Sent Events response body (EventSource cannot POST)
+async function readEventStream(response: Response, onEvent: (event: StreamEvent) => void) {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    let boundary = buffer.indexOf('\n\n')
+
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+
+      const data = frame.split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n')
+
+      if (data) onEvent(JSON.parse(data))
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+}
+
 interface ChatDevEnvironmentProps {
   initialPrompt: string
   appType: string
@@ -256,7 +346,7 @@ class _HomePageState extends State<HomePage> {
           const completionMessage: Message = {
             id: (Date.now() + 4).toString(),
             type: 'assistant',
-            content: `✅ **Multi-Agent Processing Complete!**\n\nAll agents have finished their tasks. Your Flutter app has been generated and is ready to use!\n\nPreview: ${previewUrl}`,
+            content: `✅ **Multi-Agent Processing Complete!**\n\nAll agents have finished their tasks. Your Flutter app has been generated and is ready to use!\n\nPreview: ${previewUrl}${formatCompileCheck(data.compileCheck)}`,
             timestamp: new Date()
           }
           setMessages(prev => [...prev.slice(0, -1), completionMessage])
@@ -301,7 +391,7 @@ class _HomePageState extends State<HomePage> {
     setMessages(prev => [...prev, thinkingMessage])
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/sessions/${sessionId}/code`, {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/sessions/${sessionId}/code/stream`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -311,13 +401,72 @@ class _HomePageState extends State<HomePage> {
         }),
       })
 
-      if (response.ok) {
-        const data = await response.json()
+      if (response.ok && response.body) {
+        // Render agent output as it streams in: explanation text, finished files, and the latest tokens
+        const streamedFiles: Array<{ path: string; content: string }> = []
+        let explanation = ''
+        let tokenTail = ''
+        let retryNotice = ''
+        let currentAgent = ''
+        let finalResult: any = null
+        let streamError = null as StreamEvent | null
+
+        await readEventStream(response, (event) => {
+          if (event.agentId) currentAgent = event.agentId
+
+          switch (event.type) {
+            case 'token':
+              retryNotice = ''
+              tokenTail = (tokenTail + (event.text || '')).slice(-400)
+              break
+            case 'explanation':
+              explanation += event.text || ''
+              break
+            case 'retry':
+              retryNotice = `🔁 ${event.agentId || 'Model call'} hit ${event.reason}, retrying (${event.attempt}/${event.maxAttempts})…`
+              break
+            case 'file':
+              retryNotice = ''
+              if (event.file) {
+                const streamedFile = event.file
+                const existing = streamedFiles.findIndex(f => f.path === streamedFile.path)
+                if (existing >= 0) streamedFiles[existing] = streamedFile
+                else streamedFiles.push(streamedFile)
+
+                setFiles(createFileTree([...streamedFiles]))
+                if (streamedFile.path === activeFile) {
+                  setActiveFileContent(streamedFile.content)
+                }
+              }
+              break
+            case 'done':
+              finalResult = event.result
+              return
+            case 'error':
+              streamError = event
+              return
+          }
+
+          const fileList = streamedFiles.map(f => `📄 ${f.path}`).join('\n')
+          const streamingMessage: Message = {
+            ...thinkingMessage,
+            content: `⚙️ **${currentAgent ? `${currentAgent} is working...` : 'Generating...'}**\n\n${retryNotice ? `${retryNotice}\n\n` : ''}${explanation}${fileList ? `\n\n${fileList}` : ''}${tokenTail ? `\n\n…${tokenTail}` : ''}`,
+            files: [...streamedFiles]
+          }
+          setMessages(prev => [...prev.slice(0, -1), streamingMessage])
+        })
+
+        const data = finalResult || {
+          success: false,
+          error: streamError?.error || 'Generation stream ended unexpectedly',
+          code: streamError?.code,
+          retryAfter: streamError?.retryAfter
+        }
 
         let successContent = ''
         if (data.success) {
           if (data.status === 'completed') {
-            successContent = `✅ **Multi-Agent System Complete!**\n\nI've successfully built your Flutter app using specialized AI agents:\n\n🎨 **Design Agent**: Created UI/UX specifications\n💻 **Code Agent**: Generated Flutter code with best practices\n🧪 **Testing Agent**: Created comprehensive test suite\n\nYour app is ready and has been hot reloaded!\n\nPreview: ${previewUrl}`
+            successContent = `✅ **Multi-Agent System Complete!**\n\nI've successfully built your Flutter app using specialized AI agents:\n\n🎨 **Design Agent**: Created UI/UX specifications\n💻 **Code Agent**: Generated Flutter code with best practices\n🧪 **Testing Agent**: Created comprehensive test suite\n\nYour app is ready and has been hot reloaded!\n\nPreview: ${previewUrl}${formatCompileCheck(data.compileCheck)}`
 
             // If we have generated files from multi-agent system
             if (data.data && data.data.code && data.data.code.files) {
@@ -337,7 +486,7 @@ class _HomePageState extends State<HomePage> {
             }, 3000)
           }
         } else {
-          successContent = `❌ **Processing Failed**\n\nError: ${data.error}\n\nThe multi-agent system encountered an issue. This might be due to API configuration. Let me create a basic template for you instead.`
+          successContent = `❌ **Processing Failed**\n\nError: ${data.error}\n\n${describeAIError(data.code, data.retryAfter)} Let me create a basic template for you instead.`
 
           // Fallback to basic template
           const basicTemplate = getBasicTemplate()
@@ -513,6 +662,8 @@ class _HomePageState extends State<HomePage> {
                 </div>
               </div>
 
+              <AgentActivityPanel sessionId={sessionId} />
+
               <div className="flex-1 overflow-y-auto p-6 space-y-6 bg-gradient-to-b from-gray-800/50 to-gray-900/50">
                 {messages.map(message => (
                   <div key={message.id} className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
@@ -1,64 +1,251 @@
+import Joi from 'joi'
 import { BaseAgent, AgentResult } from './shared/BaseAgent'
-import { AgentMessage, AgentContext, agentBus } from './shared/AgentCommunication'
-import { DesignAgent } from './specialists/DesignAgent'
-import { CodeAgent } from './specialists/CodeAgent'
-import { TestingAgent } from './specialists/TestingAgent'
+import { AgentMessage, AgentContext, PlanProgress, agentBus } from './shared/AgentCommunication'
+import { runDag, PlanCycleError } from './shared/PlanScheduler'
+import { validatePlans, canRunPlanType, PlanValidationError, PLAN_TYPE_RULES, PlanType, PlanDraft } from './shared/PlanValidator'
+import { DesignAgent, DESIGN_RESPONSE_SCHEMA } from './specialists/DesignAgent'
+import { CodeAgent, CODE_RESPONSE_SCHEMA } from './specialists/CodeAgent'
+import { TestingAgent, TEST_SUITE_RESPONSE_SCHEMA } from './specialists/TestingAgent'
+import { ReviewAgent, ReviewFinding, ReviewReport } from './specialists/ReviewAgent'
+import { LocalizationAgent } from './specialists/LocalizationAgent'
+import { ApiIntegrationAgent } from './specialists/ApiIntegrationAgent'
 import { logger } from '../utils/logger'
+import { asAIError, AIError } from '../services/llm'
 
-interface ReWOOPlan {
+export interface ReWOOPlan {
   id: string
-  type: 'design' | 'code' | 'test' | 'integrate'
+  type: PlanType
   agentId: string
   dependencies: string[]
-  status: 'pending' | 'in_progress' | 'completed' | 'failed'
+  // The planner's payload; only read for required keys the build does not provide
+  payload?: Record<string, any>
+  // cancelled: an upstream plan failed, so this one never ran
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled'
   result?: any
   error?: string
+  startedAt?: Date
+  completedAt?: Date
+  durationMs?: number
+  // Agent calls made for this plan over all runs
+  attempts: number
+  retryPolicy: RetryPolicy
+  // Set by a manual retry and kept for later runs: merged over the built agent payload, and
+  // added to the agent's prompt
+  payloadOverrides?: Record<string, any>
+  guidance?: string
 }
 
-interface OrchestratorState {
+export interface RetryPolicy {
+  // Agent calls per run, the first one included
+  maxAttempts: number
+  // Delay before the first retry; doubles for each further one
+  backoffMs: number
+}
+
+export interface PlanRetryOptions {
+  payload?: Record<string, any>
+  guidance?: string
+}
+
+interface PlanResult {
+  planId: string
+  agentId: string
+  type: ReWOOPlan['type']
+  result: any
+}
+
+// Independent plans (e.g. design and test scaffolding, or one code plan per screen) run side by side
+const MAX_PLAN_CONCURRENCY = parseInt(process.env.ORCHESTRATOR_MAX_CONCURRENCY || '3', 10)
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.ORCHESTRATOR_PLAN_MAX_ATTEMPTS || '2', 10),
+  backoffMs: parseInt(process.env.ORCHESTRATOR_PLAN_RETRY_BACKOFF_MS || '1000', 10)
+}
+
+// Code plans return the largest output, which is the most likely to come back unusable
+const RETRY_POLICIES: Partial<Record<PlanType, Partial<RetryPolicy>>> = {
+  code: { maxAttempts: DEFAULT_RETRY_POLICY.maxAttempts + 1 },
+  // The API layer is generated without a model, so another attempt would fail the same way
+  api: { maxAttempts: 1 }
+}
+
+// Times the planner is asked to revise a plan that validation could not repair
+const MAX_PLAN_REVISIONS = parseInt(process.env.ORCHESTRATOR_MAX_PLAN_REVISIONS || '2', 10)
+
+// Times the code agent is asked to fix blocking review findings before the results are integrated
+const MAX_REVIEW_ROUNDS = parseInt(process.env.ORCHESTRATOR_MAX_REVIEW_ROUNDS || '2', 10)
+
+// Blocking findings of these categories need new code rather than changes to existing code
+const FEATURE_CATEGORIES: ReviewFinding['category'][] = ['missing_screen', 'navigation', 'requirement']
+
+export interface ReviewRound extends ReviewReport {
+  // Code agent actions run to fix this round's blocking findings
+  revisions: string[]
+}
+
+export interface CodeReview {
+  rounds: ReviewRound[]
+  // The merged code after the last revision, integrated instead of the code plans' results
+  code: any
+  // Of the last review; the integrated result reports it as its confidence
+  confidence: number
+}
+
+// Points where a build can pause for the user: after planning, once the design plans are done
+// (before any code is written from them) and before the generated files are written
+export type ApprovalCheckpoint = 'plan' | 'design' | 'files'
+
+export const APPROVAL_CHECKPOINTS: ApprovalCheckpoint[] = ['plan', 'design', 'files']
+
+export interface PendingApproval {
+  checkpoint: ApprovalCheckpoint
+  // plan: the plans; design: design results by plan id; files: the integrated code and tests
+  artifact: any
+  requestedAt: Date
+  // Feedback of earlier rejections at this checkpoint, oldest first
+  rejections: string[]
+}
+
+export interface ApprovalDecision {
+  action: 'approve' | 'edit' | 'reject'
+  // The edited artifact, in the shape it was presented in
+  artifact?: any
+  feedback?: string
+}
+
+export interface OrchestratorState {
   currentPhase: string
   plans: ReWOOPlan[]
   context: any
   finalResult: any
+  approvals: {
+    required: ApprovalCheckpoint[]
+    approved: ApprovalCheckpoint[]
+  }
+  pendingApproval?: PendingApproval
+  review?: CodeReview
 }
 
-const ORCHESTRATOR_SYSTEM_PROMPT = `You are the Master Orchestrator Agent for Flutter app development. You coordinate specialized agents using the ReWOO (Reasoning without Observation) pattern.
+const EDITED_FILES_SCHEMA = Joi.object({
+  code: CODE_RESPONSE_SCHEMA.required(),
+  tests: TEST_SUITE_RESPONSE_SCHEMA.allow(null).optional()
+})
+
+const EXECUTION_PLAN_SCHEMA = Joi.object({
+  plans: Joi.array().items(Joi.object({
+    id: Joi.string().required(),
+    type: Joi.string().valid('design', 'code', 'test', 'localize', 'api', 'integrate').required(),
+    agentId: Joi.string().required(),
+    dependencies: Joi.array().items(Joi.string()).default([]),
+    action: Joi.string().optional(),
+    payload: Joi.object().optional()
+  })).min(1).required(),
+  explanation: Joi.string().allow('').optional()
+})
+
+export interface ClarifyingQuestion {
+  id: string
+  topic: string
+  question: string
+  options: string[]
+  suggestedDefault: string
+}
 
-Your responsibilities:
-1. PLAN: Break down user requirements into specialized agent tasks
-2. EXECUTE: Coordinate agents in the correct order with dependencies
-3. INTEGRATE: Combine results from all agents into complete Flutter application
-4. VALIDATE: Ensure quality and completeness of final output
+export interface ClarificationAnswer {
+  topic: string
+  question: string
+  answer: string
+}
 
-Available Specialized Agents:
-- design-agent: UI/UX design and Material Design 3 specifications
-- code-agent: Flutter code generation and architecture
-- testing-agent: Test suite generation and quality assurance
+const CLARIFICATION_SCHEMA = Joi.object({
+  questions: Joi.array().items(Joi.object({
+    id: Joi.string().required(),
+    topic: Joi.string().required(),
+    question: Joi.string().required(),
+    options: Joi.array().items(Joi.string()).default([]),
+    suggestedDefault: Joi.string().required()
+  })).max(6).default([])
+})
+
+// Decisions that change the plan substantially; a topic is open unless the prompt or the
+// extracted requirements already settle it
+const CLARIFICATION_TOPICS = [
+  { topic: 'authentication', feature: 'authentication', keywords: ['login', 'log in', 'sign in', 'signup', 'sign up', 'account', 'no auth'] },
+  { topic: 'backend', feature: 'firebase', keywords: ['backend', 'api', 'rest', 'supabase', 'offline', 'local storage', 'sqlite', 'hive'] },
+  { topic: 'screens', keywords: ['screen', 'page', 'tab', 'single view'] },
+  { topic: 'state_management', keywords: ['provider', 'riverpod', 'bloc', 'getx', 'setstate', 'mobx', 'redux'] }
+]
+
+// Languages a prompt can ask for, e.g. "in English, German and Japanese"
+const LANGUAGE_LOCALES: Record<string, string> = {
+  english: 'en', spanish: 'es', french: 'fr', german: 'de', italian: 'it', portuguese: 'pt', dutch: 'nl',
+  polish: 'pl', swedish: 'sv', turkish: 'tr', russian: 'ru', arabic: 'ar', hindi: 'hi', japanese: 'ja',
+  korean: 'ko', chinese: 'zh', indonesian: 'id', vietnamese: 'vi', thai: 'th'
+}
 
-RESPONSE FORMAT:
-Always respond with a JSON object containing:
-{
-  "phase": "planning" | "execution" | "integration" | "completion",
-  "plans": [
-    {
-      "id": "unique_plan_id",
-      "type": "design" | "code" | "test",
-      "agentId": "agent_name",
-      "dependencies": ["plan_ids"],
-      "action": "specific_action",
-      "payload": { /* agent-specific data */ }
-    }
-  ],
-  "nextSteps": ["Description of next actions"],
-  "status": "in_progress" | "completed" | "failed",
-  "explanation": "Current progress and reasoning"
-}`
+// Words that show the user wants the app itself in other languages
+const LOCALIZATION_INTENT = /\b(?:translat(?:e|ed|ion|ions)|locali[sz](?:e|ed|ation)|internationali[sz](?:e|ed|ation)|i18n|l10n|multilingual|bilingual|languages?|locales?)\b/i
+
+// A language word names a language when a list goes on or ends after it ("German, French and
+// Spanish", "to German."), not when it describes a noun ("Chinese restaurant") or is a verb
+// ("polish the UI")
+const LANGUAGE_NAME = `\\b(?:${Object.keys(LANGUAGE_LOCALES).join('|')})\\b(?=\\s*(?:$|[,.;:!?)&/]|(?:and|or|too|languages?|locales?|translations?|versions?)\\b))`
+
+// Target locales the prompt asks for, English first. Nationality words alone ("a Chinese restaurant
+// app", "Italian recipes") name no locale: a language only counts in a sentence that asks for
+// translation or localization, or in a list of languages such as "in English, German and Spanish".
+function detectLocales(userPrompt: string): string[] {
+  const named = (text: string) => Array.from(text.matchAll(new RegExp(LANGUAGE_NAME, 'gi')), match => match[0].toLowerCase())
+
+  const languages = [
+    ...userPrompt.split(/[.;!?\n]+/).filter(sentence => LOCALIZATION_INTENT.test(sentence)).flatMap(named),
+    ...Array.from(userPrompt.matchAll(new RegExp(`\\bin\\s+${LANGUAGE_NAME}(?:\\s*,\\s*${LANGUAGE_NAME})*\\s*,?\\s+(?:and|or|&)\\s+${LANGUAGE_NAME}`, 'gi')), match => named(match[0])).flat()
+  ]
+
+  const locales = languages.map(language => LANGUAGE_LOCALES[language])
+  return locales.some(locale => locale !== 'en') ? Array.from(new Set(['en', ...locales])) : []
+}
+
+// Several code plans (e.g. one per screen) each return part of the app; on a path clash the later plan wins
+function mergeCodeResults(results: any[]): any {
+  if (results.length <= 1) return results[0] || null
+
+  const files = new Map<string, any>()
+  const dependencies = new Map<string, any>()
+  for (const result of results) {
+    for (const file of result?.files || []) files.set(file.path, file)
+    for (const dependency of result?.dependencies || []) dependencies.set(dependency.name, dependency)
+  }
+
+  return {
+    ...results[0],
+    files: Array.from(files.values()),
+    dependencies: Array.from(dependencies.values()),
+    explanation: results.map(r => r?.explanation).filter(Boolean).join('\n\n')
+  }
+}
+
+function mergeTestResults(results: any[]): any {
+  if (results.length <= 1) return results[0] || null
+
+  const testSuite: Record<string, any[]> = { unitTests: [], widgetTests: [], integrationTests: [] }
+  for (const result of results) {
+    for (const kind of Object.keys(testSuite)) {
+      testSuite[kind].push(...(result?.testSuite?.[kind] || []))
+    }
+  }
+
+  return { ...results[0], testSuite }
+}
 
 export class MasterOrchestratorAgent extends BaseAgent {
   private designAgent: DesignAgent
   private codeAgent: CodeAgent
   private testingAgent: TestingAgent
+  private reviewAgent: ReviewAgent
+  private localizationAgent: LocalizationAgent
+  private apiIntegrationAgent: ApiIntegrationAgent
   private state: OrchestratorState
+  private stateListener?: (state: OrchestratorState) => void
 
   constructor() {
     super('master-orchestrator', {
@@ -66,24 +253,34 @@ export class MasterOrchestratorAgent extends BaseAgent {
       canAnalyzeDesign: true,
       canRunTests: true,
       canOptimize: true,
-      canDeploy: false
-    }, ORCHESTRATOR_SYSTEM_PROMPT)
+      canDeploy: false,
+      canLocalize: true,
+      canIntegrateApi: true,
+      actions: ['clarify_requirements', 'build_app', 'continue_execution', 'retry_plan', 'resolve_approval']
+    }, 'orchestrator-system')
 
     // Initialize specialized agents
     this.designAgent = new DesignAgent()
     this.codeAgent = new CodeAgent()
     this.testingAgent = new TestingAgent()
+    this.reviewAgent = new ReviewAgent()
+    this.localizationAgent = new LocalizationAgent()
+    this.apiIntegrationAgent = new ApiIntegrationAgent()
 
     // Register agents in communication bus
     agentBus.registerAgent('design-agent', this.designAgent)
     agentBus.registerAgent('code-agent', this.codeAgent)
     agentBus.registerAgent('testing-agent', this.testingAgent)
+    agentBus.registerAgent('review-agent', this.reviewAgent)
+    agentBus.registerAgent('localization-agent', this.localizationAgent)
+    agentBus.registerAgent('api-integration-agent', this.apiIntegrationAgent)
 
     this.state = {
       currentPhase: 'planning',
       plans: [],
       context: {},
-      finalResult: null
+      finalResult: null,
+      approvals: { required: [], approved: [] }
     }
 
     logger.info('Master Orchestrator Agent initialized with specialized agents')
@@ -97,10 +294,16 @@ export class MasterOrchestratorAgent extends BaseAgent {
       logger.info(`Master Orchestrator: Processing ${payload.action} in ${this.state.currentPhase} phase`)
 
       switch (payload.action) {
+        case 'clarify_requirements':
+          return await this.clarifyRequirements(payload.userPrompt, context)
         case 'build_app':
-          return await this.buildApplication(payload.userPrompt, context)
+          return await this.buildApplication(payload.userPrompt, context, payload.approvals || [])
         case 'continue_execution':
           return await this.continueExecution(context)
+        case 'retry_plan':
+          return await this.retryPlan(payload.planId, { payload: payload.payload, guidance: payload.guidance }, context)
+        case 'resolve_approval':
+          return await this.resolveApproval({ action: payload.decision, artifact: payload.artifact, feedback: payload.feedback }, context)
         default:
           throw new Error(`Unknown action: ${payload.action}`)
       }
@@ -109,164 +312,463 @@ export class MasterOrchestratorAgent extends BaseAgent {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Orchestration failed',
-        confidence: 0
+        confidence: 0,
+        aiError: asAIError(error)
       }
     }
   }
 
-  private async buildApplication(userPrompt: string, context: AgentContext): Promise<AgentResult> {
-    // Phase 1: Planning
-    this.state.currentPhase = 'planning'
-    const planningResult = await this.createExecutionPlan(userPrompt, context)
+  // Optional pre-planning step: returns questions (with suggested defaults) for the open
+  // topics the prompt leaves ambiguous. An empty list means planning can start right away.
+  private async clarifyRequirements(userPrompt: string, context: AgentContext): Promise<AgentResult> {
+    const requirements = this.extractRequirements(userPrompt)
+    const openTopics = this.findOpenTopics(userPrompt, requirements)
 
-    if (!planningResult.success) {
-      return planningResult
+    if (openTopics.length === 0) {
+      return {
+        success: true,
+        data: { phase: 'clarification', questions: [] },
+        confidence: 0.9
+      }
+    }
+
+    const prompt = `Before planning a Flutter app, decide whether the user's request leaves important decisions open.
+
+USER REQUEST: ${userPrompt}
+
+DETECTED REQUIREMENTS: ${JSON.stringify(requirements)}
+
+POSSIBLY OPEN TOPICS: ${openTopics.join(', ')}
+
+For each open topic that is genuinely ambiguous for this request, ask one short question with 2-4 answer options and a sensible suggested default. Skip topics the request already implies. Respond with ONLY a JSON object:
+{
+  "questions": [
+    {
+      "id": "auth",
+      "topic": "authentication",
+      "question": "Do users need to sign in?",
+      "options": ["No sign-in", "Email and password", "Google sign-in"],
+      "suggestedDefault": "No sign-in"
     }
+  ]
+}`
+
+    try {
+      const response = await this.callModel<{ questions: ClarifyingQuestion[] }>(prompt, context, CLARIFICATION_SCHEMA)
 
-    // Phase 2: Execution
-    this.state.currentPhase = 'execution'
-    const executionResult = await this.executeReWOOPlan(context)
+      logger.info(`Master Orchestrator: ${response.questions.length} clarifying question(s) for open topics ${openTopics.join(', ')}`)
 
-    if (!executionResult.success) {
-      return executionResult
+      return {
+        success: true,
+        data: { phase: 'clarification', questions: response.questions },
+        confidence: 0.8
+      }
+    } catch (error) {
+      logger.error('Clarification phase error:', error)
+      return {
+        success: false,
+        error: `Failed to check requirements: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        confidence: 0,
+        aiError: asAIError(error)
+      }
     }
+  }
 
-    // Phase 3: Integration
-    this.state.currentPhase = 'integration'
-    const integrationResult = await this.integrateResults(context)
+  private findOpenTopics(userPrompt: string, requirements: { features: string[] }): string[] {
+    const prompt = userPrompt.toLowerCase()
+
+    return CLARIFICATION_TOPICS
+      .filter(t => !(t.feature && requirements.features.includes(t.feature)))
+      .filter(t => !t.keywords.some(keyword => prompt.includes(keyword)))
+      .map(t => t.topic)
+  }
+
+  // Plans, executes and integrates, pausing at every checkpoint in `approvals`
+  private async buildApplication(userPrompt: string, context: AgentContext, approvals: ApprovalCheckpoint[]): Promise<AgentResult> {
+    this.state.approvals = { required: approvals, approved: [] }
+    this.state.pendingApproval = undefined
+
+    // Phase 1: Planning
+    this.setPhase('planning')
+    const planningResult = await this.createExecutionPlan(userPrompt, context)
+
+    if (!planningResult.success) {
+      return planningResult
+    }
 
-    return integrationResult
+    // Phases 2 and 3: Execution and integration
+    this.setPhase('execution')
+    return this.continueExecution(context)
   }
 
-  private async createExecutionPlan(userPrompt: string, context: AgentContext): Promise<AgentResult> {
+  // `rejection` is the user's feedback on the current plans, which the new plan should address
+  private async createExecutionPlan(userPrompt: string, context: AgentContext, rejection?: string): Promise<AgentResult> {
+    const clarifications: ClarificationAnswer[] = context.projectContext?.clarifications || []
+    const answered = clarifications.length > 0
+      ? `\nDECISIONS CONFIRMED BY THE USER:\n${clarifications.map(c => `- ${c.question} ${c.answer}`).join('\n')}\n`
+      : ''
+    const requirements = this.extractRequirements(userPrompt)
+    // A rejected plan is revised without the build's metadata, so the stored document is used
+    const openApi = context.metadata?.openApi ?? this.state.context.openApi
+
     const prompt = `Create a ReWOO execution plan for building a Flutter app:
 
 USER REQUEST: ${userPrompt}
+${answered}${context.metadata?.referenceImage ? '\nThe user supplied a screenshot of the desired UI; the design-agent will receive it with the create_design action.\n' : ''}
+AVAILABLE AGENTS:
+${this.describeAgents()}
 
 Create a comprehensive plan with these phases:
 1. DESIGN: Create UI/UX design specifications
 2. CODE: Generate Flutter code based on design
 3. TEST: Create comprehensive test suite
-4. INTEGRATE: Combine all components
+4. LOCALIZE: Only when the app targets more than one language${requirements.locales.length > 0 ? ` (requested locales: ${requirements.locales.join(', ')})` : ''}, move its strings into translated ARB files after all code plans
+5. API: Only when the user uploaded an OpenAPI document${openApi ? ` (uploaded: "${openApi.document?.info?.title || 'API'}")` : ' (none uploaded)'}, generate its Dart client before the code plans, which then build on it
 
-Consider dependencies between tasks and optimal execution order.`
+The results are integrated automatically once all plans complete, so no integrate plan is needed. Consider dependencies between tasks and optimal execution order.${rejection ? `
 
-    try {
-      const planningResponse = await this.callGemini(prompt, context)
+THE USER REJECTED THIS PLAN:
+${JSON.stringify(this.planArtifact(), null, 2)}
 
-      if (planningResponse.plans) {
-        this.state.plans = planningResponse.plans.map((plan: any) => ({
-          ...plan,
-          status: 'pending'
-        }))
+USER FEEDBACK: ${rejection}` : ''}`
 
-        this.state.context = {
-          userPrompt,
-          projectRequirements: this.extractRequirements(userPrompt)
-        }
+    try {
+      // The localize and api plans the build calls for are settled first, so validation covers them
+      const checkPlans = (plans: PlanDraft[]) => {
+        const repairs = this.syncApiPlans(plans, !!openApi)
+        const localizeRepair = this.addLocalizePlan(plans, requirements.locales)
+        if (localizeRepair) repairs.push(localizeRepair)
+
+        const result = validatePlans<PlanDraft>(plans, agentBus.getCapabilities(), this.providedPayload(requirements.locales, openApi))
+        return { ...result, repairs: [...repairs, ...result.repairs] }
+      }
 
-        logger.info(`Master Orchestrator: Created ${this.state.plans.length} execution plans`)
+      let response = await this.callModel(prompt, context, EXECUTION_PLAN_SCHEMA)
+      let validation = checkPlans(response.plans)
 
-        return {
-          success: true,
-          data: {
-            phase: 'planning',
-            plans: this.state.plans,
-            status: 'completed'
-          },
-          confidence: 0.9
-        }
+      for (let revision = 1; validation.errors.length > 0 && revision <= MAX_PLAN_REVISIONS; revision++) {
+        logger.warn(`Master Orchestrator: Plan rejected (revision ${revision}/${MAX_PLAN_REVISIONS}): ${validation.errors.join('; ')}`)
+        response = await this.callModel(this.buildPlanRevisionPrompt(prompt, response.plans, validation.errors), context, EXECUTION_PLAN_SCHEMA)
+        validation = checkPlans(response.plans)
       }
 
-      throw new Error('Failed to create execution plans')
+      if (validation.errors.length > 0) {
+        throw new PlanValidationError(validation.errors)
+      }
+      validation.repairs.forEach(repair => logger.info(`Master Orchestrator: Plan repaired: ${repair}`))
+
+      this.state.plans = validation.plans.map(plan => ({
+        ...plan,
+        status: 'pending',
+        attempts: 0,
+        retryPolicy: { ...DEFAULT_RETRY_POLICY, ...RETRY_POLICIES[plan.type] }
+      }))
+
+      this.state.context = {
+        userPrompt,
+        projectRequirements: {
+          ...requirements,
+          clarifications
+        },
+        referenceImage: context.metadata?.referenceImage,
+        openApi
+      }
+
+      logger.info(`Master Orchestrator: Created ${this.state.plans.length} execution plans`)
+
+      return {
+        success: true,
+        data: {
+          phase: 'planning',
+          plans: this.state.plans,
+          repairs: validation.repairs,
+          status: 'completed'
+        },
+        confidence: 0.9
+      }
     } catch (error) {
       logger.error('Planning phase error:', error)
       return {
         success: false,
-        error: 'Failed to create execution plan',
-        confidence: 0
+        error: `Failed to create execution plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        confidence: 0,
+        aiError: asAIError(error)
       }
     }
   }
 
-  private async executeReWOOPlan(context: AgentContext): Promise<AgentResult> {
-    const results: any[] = []
-
-    // Execute plans in dependency order
-    const sortedPlans = this.sortPlansByDependencies(this.state.plans)
-
-    for (const plan of sortedPlans) {
-      logger.info(`Master Orchestrator: Executing plan ${plan.id} with agent ${plan.agentId}`)
-
-      try {
-        plan.status = 'in_progress'
-
-        // Prepare agent-specific message
-        const agentMessage: AgentMessage = {
-          id: `${plan.id}_${Date.now()}`,
-          agentId: plan.agentId,
-          type: 'request',
-          payload: {
-            action: this.getAgentAction(plan.type),
-            context,
-            ...this.buildAgentPayload(plan, results)
-          },
-          timestamp: new Date(),
-          sessionId: context.sessionId
-        }
+  // Payload values the build supplies to its plans, keyed like the agents' payloads
+  private providedPayload(locales: string[], openApi?: { document?: unknown }): Record<string, unknown> {
+    return {
+      locales: locales.length > 1 ? locales : undefined,
+      document: openApi?.document
+    }
+  }
 
-        const agentResult = await agentBus.sendMessage(agentMessage)
+  // A build for more than one locale always gets a localize plan, run after every code plan.
+  // Returns the repair to report, or null when nothing was added.
+  private addLocalizePlan(plans: PlanDraft[], locales: string[]): string | null {
+    if (locales.length < 2 || plans.some(plan => plan.type === 'localize')) return null
 
-        if (agentResult.success) {
-          plan.status = 'completed'
-          plan.result = agentResult.data
-          results.push({
-            planId: plan.id,
-            agentId: plan.agentId,
-            type: plan.type,
-            result: agentResult.data
-          })
+    const agents = agentBus.getCapabilities()
+    const agentId = Array.from(agents.keys()).find(id => canRunPlanType(agents.get(id), 'localize'))
+    if (!agentId) return null
+
+    let id = 'localize'
+    for (let n = 2; plans.some(plan => plan.id === id); n++) id = `localize_${n}`
+
+    plans.push({ id, type: 'localize', agentId, dependencies: plans.filter(plan => plan.type === 'code').map(plan => plan.id) })
+    return `Added localize plan "${id}" for locales ${locales.join(', ')}`
+  }
+
+  // An uploaded OpenAPI document always gets one api plan that every code plan depends on; without
+  // a document there is nothing to generate from, so api plans are dropped. Returns the repairs.
+  private syncApiPlans(plans: PlanDraft[], hasDocument: boolean): string[] {
+    const apiPlans = plans.filter(plan => plan.type === 'api')
+
+    if (!hasDocument) {
+      for (const apiPlan of apiPlans) {
+        plans.splice(plans.indexOf(apiPlan), 1)
+        plans.forEach(plan => { plan.dependencies = plan.dependencies.filter(id => id !== apiPlan.id) })
+      }
+      return apiPlans.map(plan => `Removed api plan "${plan.id}"; no OpenAPI document was uploaded`)
+    }
+    if (apiPlans.length > 0) return []
 
-          logger.info(`Master Orchestrator: Plan ${plan.id} completed successfully`)
-        } else {
-          plan.status = 'failed'
-          plan.error = agentResult.error
-          logger.error(`Master Orchestrator: Plan ${plan.id} failed:`, agentResult.error)
+    const agents = agentBus.getCapabilities()
+    const agentId = Array.from(agents.keys()).find(id => canRunPlanType(agents.get(id), 'api'))
+    if (!agentId) return []
+
+    let id = 'api'
+    for (let n = 2; plans.some(plan => plan.id === id); n++) id = `api_${n}`
+
+    plans.unshift({ id, type: 'api', agentId, dependencies: [] })
+    plans.filter(plan => plan.type === 'code').forEach(plan => plan.dependencies.push(id))
+    return [`Added api plan "${id}" for the uploaded OpenAPI document`]
+  }
+
+  private describeAgents(): string {
+    const lines: string[] = []
+    agentBus.getCapabilities().forEach((capabilities, agentId) => {
+      const types = (Object.keys(PLAN_TYPE_RULES) as Array<keyof typeof PLAN_TYPE_RULES>)
+        .filter(type => canRunPlanType(capabilities, type))
+      if (types.length > 0) lines.push(`- ${agentId}: ${types.join(', ')} plans`)
+    })
+    return lines.join('\n')
+  }
+
+  private buildPlanRevisionPrompt(prompt: string, plans: any[], errors: string[]): string {
+    return `${prompt}
+
+YOUR PREVIOUS PLAN WAS REJECTED:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Previous plans:
+${JSON.stringify(plans, null, 2)}
+
+Return a corrected plan: unique ids, only the agents listed above, dependencies that name other plans in the list, no cycles and a payload with any key the errors name as missing.`
+  }
 
-          return {
-            success: false,
-            error: `Agent ${plan.agentId} failed: ${agentResult.error}`,
-            confidence: 0
+  // Runs the plans as a dependency graph. Plans completed by an earlier run are kept, so a
+  // continuation only runs what is left.
+  private async executeReWOOPlan(context: AgentContext): Promise<AgentResult> {
+    const startedAt = Date.now()
+    const failures: Array<{ plan: ReWOOPlan; aiError?: AIError }> = []
+    const alreadyCompleted = new Set(this.state.plans.filter(p => p.status === 'completed').map(p => p.id))
+
+    // Nothing is built from a design the user has not approved yet
+    const designPlans = this.state.plans.filter(p => p.type === 'design')
+    const held = new Set(designPlans.length > 0 && this.needsApproval('design')
+      ? designPlans.flatMap(p => this.findDependents(p.id))
+      : [])
+
+    try {
+      await runDag(
+        this.state.plans.filter(p => !held.has(p)),
+        async plan => {
+          const outcome = await this.executePlan(plan, context)
+          if (!outcome.success) failures.push({ plan, aiError: outcome.aiError })
+          return outcome.success
+        },
+        {
+          concurrency: MAX_PLAN_CONCURRENCY,
+          alreadyCompleted,
+          onCancel: (plan, failedId) => {
+            plan.status = 'cancelled'
+            plan.error = `Cancelled because plan ${failedId} failed`
+            logger.warn(`Master Orchestrator: Plan ${plan.id} cancelled, upstream plan ${failedId} failed`)
+            this.notifyStateChange()
           }
         }
-      } catch (error) {
-        plan.status = 'failed'
-        plan.error = error instanceof Error ? error.message : 'Unknown error'
-        logger.error(`Master Orchestrator: Plan ${plan.id} execution error:`, error)
-
+      )
+    } catch (error) {
+      if (error instanceof PlanCycleError) {
+        logger.error(`Master Orchestrator: ${error.message}`)
         return {
           success: false,
-          error: `Plan execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error: `Invalid execution plan: ${error.message}`,
           confidence: 0
         }
       }
+      throw error
+    }
+
+    const timing = this.describeTiming(startedAt)
+    logger.info(`Master Orchestrator: Executed ${this.state.plans.length} plan(s) in ${timing.totalMs}ms (${timing.sequentialMs}ms of agent time)`)
+
+    if (failures.length > 0) {
+      const { plan, aiError } = failures[0]
+      const cancelled = this.state.plans.filter(p => p.status === 'cancelled').length
+
+      return {
+        success: false,
+        error: `${plan.error}${cancelled > 0 ? ` (${cancelled} dependent plan(s) cancelled)` : ''}`,
+        data: { phase: 'execution', status: 'failed', timing },
+        confidence: 0,
+        aiError
+      }
+    }
+
+    if (held.size > 0) {
+      return this.requestApproval('design', () => this.designArtifact()) as AgentResult
     }
 
     return {
       success: true,
       data: {
         phase: 'execution',
-        results,
-        status: 'completed'
+        results: this.completedResults(),
+        status: 'completed',
+        timing
       },
       confidence: 0.85
     }
   }
 
+  // Failed attempts are retried with backoff under the plan's retry policy, except for model
+  // errors that another call cannot fix (e.g. authentication or budget)
+  private async executePlan(plan: ReWOOPlan, context: AgentContext): Promise<{ success: boolean; aiError?: AIError }> {
+    logger.info(`Master Orchestrator: Executing plan ${plan.id} with agent ${plan.agentId}`)
+
+    plan.status = 'in_progress'
+    plan.error = undefined
+    plan.startedAt = new Date()
+    this.notifyStateChange()
+    this.reportProgress(plan, context, 'started')
+
+    let outcome = await this.attemptPlan(plan, context)
+    for (let attempt = 2; !outcome.success && attempt <= plan.retryPolicy.maxAttempts; attempt++) {
+      if (outcome.aiError && !outcome.aiError.retryable) break
+
+      const delayMs = plan.retryPolicy.backoffMs * 2 ** (attempt - 2)
+      logger.warn(`Master Orchestrator: Plan ${plan.id} failed (${outcome.error}), retrying in ${delayMs}ms (attempt ${attempt}/${plan.retryPolicy.maxAttempts})`)
+      this.reportProgress(plan, context, 'retrying', outcome.error)
+      await new Promise(resolve => setTimeout(resolve, delayMs))
+      outcome = await this.attemptPlan(plan, context)
+    }
+
+    plan.completedAt = new Date()
+    plan.durationMs = plan.completedAt.getTime() - plan.startedAt.getTime()
+
+    if (outcome.success) {
+      plan.status = 'completed'
+      plan.result = outcome.data
+      logger.info(`Master Orchestrator: Plan ${plan.id} completed in ${plan.durationMs}ms`)
+      this.notifyStateChange()
+      this.reportProgress(plan, context, 'completed')
+      return { success: true }
+    }
+
+    plan.status = 'failed'
+    plan.error = outcome.error
+    logger.error(`Master Orchestrator: Plan ${plan.id} failed after ${plan.attempts} attempt(s):`, outcome.error)
+    this.notifyStateChange()
+    this.reportProgress(plan, context, 'failed', outcome.error)
+    return { success: false, aiError: outcome.aiError }
+  }
+
+  private reportProgress(plan: ReWOOPlan, context: AgentContext, status: PlanProgress['status'], error?: string): void {
+    agentBus.reportProgress(context.sessionId, plan.agentId, {
+      planId: plan.id,
+      planType: plan.type,
+      status,
+      attempt: plan.attempts,
+      // A re-run plan still has the duration of its previous run until it finishes
+      durationMs: status === 'completed' || status === 'failed' ? plan.durationMs : undefined,
+      error
+    })
+  }
+
+  private async attemptPlan(plan: ReWOOPlan, context: AgentContext): Promise<{ success: boolean; data?: any; error?: string; aiError?: AIError }> {
+    // A plan that ran before must not get its earlier answer back from the response cache
+    const noCache = context.metadata?.noCache || plan.attempts > 0
+    plan.attempts++
+
+    try {
+      // Prepare agent-specific message
+      const agentMessage: AgentMessage = {
+        id: `${plan.id}_${Date.now()}`,
+        agentId: plan.agentId,
+        type: 'request',
+        payload: {
+          ...this.buildAgentPayload(plan, this.completedResults()),
+          ...plan.payloadOverrides,
+          action: this.getAgentAction(plan.type),
+          // The plan id lets model usage be attributed to this step
+          context: { ...context, metadata: { ...context.metadata, planId: plan.id, noCache, guidance: plan.guidance } }
+        },
+        timestamp: new Date(),
+        sessionId: context.sessionId
+      }
+
+      const agentResult = await agentBus.sendMessage(agentMessage)
+
+      if (agentResult.success) {
+        return { success: true, data: agentResult.data }
+      }
+      return { success: false, error: `Agent ${plan.agentId} failed: ${agentResult.error}`, aiError: agentResult.aiError }
+    } catch (error) {
+      logger.error(`Master Orchestrator: Plan ${plan.id} execution error:`, error)
+      return {
+        success: false,
+        error: `Plan execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        aiError: asAIError(error)
+      }
+    }
+  }
+
+  // In completion order
+  private completedResults(): PlanResult[] {
+    return this.state.plans
+      .filter(p => p.status === 'completed')
+      .sort((a, b) => (a.completedAt?.getTime() || 0) - (b.completedAt?.getTime() || 0))
+      .map(p => ({ planId: p.id, agentId: p.agentId, type: p.type, result: p.result }))
+  }
+
+  private describeTiming(startedAt: number) {
+    const plans = this.state.plans.map(p => ({
+      planId: p.id,
+      agentId: p.agentId,
+      status: p.status,
+      startedAt: p.startedAt,
+      completedAt: p.completedAt,
+      durationMs: p.durationMs
+    }))
+
+    return {
+      totalMs: Date.now() - startedAt,
+      // What running the same plans one after another would have taken
+      sequentialMs: plans.reduce((sum, p) => sum + (p.durationMs || 0), 0),
+      concurrency: MAX_PLAN_CONCURRENCY,
+      plans
+    }
+  }
+
   private async integrateResults(context: AgentContext): Promise<AgentResult> {
-    const designResult = this.getResultByType('design')
-    const codeResult = this.getResultByType('code')
-    const testResult = this.getResultByType('test')
+    const designResult = this.getResultsByType('design')[0]
+    const review = this.state.review
+    const codeResult = review?.code ?? this.mergedCode()
+    const testResult = mergeTestResults(this.getResultsByType('test'))
 
     // Integrate all results into final Flutter application structure
     const integratedResult = {
@@ -275,9 +777,10 @@ Consider dependencies between tasks and optimal execution order.`
         description: this.state.context.userPrompt,
         version: '1.0.0'
       },
-      design: designResult?.result || null,
-      code: codeResult?.result || null,
-      tests: testResult?.result || null,
+      design: designResult || null,
+      code: codeResult,
+      tests: testResult,
+      review: review ? { rounds: review.rounds, confidence: review.confidence } : null,
       metadata: {
         generatedAt: new Date().toISOString(),
         agentsUsed: this.state.plans.map(p => p.agentId),
@@ -287,14 +790,14 @@ Consider dependencies between tasks and optimal execution order.`
     }
 
     this.state.finalResult = integratedResult
-    this.state.currentPhase = 'completion'
+    this.setPhase('completion')
 
     logger.info('Master Orchestrator: Integration completed successfully')
 
     return {
       success: true,
       data: integratedResult,
-      confidence: 0.9,
+      confidence: review?.confidence ?? 0.9,
       nextSteps: [
         'Flutter project files have been generated',
         'Test suite is ready for execution',
@@ -304,13 +807,149 @@ Consider dependencies between tasks and optimal execution order.`
     }
   }
 
+  // Reviews the merged code against the design and the request, and sends blocking findings back
+  // to the code agent for up to MAX_REVIEW_ROUNDS rounds. The review is advisory: when the
+  // reviewer or a revision fails, the code reviewed last is integrated as it is.
+  private async reviewCode(context: AgentContext): Promise<void> {
+    let code = this.mergedCode()
+    if (!code || !agentBus.getCapabilities().has('review-agent')) {
+      return
+    }
+
+    const design = this.getResultsByType('design')[0]
+    const rounds: ReviewRound[] = []
+
+    for (let round = 0; ; round++) {
+      const review = await this.sendToAgent('review-agent', {
+        action: 'review_code',
+        code,
+        design,
+        userPrompt: this.state.context.userPrompt
+      }, context, `review_${round + 1}`)
+
+      if (!review.success) {
+        logger.warn(`Master Orchestrator: Code review failed, integrating without it: ${review.error}`)
+        break
+      }
+
+      const report: ReviewReport = review.data
+      const blocking = report.findings.filter(f => f.severity === 'blocking')
+      rounds.push({ ...report, revisions: [] })
+      logger.info(`Master Orchestrator: Review round ${round + 1}: ${report.findings.length} finding(s), ${blocking.length} blocking, confidence ${report.confidence}`)
+
+      if (blocking.length === 0 || round >= MAX_REVIEW_ROUNDS) break
+
+      const revised = await this.reviseCode(code, blocking, rounds[round], `review_${round + 1}`, context)
+      if (!revised) break
+      code = revised
+    }
+
+    this.state.review = {
+      rounds,
+      code,
+      confidence: rounds.length > 0 ? rounds[rounds.length - 1].confidence : 0.9
+    }
+    this.notifyStateChange()
+  }
+
+  // Missing screens, links and features go to add_feature, everything else to refactor_code.
+  // Returns the revised code, or null when a revision failed.
+  private async reviseCode(code: any, findings: ReviewFinding[], round: ReviewRound, planId: string, context: AgentContext): Promise<any> {
+    const describe = (list: ReviewFinding[]) =>
+      list.map(f => `${f.file ? `${f.file}: ` : ''}${f.message}${f.suggestion ? ` (${f.suggestion})` : ''}`)
+    const features = findings.filter(f => FEATURE_CATEGORIES.includes(f.category))
+    const fixes = findings.filter(f => !FEATURE_CATEGORIES.includes(f.category))
+
+    const requests = [
+      features.length > 0 && {
+        action: 'add_feature',
+        featureSpec: {
+          name: 'Review fixes',
+          description: 'Add what the code review found missing from the design and the request',
+          requirements: describe(features),
+          uiRequirements: 'Follow the design specification'
+        }
+      },
+      fixes.length > 0 && {
+        action: 'refactor_code',
+        refactorSpec: {
+          type: 'Review fixes',
+          target: Array.from(new Set(fixes.map(f => f.file).filter(Boolean))).join(', ') || 'Whole app',
+          goal: describe(fixes).join('; '),
+          constraints: ['Keep working features unchanged', 'Return every changed file in full']
+        }
+      }
+    ].filter(Boolean) as Array<Record<string, any>>
+
+    let revised = code
+    for (const request of requests) {
+      const result = await this.sendToAgent('code-agent', { ...request, currentCode: revised }, context, `${planId}_${request.action}`)
+      if (!result.success) {
+        logger.warn(`Master Orchestrator: ${request.action} for review findings failed: ${result.error}`)
+        return null
+      }
+
+      // Revisions may return only the files they changed
+      revised = mergeCodeResults([revised, result.data])
+      round.revisions.push(request.action)
+    }
+    return revised
+  }
+
+  private async sendToAgent(agentId: string, payload: Record<string, any>, context: AgentContext, planId: string): Promise<AgentResult> {
+    try {
+      return await agentBus.sendMessage({
+        id: `${planId}_${Date.now()}`,
+        agentId,
+        type: 'request',
+        payload: { ...payload, context: { ...context, metadata: { ...context.metadata, planId } } },
+        timestamp: new Date(),
+        sessionId: context.sessionId
+      })
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        confidence: 0,
+        aiError: asAIError(error)
+      }
+    }
+  }
+
+  // Resumes where the last run stopped: only plans that did not complete are run, the stored
+  // results of the others are reused
   private async continueExecution(context: AgentContext): Promise<AgentResult> {
-    // Continue from current state
     switch (this.state.currentPhase) {
-      case 'execution':
-        return await this.executeReWOOPlan(context)
-      case 'integration':
-        return await this.integrateResults(context)
+      case 'execution': {
+        const planApproval = this.requestApproval('plan', () => this.planArtifact())
+        if (planApproval) {
+          return planApproval
+        }
+
+        const executionResult = await this.executeReWOOPlan(context)
+        if (!executionResult.success || executionResult.data?.status === 'awaiting_approval') {
+          return executionResult
+        }
+
+        this.setPhase('review')
+        return this.continueExecution(context)
+      }
+      case 'review': {
+        await this.reviewCode(context)
+        this.setPhase('integration')
+        return this.continueExecution(context)
+      }
+      case 'integration': {
+        const integrationResult = await this.integrateResults(context)
+        return this.requestApproval('files', () => this.filesArtifact()) || integrationResult
+      }
+      case 'completion':
+        // Nothing left to run
+        return this.requestApproval('files', () => this.filesArtifact()) || {
+          success: true,
+          data: this.state.finalResult,
+          confidence: this.state.review?.confidence ?? 0.9
+        }
       default:
         return {
           success: false,
@@ -320,61 +959,292 @@ Consider dependencies between tasks and optimal execution order.`
     }
   }
 
-  // Helper methods
-  private extractRequirements(userPrompt: string): any {
-    // Extract key requirements from user prompt
-    const requirements = {
-      appType: 'mobile',
-      platform: 'flutter',
-      features: [],
-      complexity: 'medium'
+  // Runs one plan again, after a failure or to replace a completed result. Plans downstream of it
+  // used its old result, so they run again too.
+  private async retryPlan(planId: string, options: PlanRetryOptions, context: AgentContext): Promise<AgentResult> {
+    const plan = this.state.plans.find(p => p.id === planId)
+    if (!plan) {
+      return {
+        success: false,
+        error: `Plan ${planId} not found`,
+        confidence: 0
+      }
     }
 
-    // Simple keyword extraction
-    if (userPrompt.toLowerCase().includes('auth')) requirements.features.push('authentication')
-    if (userPrompt.toLowerCase().includes('firebase')) requirements.features.push('firebase')
-    if (userPrompt.toLowerCase().includes('todo')) requirements.features.push('task_management')
-    if (userPrompt.toLowerCase().includes('chat')) requirements.features.push('messaging')
+    if (options.payload) {
+      plan.payloadOverrides = { ...plan.payloadOverrides, ...options.payload }
+    }
+    if (options.guidance !== undefined) {
+      plan.guidance = options.guidance.trim() || undefined
+    }
 
-    return requirements
+    const dependents = this.findDependents(plan.id)
+    for (const p of [plan, ...dependents]) {
+      p.status = 'pending'
+      p.error = undefined
+    }
+
+    // What the user approved was built from the old result
+    this.revokeApprovals(plan.type === 'design' ? ['design', 'files'] : ['files'])
+
+    logger.info(`Master Orchestrator: Retrying plan ${plan.id}${dependents.length > 0 ? ` and ${dependents.length} dependent plan(s)` : ''}`)
+
+    this.state.finalResult = null
+    this.state.review = undefined
+    this.setPhase('execution')
+    return this.continueExecution(context)
+  }
+
+  private needsApproval(checkpoint: ApprovalCheckpoint): boolean {
+    return this.state.approvals.required.includes(checkpoint) && !this.state.approvals.approved.includes(checkpoint)
+  }
+
+  // Pauses at `checkpoint` unless it is disabled or already approved; returns null to go on
+  private requestApproval(checkpoint: ApprovalCheckpoint, artifact: () => any): AgentResult | null {
+    if (!this.needsApproval(checkpoint)) {
+      return null
+    }
+
+    if (this.state.pendingApproval?.checkpoint !== checkpoint) {
+      this.state.pendingApproval = { checkpoint, artifact: artifact(), requestedAt: new Date(), rejections: [] }
+      logger.info(`Master Orchestrator: Awaiting approval at the ${checkpoint} checkpoint`)
+      this.notifyStateChange()
+    }
+
+    return {
+      success: true,
+      data: {
+        phase: this.state.currentPhase,
+        status: 'awaiting_approval',
+        approval: this.state.pendingApproval
+      },
+      confidence: 0.9
+    }
+  }
+
+  private revokeApprovals(checkpoints: ApprovalCheckpoint[]): void {
+    this.state.approvals.approved = this.state.approvals.approved.filter(c => !checkpoints.includes(c))
+    if (this.state.pendingApproval && checkpoints.includes(this.state.pendingApproval.checkpoint)) {
+      this.state.pendingApproval = undefined
+    }
+  }
+
+  private planArtifact() {
+    return this.state.plans.map(({ id, type, agentId, dependencies }) => ({ id, type, agentId, dependencies }))
+  }
+
+  private designArtifact() {
+    return Object.fromEntries(this.state.plans.filter(p => p.type === 'design').map(p => [p.id, p.result]))
+  }
+
+  private filesArtifact() {
+    return {
+      code: this.state.finalResult?.code ?? null,
+      tests: this.state.finalResult?.tests ?? null
+    }
   }
 
-  private sortPlansByDependencies(plans: ReWOOPlan[]): ReWOOPlan[] {
-    const sorted: ReWOOPlan[] = []
-    const processed = new Set<string>()
+  // Approve goes on with the build, edit replaces the artifact and goes on, reject revises the
+  // artifact with the user's feedback and asks again
+  private async resolveApproval(decision: ApprovalDecision, context: AgentContext): Promise<AgentResult> {
+    const pending = this.state.pendingApproval
+    if (!pending) {
+      return {
+        success: false,
+        error: 'Nothing is awaiting approval',
+        confidence: 0
+      }
+    }
 
-    const addPlan = (plan: ReWOOPlan) => {
-      if (processed.has(plan.id)) return
+    if (decision.action === 'reject') {
+      return this.rejectCheckpoint(pending, decision.feedback || '', context)
+    }
 
-      // Add dependencies first
-      for (const depId of plan.dependencies) {
-        const depPlan = plans.find(p => p.id === depId)
-        if (depPlan && !processed.has(depId)) {
-          addPlan(depPlan)
+    if (decision.action === 'edit') {
+      const error = this.applyEditedArtifact(pending.checkpoint, decision.artifact)
+      if (error) {
+        return {
+          success: false,
+          error: `Edited ${pending.checkpoint} is invalid: ${error}`,
+          confidence: 0
         }
       }
+    }
+
+    logger.info(`Master Orchestrator: ${pending.checkpoint} checkpoint ${decision.action === 'edit' ? 'edited and ' : ''}approved`)
+    this.state.approvals.approved.push(pending.checkpoint)
+    this.state.pendingApproval = undefined
+    this.notifyStateChange()
+
+    return this.continueExecution(context)
+  }
+
+  // Returns an error message, or null once the edit is applied
+  private applyEditedArtifact(checkpoint: ApprovalCheckpoint, artifact: any): string | null {
+    switch (checkpoint) {
+      case 'plan': {
+        const { error, value } = EXECUTION_PLAN_SCHEMA.validate({ plans: artifact })
+        if (error) return error.message
+
+        const { projectRequirements, openApi } = this.state.context
+        const validation = validatePlans<PlanDraft>(value.plans, agentBus.getCapabilities(), this.providedPayload(projectRequirements.locales, openApi))
+        if (validation.errors.length > 0) return validation.errors.join('; ')
 
-      sorted.push(plan)
-      processed.add(plan.id)
+        this.state.plans = validation.plans.map(plan => ({
+          ...plan,
+          status: 'pending',
+          attempts: 0,
+          retryPolicy: { ...DEFAULT_RETRY_POLICY, ...RETRY_POLICIES[plan.type] }
+        }))
+        return null
+      }
+      case 'design': {
+        const designPlans = this.state.plans.filter(p => p.type === 'design')
+        for (const [planId, design] of Object.entries(artifact || {})) {
+          const plan = designPlans.find(p => p.id === planId)
+          if (!plan) return `${planId} is not a design plan`
+
+          const { error } = DESIGN_RESPONSE_SCHEMA.validate(design, { allowUnknown: true })
+          if (error) return `${planId}: ${error.message}`
+        }
+        for (const [planId, design] of Object.entries(artifact || {})) {
+          (designPlans.find(p => p.id === planId) as ReWOOPlan).result = design
+        }
+        return null
+      }
+      case 'files': {
+        const { error, value } = EDITED_FILES_SCHEMA.validate(artifact, { allowUnknown: true })
+        if (error) return error.message
+
+        this.state.finalResult = { ...this.state.finalResult, code: value.code, tests: value.tests ?? null }
+        return null
+      }
     }
+  }
+
+  private async rejectCheckpoint(pending: PendingApproval, feedback: string, context: AgentContext): Promise<AgentResult> {
+    const rejections = [...pending.rejections, feedback]
+    logger.info(`Master Orchestrator: ${pending.checkpoint} checkpoint rejected: ${feedback}`)
 
-    for (const plan of plans) {
-      addPlan(plan)
+    switch (pending.checkpoint) {
+      case 'plan': {
+        const planningResult = await this.createExecutionPlan(this.state.context.userPrompt, context, feedback)
+        if (!planningResult.success) {
+          return planningResult
+        }
+        break
+      }
+      case 'design': {
+        // The design agent revises its own spec; nothing downstream has run yet
+        for (const plan of this.state.plans.filter(p => p.type === 'design')) {
+          const revision = await agentBus.sendMessage({
+            id: `${plan.id}_revision_${Date.now()}`,
+            agentId: plan.agentId,
+            type: 'request',
+            payload: {
+              action: 'optimize_design',
+              currentDesign: plan.result,
+              feedback,
+              context: { ...context, metadata: { ...context.metadata, planId: plan.id } }
+            },
+            timestamp: new Date(),
+            sessionId: context.sessionId
+          })
+
+          if (!revision.success) {
+            return {
+              success: false,
+              error: `Failed to revise design ${plan.id}: ${revision.error}`,
+              confidence: 0,
+              aiError: revision.aiError
+            }
+          }
+          plan.result = revision.data
+        }
+        break
+      }
+      case 'files': {
+        // The code plans run again with the feedback as guidance, then the tests built on them
+        const codePlans = this.state.plans.filter(p => p.type === 'code')
+        for (const plan of [...codePlans, ...codePlans.flatMap(p => this.findDependents(p.id))]) {
+          if (plan.type === 'code') plan.guidance = feedback
+          plan.status = 'pending'
+          plan.error = undefined
+        }
+        this.state.finalResult = null
+        this.state.review = undefined
+        this.revokeApprovals(['files'])
+        this.setPhase('execution')
+
+        const result = await this.continueExecution(context)
+        this.carryRejections('files', rejections)
+        return result
+      }
     }
 
-    return sorted
+    // Ask again with the revised artifact
+    this.revokeApprovals([pending.checkpoint])
+    const result = pending.checkpoint === 'plan'
+      ? this.requestApproval('plan', () => this.planArtifact())
+      : this.requestApproval('design', () => this.designArtifact())
+    this.carryRejections(pending.checkpoint, rejections)
+    return result as AgentResult
+  }
+
+  private carryRejections(checkpoint: ApprovalCheckpoint, rejections: string[]): void {
+    const pending = this.state.pendingApproval
+    if (pending?.checkpoint !== checkpoint) return
+
+    pending.rejections = rejections
+    this.notifyStateChange()
   }
 
-  private getAgentAction(planType: string): string {
-    switch (planType) {
-      case 'design': return 'create_design'
-      case 'code': return 'generate_code'
-      case 'test': return 'generate_tests'
-      default: return 'process'
+  // Every plan that (transitively) depends on planId
+  private findDependents(planId: string): ReWOOPlan[] {
+    const dependents = new Set<ReWOOPlan>()
+    const queue = [planId]
+
+    while (queue.length > 0) {
+      const upstream = queue.shift() as string
+      for (const plan of this.state.plans) {
+        if (dependents.has(plan) || !plan.dependencies.includes(upstream)) continue
+        dependents.add(plan)
+        queue.push(plan.id)
+      }
     }
+    return Array.from(dependents)
   }
 
-  private buildAgentPayload(plan: ReWOOPlan, previousResults: any[]): any {
+  // Helper methods
+  private extractRequirements(userPrompt: string): any {
+    // Extract key requirements from user prompt
+    const requirements = {
+      appType: 'mobile',
+      platform: 'flutter',
+      features: [] as string[],
+      complexity: 'medium',
+      // Target locales, English first; empty unless the prompt asks for other languages
+      locales: [] as string[]
+    }
+
+    // Simple keyword extraction
+    if (userPrompt.toLowerCase().includes('auth')) requirements.features.push('authentication')
+    if (userPrompt.toLowerCase().includes('firebase')) requirements.features.push('firebase')
+    if (userPrompt.toLowerCase().includes('todo')) requirements.features.push('task_management')
+    if (userPrompt.toLowerCase().includes('chat')) requirements.features.push('messaging')
+
+    requirements.locales = detectLocales(userPrompt)
+    if (requirements.locales.length > 0) requirements.features.push('localization')
+
+    return requirements
+  }
+
+  private getAgentAction(planType: PlanType): string {
+    // Integrate plans are removed by validation; integration runs after execution
+    return planType === 'integrate' ? 'process' : PLAN_TYPE_RULES[planType].action
+  }
+
+  private buildAgentPayload(plan: ReWOOPlan, previousResults: PlanResult[]): any {
     const basePayload = {
       requirements: this.state.context.projectRequirements,
       userPrompt: this.state.context.userPrompt
@@ -392,7 +1262,8 @@ Consider dependencies between tasks and optimal execution order.`
           requirements: {
             ...this.state.context.projectRequirements,
             description: this.state.context.userPrompt
-          }
+          },
+          image: this.state.context.referenceImage
         }
 
       case 'code':
@@ -400,14 +1271,15 @@ Consider dependencies between tasks and optimal execution order.`
         return {
           ...basePayload,
           design: designResult?.result,
+          api: dependencyResults.find(r => r.type === 'api')?.result,
           requirements: this.state.context.projectRequirements
         }
 
       case 'test':
-        const codeResult = dependencyResults.find(r => r.type === 'code')
+        const codeResult = mergeCodeResults(dependencyResults.filter(r => r.type === 'code').map(r => r.result))
         return {
           ...basePayload,
-          codebase: codeResult?.result,
+          codebase: codeResult ?? undefined,
           testRequirements: {
             coverage: 80,
             types: ['unit', 'widget', 'integration'],
@@ -416,13 +1288,37 @@ Consider dependencies between tasks and optimal execution order.`
           }
         }
 
+      case 'localize': {
+        const localizedCode = mergeCodeResults(dependencyResults.filter(r => r.type === 'code').map(r => r.result))
+        const { locales } = this.state.context.projectRequirements
+        return {
+          ...basePayload,
+          codebase: localizedCode ?? undefined,
+          locales: locales.length > 1 ? locales : plan.payload?.locales
+        }
+      }
+
+      case 'api':
+        return {
+          ...basePayload,
+          document: this.state.context.openApi?.document ?? plan.payload?.document,
+          client: this.state.context.openApi?.client
+        }
+
       default:
         return basePayload
     }
   }
 
-  private getResultByType(type: string): any {
-    return this.state.plans.find(p => p.type === type && p.status === 'completed')
+  // In plan order
+  private getResultsByType(type: string): any[] {
+    return this.state.plans.filter(p => p.type === type && p.status === 'completed').map(p => p.result)
+  }
+
+  // The generated API layer replaces any file a code plan wrote in its place, and localize plans
+  // rewrite files of the code plans, so their results are merged last
+  private mergedCode(): any {
+    return mergeCodeResults([...this.getResultsByType('code'), ...this.getResultsByType('api'), ...this.getResultsByType('localize')])
   }
 
   private generateProjectName(prompt: string): string {
@@ -436,17 +1332,43 @@ Consider dependencies between tasks and optimal execution order.`
     return words.join('_') || 'flutter_app'
   }
 
+  private setPhase(phase: string): void {
+    this.state.currentPhase = phase
+    this.notifyStateChange()
+  }
+
+  private notifyStateChange(): void {
+    try {
+      this.stateListener?.(this.getCurrentState())
+    } catch (error) {
+      logger.error('Master Orchestrator: State listener failed:', error)
+    }
+  }
+
   // Public methods for external access
   getCurrentState(): OrchestratorState {
     return { ...this.state }
   }
 
+  // Called after every phase change and plan transition, e.g. to persist the state
+  onStateChange(listener: (state: OrchestratorState) => void): void {
+    this.stateListener = listener
+  }
+
+  // Takes over state saved from an earlier orchestrator, e.g. before a restart
+  restoreState(state: OrchestratorState): void {
+    // State saved before approval checkpoints existed has no approvals
+    this.state = { ...state, approvals: state.approvals || { required: [], approved: [] } }
+  }
+
   resetState(): void {
     this.state = {
       currentPhase: 'planning',
       plans: [],
       context: {},
-      finalResult: null
+      finalResult: null,
+      approvals: { required: [], approved: [] }
     }
+    this.notifyStateChange()
   }
 }
\ No newline at end of file
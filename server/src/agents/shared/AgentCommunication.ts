@@ -1,4 +1,6 @@
+import type { Server } from 'socket.io'
 import { logger } from '../../utils/logger'
+import type { AgentCapabilities } from './BaseAgent'
 
 export interface AgentMessage {
   id: string
@@ -18,22 +20,81 @@ export interface AgentContext {
   metadata: Record<string, any>
 }
 
+// Payload of a 'progress' message: a plan of the orchestrator changed state
+export interface PlanProgress {
+  planId: string
+  planType: string
+  status: 'started' | 'retrying' | 'completed' | 'failed'
+  // Agent calls made for the plan so far
+  attempt: number
+  durationMs?: number
+  error?: string
+}
+
+// What clients see of an agent message. Payloads carry the session context and generated code,
+// so only what a timeline of the session needs is published.
+export interface AgentActivity {
+  id: string
+  sessionId: string
+  agentId: string
+  type: AgentMessage['type']
+  timestamp: Date
+  action?: string
+  planId?: string
+  // Responses only
+  success?: boolean
+  confidence?: number
+  error?: string
+  progress?: PlanProgress
+}
+
+function toActivity(message: AgentMessage, request: AgentMessage = message): AgentActivity {
+  const { payload } = message
+
+  return {
+    id: message.id,
+    sessionId: message.sessionId,
+    agentId: message.agentId,
+    type: message.type,
+    timestamp: message.timestamp,
+    action: request.payload?.action,
+    planId: message.type === 'progress' ? payload?.planId : request.payload?.context?.metadata?.planId,
+    ...(message.type === 'response' ? { success: payload?.success, confidence: payload?.confidence, error: payload?.error } : {}),
+    ...(message.type === 'error' ? { success: false, error: payload?.error } : {}),
+    ...(message.type === 'progress' ? { progress: payload } : {})
+  }
+}
+
+// Every message is also emitted as 'agent-activity' to the Socket.IO room of its session, so
+// clients can follow a build while the request that started it is still running.
 export class AgentCommunicationBus {
   private agents: Map<string, any> = new Map()
   private messageHistory: AgentMessage[] = []
   private contexts: Map<string, AgentContext> = new Map()
+  private io: Server | null = null
 
   constructor() {
     logger.info('Agent Communication Bus initialized')
   }
 
+  attachSocketServer(io: Server): void {
+    this.io = io
+  }
+
   registerAgent(agentId: string, agent: any): void {
     this.agents.set(agentId, agent)
     logger.info(`Agent registered: ${agentId}`)
   }
 
+  // Capabilities of every registered agent, in registration order
+  getCapabilities(): Map<string, AgentCapabilities> {
+    const capabilities = new Map<string, AgentCapabilities>()
+    this.agents.forEach((agent, agentId) => capabilities.set(agentId, agent.getCapabilities()))
+    return capabilities
+  }
+
   async sendMessage(message: AgentMessage): Promise<any> {
-    this.messageHistory.push(message)
+    this.record(message)
 
     const targetAgent = this.agents.get(message.agentId)
     if (!targetAgent) {
@@ -54,7 +115,7 @@ export class AgentCommunicationBus {
         sessionId: message.sessionId
       }
 
-      this.messageHistory.push(responseMessage)
+      this.record(responseMessage, message)
       return response
     } catch (error) {
       logger.error(`Error in agent ${message.agentId}:`, error)
@@ -68,11 +129,28 @@ export class AgentCommunicationBus {
         sessionId: message.sessionId
       }
 
-      this.messageHistory.push(errorMessage)
+      this.record(errorMessage, message)
       throw error
     }
   }
 
+  reportProgress(sessionId: string, agentId: string, progress: PlanProgress): void {
+    this.record({
+      id: `${progress.planId}_${progress.status}_${Date.now()}`,
+      agentId,
+      type: 'progress',
+      payload: progress,
+      timestamp: new Date(),
+      sessionId
+    })
+  }
+
+  // `request` is the message a response or error answers, which carries its action and plan
+  private record(message: AgentMessage, request?: AgentMessage): void {
+    this.messageHistory.push(message)
+    this.io?.to(message.sessionId).emit('agent-activity', toActivity(message, request))
+  }
+
   getContext(sessionId: string): AgentContext | undefined {
     return this.contexts.get(sessionId)
   }
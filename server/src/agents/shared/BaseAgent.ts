@@ -1,6 +1,12 @@
-import { GoogleGenAI } from '@google/genai'
+import Joi from 'joi'
 import { logger } from '../../utils/logger'
 import { AgentMessage, AgentContext } from './AgentCommunication'
+import { llmRegistry, ProviderSelection, LLMCallOptions, ImageInput, AIError } from '../../services/llm'
+import { generationStreams, StreamingResponseParser } from '../../services/generationStream'
+import { generateValidated } from '../../services/aiOutputValidation'
+import { usageService } from '../../services/usageService'
+import { promptRegistry, PromptRef, formatPromptRef } from '../../services/promptRegistry'
+import { responseCache, sha256 } from '../../services/responseCache'
 
 export interface AgentCapabilities {
   canGenerateCode: boolean
@@ -8,6 +14,10 @@ export interface AgentCapabilities {
   canRunTests: boolean
   canOptimize: boolean
   canDeploy: boolean
+  canLocalize: boolean
+  canIntegrateApi: boolean
+  // Values of payload.action the agent's processMessage handles
+  actions: string[]
 }
 
 export interface AgentResult {
@@ -16,66 +26,148 @@ export interface AgentResult {
   error?: string
   nextSteps?: string[]
   confidence: number
+  // Set when the failure came from the model call, so callers can report its status and code
+  aiError?: AIError
 }
 
 export abstract class BaseAgent {
   protected agentId: string
   protected capabilities: AgentCapabilities
-  protected geminiAI: any
-  protected systemPrompt: string
-  protected modelName: string
+  // Registry id of the system prompt template, e.g. code-agent-system; deterministic agents that
+  // never call a model have none
+  protected systemPromptId?: string
+  protected llmSelection?: ProviderSelection
 
-  constructor(agentId: string, capabilities: AgentCapabilities, systemPrompt: string) {
+  constructor(agentId: string, capabilities: AgentCapabilities, systemPromptId?: string, llmSelection?: ProviderSelection) {
     this.agentId = agentId
     this.capabilities = capabilities
-    this.systemPrompt = systemPrompt
-    this.modelName = 'gemini-2.0-flash-exp' // Using the working model
+    this.systemPromptId = systemPromptId
+    this.llmSelection = llmSelection
 
-    // Initialize with new SDK
-    this.geminiAI = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY || ''
-    })
-
-    logger.info(`${this.agentId} agent initialized with model ${this.modelName}`)
+    if (!systemPromptId) {
+      logger.info(`${this.agentId} agent initialized without a model`)
+      return
+    }
+    const { provider, model } = llmRegistry.resolve(llmSelection, agentId)
+    logger.info(`${this.agentId} agent initialized with ${provider.name}/${model}`)
   }
 
   abstract processMessage(message: AgentMessage): Promise<AgentResult>
 
-  protected async callGemini(prompt: string, context?: AgentContext): Promise<any> {
-    const fullPrompt = this.buildPrompt(prompt, context)
+  // Every response is validated against the caller's schema; invalid output is re-prompted
+  // with the validation errors and finally rejected with AIOutputValidationError.
+  // The system prompt version used and the outcome are recorded in the prompt registry.
+  // Identical prompts are answered from the response cache unless context.metadata.noCache is set.
+  protected async callModel<T = any>(
+    prompt: string,
+    context: AgentContext | undefined,
+    schema: Joi.Schema,
+    images?: ImageInput[]
+  ): Promise<T> {
+    if (!this.systemPromptId) {
+      throw new Error(`${this.agentId} has no system prompt and cannot call a model`)
+    }
+    const systemPrompt = promptRegistry.render(this.systemPromptId, {}, context?.sessionId)
+    const fullPrompt = this.buildPrompt(systemPrompt.text, prompt, context)
+    const startedAt = Date.now()
+    let attempts = 0
 
     try {
-      logger.info(`${this.agentId}: Calling Gemini with prompt length: ${fullPrompt.length}`)
-
-      // Use new SDK API
-      const result = await this.geminiAI.models.generateContent({
-        model: this.modelName,
-        contents: fullPrompt,
-        config: {
-          temperature: 0.7,
-          topP: 0.8,
-          topK: 40,
-          maxOutputTokens: 8192
-        }
-      })
+      logger.info(`${this.agentId}: Calling model with prompt length: ${fullPrompt.length} (${formatPromptRef(systemPrompt.ref)})`)
+
+      const { provider, model } = llmRegistry.resolve(this.getSelection(context), this.agentId)
+      const cacheKey = {
+        scope: this.agentId,
+        prompt: fullPrompt,
+        model: `${provider.name}/${model}`,
+        templates: [formatPromptRef(systemPrompt.ref)],
+        extra: { images: images?.map(image => sha256(image.data)) || [] }
+      }
 
-      const text = result.text
-      logger.info(`${this.agentId}: Received response from Gemini`)
+      const { value: output, cached } = await responseCache.getOrCompute(cacheKey, () => generateValidated<T>({
+        label: this.agentId,
+        prompt: fullPrompt,
+        schema,
+        generate: async (contents, attempt) => {
+          attempts++
+          const sessionId = context?.sessionId
+          const callOptions: LLMCallOptions = {
+            contents,
+            images,
+            selection: this.getSelection(context),
+            agentId: this.agentId,
+            // Let watchers see "retrying (2/4)" instead of a silent pause
+            onRetry: info => {
+              if (!sessionId) return
+              generationStreams.publish(sessionId, {
+                type: 'retry',
+                attempt: info.attempt,
+                maxAttempts: info.maxAttempts,
+                delayMs: info.delayMs,
+                reason: info.error.code,
+                agentId: this.agentId
+              })
+            }
+          }
+
+          // Stream partial output when a client is watching this session
+          const result = sessionId && attempt === 0 && generationStreams.isActive(sessionId)
+            ? await this.streamModel(callOptions, sessionId)
+            : await llmRegistry.generateContent(callOptions)
+
+          logger.info(`${this.agentId}: Received response from ${result.provider}/${result.model}`)
+          usageService.record(result, contents, {
+            sessionId,
+            userId: context?.userId,
+            agentId: this.agentId,
+            planId: context?.metadata?.planId
+          })
+          return result.text
+        }
+      }), { noCache: context?.metadata?.noCache })
 
-      // Try to parse JSON response, fallback to text
-      try {
-        return JSON.parse(text)
-      } catch {
-        return { content: text, raw: true }
+      if (!cached) {
+        this.recordPromptOutcome(systemPrompt.ref, true, startedAt, attempts, context)
       }
+      return output
     } catch (error) {
-      logger.error(`${this.agentId}: Gemini API error:`, error)
+      logger.error(`${this.agentId}: Model API error:`, error)
+      this.recordPromptOutcome(systemPrompt.ref, false, startedAt, attempts, context)
+
+      if (error instanceof AIError) {
+        throw error
+      }
       throw new Error(`AI generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
-  private buildPrompt(userPrompt: string, context?: AgentContext): string {
-    let prompt = `${this.systemPrompt}\n\n`
+  private recordPromptOutcome(ref: PromptRef, success: boolean, startedAt: number, attempts: number, context?: AgentContext): void {
+    promptRegistry.recordOutcome(
+      ref,
+      { success, latencyMs: Date.now() - startedAt, attempts },
+      { sessionId: context?.sessionId, agentId: this.agentId }
+    )
+  }
+
+  private async streamModel(callOptions: LLMCallOptions, sessionId: string) {
+    const parser = new StreamingResponseParser(this.agentId)
+
+    return llmRegistry.generateContentStream(callOptions, chunk => {
+      generationStreams.publish(sessionId, { type: 'token', text: chunk, agentId: this.agentId })
+      parser.push(chunk).forEach(event => generationStreams.publish(sessionId, event))
+    })
+  }
+
+  // A selection stored on the session (context.metadata.llm) overrides the agent's own
+  private getSelection(context?: AgentContext): ProviderSelection | undefined {
+    const sessionSelection: ProviderSelection | undefined = context?.metadata?.llm
+    if (!sessionSelection) return this.llmSelection
+
+    return { ...this.llmSelection, ...sessionSelection }
+  }
+
+  private buildPrompt(systemPrompt: string, userPrompt: string, context?: AgentContext): string {
+    let prompt = `${systemPrompt}\n\n`
 
     if (context) {
       prompt += `SESSION CONTEXT:\n`
@@ -90,6 +182,15 @@ export abstract class BaseAgent {
       }
 
       prompt += `\n`
+
+      if (context.metadata.workspaceContext) {
+        prompt += `EXISTING PROJECT FILES (reuse these, do not re-declare their classes):\n${context.metadata.workspaceContext}\n\n`
+      }
+
+      // Set when the user retried this step with extra instructions
+      if (context.metadata.guidance) {
+        prompt += `USER GUIDANCE FOR THIS STEP:\n${context.metadata.guidance}\n\n`
+      }
     }
 
     prompt += `USER REQUEST:\n${userPrompt}\n`
@@ -0,0 +1,145 @@
+import { logger } from '../../utils/logger'
+
+export interface SchedulablePlan {
+  id: string
+  // Ids of plans that must complete first; ids not in the plan list are ignored
+  dependencies: string[]
+}
+
+export class PlanCycleError extends Error {
+  constructor(public cycle: string[]) {
+    super(`Plan dependencies form a cycle: ${cycle.join(' -> ')}`)
+    this.name = 'PlanCycleError'
+  }
+}
+
+export interface DagRunOptions<T extends SchedulablePlan> {
+  // Most plans running at the same time
+  concurrency: number
+  // Plans finished in an earlier run; they are not run again and their dependents may start
+  alreadyCompleted?: Set<string>
+  // Called for each plan that will not run because `failedId` (directly or transitively) failed
+  onCancel?: (plan: T, failedId: string) => void
+}
+
+export interface DagRunResult {
+  completed: string[]
+  failed: string[]
+  cancelled: string[]
+}
+
+// One dependency cycle as plan ids, first id repeated at the end (a -> b -> a), or null
+export function findCycle(plans: SchedulablePlan[]): string[] | null {
+  const byId = new Map(plans.map(plan => [plan.id, plan]))
+  const visited = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+
+  const visit = (id: string): string[] | null => {
+    visited.set(id, 'visiting')
+    path.push(id)
+
+    for (const dependency of byId.get(id)?.dependencies || []) {
+      if (!byId.has(dependency)) continue
+      if (visited.get(dependency) === 'visiting') {
+        return [...path.slice(path.indexOf(dependency)), dependency]
+      }
+      if (!visited.has(dependency)) {
+        const cycle = visit(dependency)
+        if (cycle) return cycle
+      }
+    }
+
+    path.pop()
+    visited.set(id, 'done')
+    return null
+  }
+
+  for (const plan of plans) {
+    if (visited.has(plan.id)) continue
+    const cycle = visit(plan.id)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+// Runs every plan once all of its dependencies completed, up to `concurrency` at a time.
+// `run` resolves true on success; false or a throw fails the plan and cancels everything
+// downstream of it, while independent branches keep running.
+export async function runDag<T extends SchedulablePlan>(
+  plans: T[],
+  run: (plan: T) => Promise<boolean>,
+  options: DagRunOptions<T>
+): Promise<DagRunResult> {
+  const cycle = findCycle(plans)
+  if (cycle) {
+    throw new PlanCycleError(cycle)
+  }
+
+  const known = new Set(plans.map(plan => plan.id))
+  const dependenciesOf = (plan: T) => plan.dependencies.filter(id => known.has(id))
+  const concurrency = Math.max(1, options.concurrency)
+
+  const completed = new Set(Array.from(options.alreadyCompleted || []).filter(id => known.has(id)))
+  const failed = new Set<string>()
+  const cancelled = new Set<string>()
+  const pending = new Map(plans.filter(plan => !completed.has(plan.id)).map(plan => [plan.id, plan]))
+  const running = new Map<string, Promise<void>>()
+
+  const cancelDownstream = (failedId: string) => {
+    const queue = [failedId]
+    while (queue.length > 0) {
+      const upstream = queue.shift() as string
+      for (const plan of Array.from(pending.values())) {
+        if (!dependenciesOf(plan).includes(upstream)) continue
+
+        pending.delete(plan.id)
+        cancelled.add(plan.id)
+        options.onCancel?.(plan, failedId)
+        queue.push(plan.id)
+      }
+    }
+  }
+
+  const start = (plan: T) => {
+    pending.delete(plan.id)
+
+    const task = (async () => {
+      let succeeded = false
+      try {
+        succeeded = await run(plan)
+      } catch (error) {
+        logger.error(`Plan ${plan.id} threw:`, error)
+      }
+
+      running.delete(plan.id)
+      if (succeeded) {
+        completed.add(plan.id)
+      } else {
+        failed.add(plan.id)
+        cancelDownstream(plan.id)
+      }
+    })()
+
+    running.set(plan.id, task)
+  }
+
+  while (pending.size > 0 || running.size > 0) {
+    const ready = Array.from(pending.values())
+      .filter(plan => dependenciesOf(plan).every(id => completed.has(id)))
+      .slice(0, concurrency - running.size)
+
+    ready.forEach(start)
+
+    if (running.size === 0) {
+      // Nothing can start: the rest waits on plans that will never complete
+      break
+    }
+    await Promise.race(running.values())
+  }
+
+  return {
+    completed: Array.from(completed),
+    failed: Array.from(failed),
+    cancelled: Array.from(cancelled)
+  }
+}
@@ -0,0 +1,155 @@
+import { AgentCapabilities } from './BaseAgent'
+import { findCycle } from './PlanScheduler'
+
+export type PlanType = 'design' | 'code' | 'test' | 'localize' | 'api' | 'integrate'
+
+// A plan as the model returned it
+export interface PlanDraft {
+  id: string
+  type: PlanType
+  agentId: string
+  dependencies: string[]
+  action?: string
+  payload?: Record<string, any>
+}
+
+interface PlanTypeRule {
+  capability: Exclude<keyof AgentCapabilities, 'actions'>
+  action: string
+  // Results of these plan types feed the agent's payload (e.g. a test plan's codebase), so the
+  // plan must depend on one of them; optional inputs are only wired up when such a plan exists
+  inputs: Array<{ type: PlanType; field: string; required: boolean }>
+  // Keys the agent's payload must carry. Those named by an input come from its dependency; the
+  // others from the build (e.g. the requested locales) or, failing that, the plan's own payload
+  payload: string[]
+}
+
+export const PLAN_TYPE_RULES: Record<Exclude<PlanType, 'integrate'>, PlanTypeRule> = {
+  design: { capability: 'canAnalyzeDesign', action: 'create_design', inputs: [], payload: [] },
+  code: { capability: 'canGenerateCode', action: 'generate_code', inputs: [{ type: 'design', field: 'design', required: false }, { type: 'api', field: 'api', required: false }], payload: [] },
+  test: { capability: 'canRunTests', action: 'generate_tests', inputs: [{ type: 'code', field: 'codebase', required: true }], payload: ['codebase'] },
+  localize: { capability: 'canLocalize', action: 'localize_app', inputs: [{ type: 'code', field: 'codebase', required: true }], payload: ['codebase', 'locales'] },
+  api: { capability: 'canIntegrateApi', action: 'generate_api_client', inputs: [], payload: ['document'] }
+}
+
+// Whether an agent has both the capability and the action a plan type runs on
+export function canRunPlanType(capabilities: AgentCapabilities | undefined, type: Exclude<PlanType, 'integrate'>): boolean {
+  const rule = PLAN_TYPE_RULES[type]
+  return !!capabilities && capabilities[rule.capability] && capabilities.actions.includes(rule.action)
+}
+
+export class PlanValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Execution plan is invalid: ${errors.join('; ')}`)
+    this.name = 'PlanValidationError'
+  }
+}
+
+export interface PlanValidationResult<T extends PlanDraft> {
+  // The plans after repairs; only usable when errors is empty
+  plans: T[]
+  repairs: string[]
+  errors: string[]
+}
+
+// Checks plans against the registered agents (keyed by agent id) and fixes what has one obvious
+// fix: unknown or incapable agents, dangling or duplicate dependencies, missing input
+// dependencies and integrate plans (the orchestrator integrates results itself). Duplicate ids,
+// cycles and plans that cannot get their inputs or payload keys are left as errors for the model
+// to revise. `provided` holds the payload values the build supplies, keyed like the payload.
+export function validatePlans<T extends PlanDraft>(drafts: T[], agents: Map<string, AgentCapabilities>, provided: Record<string, unknown> = {}): PlanValidationResult<T> {
+  const repairs: string[] = []
+  const errors: string[] = []
+  let plans = drafts.map(plan => ({ ...plan, dependencies: [...(plan.dependencies || [])] }))
+
+  const counts = new Map<string, number>()
+  plans.forEach(plan => counts.set(plan.id, (counts.get(plan.id) || 0) + 1))
+  counts.forEach((count, id) => {
+    if (count > 1) errors.push(`Plan id "${id}" is used by ${count} plans; every plan needs a unique id`)
+  })
+
+  // Plans that depended on an integrate plan now depend on what it depended on
+  for (const integrate of plans.filter(plan => plan.type === 'integrate')) {
+    plans = plans.filter(plan => plan !== integrate)
+    for (const plan of plans) {
+      if (!plan.dependencies.includes(integrate.id)) continue
+      plan.dependencies = plan.dependencies.filter(id => id !== integrate.id).concat(integrate.dependencies)
+    }
+    repairs.push(`Removed integrate plan "${integrate.id}"; results are integrated after all plans complete`)
+  }
+
+  const ids = new Set(plans.map(plan => plan.id))
+
+  for (const plan of plans) {
+    const capable = (capabilities?: AgentCapabilities) => canRunPlanType(capabilities, plan.type as Exclude<PlanType, 'integrate'>)
+
+    if (!capable(agents.get(plan.agentId))) {
+      const candidate = Array.from(agents.keys()).find(agentId => capable(agents.get(agentId)))
+      const problem = agents.has(plan.agentId) ? `agent "${plan.agentId}" cannot run ${plan.type} plans` : `unknown agent "${plan.agentId}"`
+
+      if (candidate) {
+        repairs.push(`Plan "${plan.id}": ${problem}, assigned to ${candidate}`)
+        plan.agentId = candidate
+      } else {
+        errors.push(`Plan "${plan.id}": ${problem} and no registered agent can run ${plan.type} plans`)
+      }
+    }
+
+    const unique = Array.from(new Set(plan.dependencies))
+    const dropped = unique.filter(id => id === plan.id || !ids.has(id))
+    if (dropped.length > 0) {
+      repairs.push(`Plan "${plan.id}": dropped dependencies on ${dropped.map(id => `"${id}"`).join(', ')}, which name no other plan`)
+    }
+    plan.dependencies = unique.filter(id => !dropped.includes(id))
+  }
+
+  const byId = new Map(plans.map(plan => [plan.id, plan]))
+  const dependsOn = (from: string, to: string, seen = new Set<string>()): boolean => {
+    if (from === to) return true
+    if (seen.has(from)) return false
+    seen.add(from)
+    return (byId.get(from)?.dependencies || []).some(id => dependsOn(id, to, seen))
+  }
+
+  for (const plan of plans) {
+    const rule = PLAN_TYPE_RULES[plan.type as Exclude<PlanType, 'integrate'>]
+
+    for (const input of rule.inputs) {
+      if (plan.dependencies.some(id => byId.get(id)?.type === input.type)) continue
+
+      // Depending on a plan that already (transitively) depends on this one would close a cycle
+      const providers = plans.filter(p => p.type === input.type && !dependsOn(p.id, plan.id))
+      if (providers.length > 0) {
+        plan.dependencies.push(...providers.map(p => p.id))
+        repairs.push(`Plan "${plan.id}": added dependencies on ${providers.map(p => `"${p.id}"`).join(', ')} for its ${input.field} input`)
+      } else if (input.required) {
+        errors.push(`Plan "${plan.id}": ${plan.type} plans need a ${input.type} plan to provide their ${input.field}, and none can precede it`)
+      }
+    }
+
+    const fromInputs = rule.inputs.map(input => input.field)
+    for (const key of rule.payload.filter(key => !fromInputs.includes(key))) {
+      if (provided[key] != null) {
+        // The build's value wins, so a guess in the plan's payload is dropped
+        if (plan.payload?.[key] != null) {
+          plan.payload = { ...plan.payload }
+          delete plan.payload[key]
+          repairs.push(`Plan "${plan.id}": replaced ${key} in its payload with the build's`)
+        }
+      } else if (plan.payload?.[key] == null) {
+        errors.push(`Plan "${plan.id}": ${plan.type} plans need ${key} in their payload, and the build does not provide it`)
+      }
+    }
+  }
+
+  if (!plans.some(plan => plan.type === 'code')) {
+    errors.push('The plan has no code plan, so no app would be generated')
+  }
+
+  const cycle = findCycle(plans)
+  if (cycle) {
+    errors.push(`Plan dependencies form a cycle: ${cycle.join(' -> ')}`)
+  }
+
+  return { plans, repairs, errors }
+}
@@ -0,0 +1,63 @@
+import { BaseAgent, AgentResult } from '../shared/BaseAgent'
+import { AgentMessage } from '../shared/AgentCommunication'
+import { asAIError } from '../../services/llm'
+import { parseOpenApiDocument, generateDartApi, HttpClientPackage } from '../../services/openApiDartGenerator'
+
+// Generates the app's API layer (models, client and repositories under lib/api) from an uploaded
+// OpenAPI document. The output is derived from the document alone, so no model is called; the
+// code agent receives the generated surface and builds the screens on it.
+export class ApiIntegrationAgent extends BaseAgent {
+  constructor() {
+    // No system prompt: this agent makes no model calls
+    super('api-integration-agent', {
+      canGenerateCode: true,
+      canAnalyzeDesign: false,
+      canRunTests: false,
+      canOptimize: false,
+      canDeploy: false,
+      canLocalize: false,
+      canIntegrateApi: true,
+      actions: ['generate_api_client']
+    })
+  }
+
+  async processMessage(message: AgentMessage): Promise<AgentResult> {
+    try {
+      const { payload } = message
+
+      switch (payload.action) {
+        case 'generate_api_client':
+          return this.generateApiClient(payload.document, payload.client)
+        default:
+          throw new Error(`Unknown action: ${payload.action}`)
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'API client generation failed',
+        confidence: 0,
+        aiError: asAIError(error)
+      }
+    }
+  }
+
+  private generateApiClient(document: unknown, client: HttpClientPackage | undefined): AgentResult {
+    if (!document) {
+      throw new Error('No OpenAPI document to generate the API client from')
+    }
+
+    const api = generateDartApi(parseOpenApiDocument(document), { client })
+
+    return {
+      success: true,
+      data: {
+        files: api.files,
+        dependencies: api.dependencies,
+        title: api.title,
+        surface: api.surface,
+        explanation: `Generated the ${api.title} API layer: ${api.models.length} models and ${api.operations.length} operations on ${api.client}`
+      },
+      confidence: 1
+    }
+  }
+}
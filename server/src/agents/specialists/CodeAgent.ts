@@ -1,64 +1,24 @@
+import Joi from 'joi'
 import { BaseAgent, AgentResult } from '../shared/BaseAgent'
 import { AgentMessage, AgentContext } from '../shared/AgentCommunication'
-
-const CODE_SYSTEM_PROMPT = `You are an expert Flutter Code Generation Agent. Your specializations include:
-
-- Flutter/Dart development with latest best practices
-- State management (Provider, Riverpod, BLoC, GetX)
-- Widget composition and custom widgets
-- API integration and data handling
-- Performance optimization
-- Code architecture patterns (Clean Architecture, MVVM)
-- Testing implementation (unit, widget, integration)
-- Animation and custom painting
-- Platform-specific implementations
-
-RESPONSE FORMAT:
-Always respond with a JSON object containing:
-{
-  "files": [
-    {
-      "path": "lib/main.dart",
-      "content": "// Complete Flutter code here",
-      "description": "Brief description of this file's purpose"
-    }
-  ],
-  "dependencies": [
-    {
-      "name": "package_name",
-      "version": "^1.0.0",
-      "dev": false,
-      "description": "Why this dependency is needed"
-    }
-  ],
-  "stateManagement": {
-    "pattern": "Provider" | "Riverpod" | "BLoC" | "GetX" | "setState",
-    "rationale": "Why this pattern was chosen"
-  },
-  "architecture": {
-    "pattern": "Clean" | "MVVM" | "MVC" | "Feature-first",
-    "folderStructure": ["lib/", "lib/features/", "lib/core/"],
-    "description": "Architecture explanation"
-  },
-  "features": [
-    {
-      "name": "feature_name",
-      "description": "What this feature does",
-      "files": ["list", "of", "files"],
-      "testing": "Testing approach for this feature"
-    }
-  ],
-  "performance": [
-    "List of performance optimizations applied"
-  ],
-  "accessibility": [
-    "List of accessibility implementations"
-  ],
-  "nextSteps": [
-    "Suggested next development steps"
-  ],
-  "explanation": "Overall code architecture and implementation explanation"
-}`
+import { asAIError } from '../../services/llm'
+
+export const CODE_RESPONSE_SCHEMA = Joi.object({
+  files: Joi.array().items(Joi.object({
+    path: Joi.string().required(),
+    content: Joi.string().allow('').required(),
+    description: Joi.string().allow('').optional()
+  })).min(1).required(),
+  dependencies: Joi.array().items(Joi.object({
+    name: Joi.string().required(),
+    version: Joi.string().default('any'),
+    dev: Joi.boolean().default(false),
+    // Packages that ship with an SDK instead of pub, e.g. flutter_localizations
+    sdk: Joi.string().optional(),
+    description: Joi.string().allow('').optional()
+  })).default([]),
+  explanation: Joi.string().allow('').optional()
+})
 
 export class CodeAgent extends BaseAgent {
   constructor() {
@@ -67,8 +27,11 @@ export class CodeAgent extends BaseAgent {
       canAnalyzeDesign: true,
       canRunTests: false,
       canOptimize: true,
-      canDeploy: false
-    }, CODE_SYSTEM_PROMPT)
+      canDeploy: false,
+      canLocalize: false,
+      canIntegrateApi: false,
+      actions: ['generate_code', 'optimize_code', 'add_feature', 'refactor_code']
+    }, 'code-agent-system')
   }
 
   async processMessage(message: AgentMessage): Promise<AgentResult> {
@@ -80,7 +43,7 @@ export class CodeAgent extends BaseAgent {
 
       switch (payload.action) {
         case 'generate_code':
-          prompt = this.buildCodeGenerationPrompt(payload.design, payload.requirements)
+          prompt = this.buildCodeGenerationPrompt(payload.design, payload.requirements, payload.api)
           break
         case 'optimize_code':
           prompt = this.buildOptimizationPrompt(payload.currentCode, payload.optimizations)
@@ -95,19 +58,26 @@ export class CodeAgent extends BaseAgent {
           throw new Error(`Unknown action: ${payload.action}`)
       }
 
-      const result = await this.callGemini(prompt, context)
+      const result = await this.callModel(prompt, context, CODE_RESPONSE_SCHEMA)
       return this.validateResult(result)
 
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Code generation failed',
-        confidence: 0
+        confidence: 0,
+        aiError: asAIError(error)
       }
     }
   }
 
-  private buildCodeGenerationPrompt(design: any, requirements: any): string {
+  // `api` is the result of an api plan: the API layer already generated from an OpenAPI document
+  private buildCodeGenerationPrompt(design: any, requirements: any, api?: any): string {
+    const apiLayer = api?.surface ? `
+API LAYER (already generated under lib/api; import it, do not rewrite or mock it):
+${api.surface}
+` : ''
+
     return `Generate complete Flutter code based on this design specification and requirements:
 
 DESIGN SPECIFICATION:
@@ -119,8 +89,8 @@ REQUIREMENTS:
 - Features: ${requirements.features?.join(', ') || 'Basic functionality'}
 - State Management Preference: ${requirements.stateManagement || 'Auto-select best option'}
 - Database/Storage: ${requirements.storage || 'Local storage'}
-- API Integration: ${requirements.apiIntegration || 'None specified'}
-
+- API Integration: ${api?.surface ? `${api.title || 'Uploaded'} API, see API LAYER` : requirements.apiIntegration || 'None specified'}
+${apiLayer}
 Generate production-ready Flutter code that:
 1. Implements the complete design specification
 2. Uses appropriate state management patterns
@@ -129,7 +99,7 @@ Generate production-ready Flutter code that:
 5. Is well-documented with comments
 6. Includes basic accessibility features
 7. Is optimized for performance
-8. Includes folder structure for scalability
+8. Includes folder structure for scalability${apiLayer ? '\n9. Loads and saves backend data through the API layer\'s repositories, with loading and error states for ApiException' : ''}
 
 Provide complete, working code that can be directly used in a Flutter project.`
   }
@@ -1,55 +1,27 @@
+import Joi from 'joi'
 import { BaseAgent, AgentResult } from '../shared/BaseAgent'
 import { AgentMessage, AgentContext } from '../shared/AgentCommunication'
-
-const DESIGN_SYSTEM_PROMPT = `You are a specialized UI/UX Design Agent for Flutter applications. Your expertise includes:
-
-- Material Design 3 principles and Flutter implementation
-- Modern mobile UI patterns and best practices
-- Responsive design for multiple screen sizes
-- Accessibility compliance (WCAG 2.1)
-- Color theory, typography, and visual hierarchy
-- User experience optimization for mobile apps
-
-RESPONSE FORMAT:
-Always respond with a JSON object containing:
-{
-  "design": {
-    "theme": {
-      "primaryColor": "#hexcolor",
-      "secondaryColor": "#hexcolor",
-      "backgroundColor": "#hexcolor",
-      "textTheme": "lightTheme" | "darkTheme",
-      "fontFamily": "Roboto" | "custom font"
-    },
-    "layout": {
-      "type": "scaffold" | "custom",
-      "appBar": { "title": "string", "elevation": number },
-      "body": { "type": "column" | "row" | "stack", "mainAxis": "string", "crossAxis": "string" },
-      "floatingActionButton": { "present": boolean, "icon": "string", "position": "string" }
-    },
-    "screens": [
-      {
-        "name": "screen_name",
-        "route": "/route",
-        "widgets": [
-          {
-            "type": "Widget_Type",
-            "properties": { "key": "value" },
-            "children": []
-          }
-        ],
-        "navigation": {
-          "type": "push" | "replace" | "dialog",
-          "target": "screen_name"
-        }
-      }
-    ]
-  },
-  "explanation": "Brief explanation of design decisions",
-  "accessibility": ["List of accessibility features implemented"],
-  "responsive": ["List of responsive design considerations"],
-  "nextSteps": ["Suggested next actions for development"]
-}`
+import { ImageInput, asAIError } from '../../services/llm'
+
+export const DESIGN_RESPONSE_SCHEMA = Joi.object({
+  design: Joi.object({
+    theme: Joi.object({
+      primaryColor: Joi.string().required(),
+      secondaryColor: Joi.string().optional(),
+      backgroundColor: Joi.string().optional()
+    }).required(),
+    layout: Joi.object().optional(),
+    screens: Joi.array().items(Joi.object({
+      name: Joi.string().required(),
+      route: Joi.string().optional(),
+      widgets: Joi.array().optional(),
+      navigation: Joi.alternatives(Joi.object(), Joi.array()).optional()
+    })).min(1).required()
+  }).required(),
+  explanation: Joi.string().allow('').optional()
+})
+
+const ACCESSIBILITY_REPORT_SCHEMA = Joi.object().min(1)
 
 export class DesignAgent extends BaseAgent {
   constructor() {
@@ -58,8 +30,11 @@ export class DesignAgent extends BaseAgent {
       canAnalyzeDesign: true,
       canRunTests: false,
       canOptimize: true,
-      canDeploy: false
-    }, DESIGN_SYSTEM_PROMPT)
+      canDeploy: false,
+      canLocalize: false,
+      canIntegrateApi: false,
+      actions: ['create_design', 'optimize_design', 'analyze_accessibility']
+    }, 'design-agent-system')
   }
 
   async processMessage(message: AgentMessage): Promise<AgentResult> {
@@ -68,36 +43,46 @@ export class DesignAgent extends BaseAgent {
       const context = payload.context as AgentContext
 
       let prompt = ''
+      let schema: Joi.Schema = DESIGN_RESPONSE_SCHEMA
+      let images: ImageInput[] | undefined
 
       switch (payload.action) {
         case 'create_design':
-          prompt = this.buildDesignPrompt(payload.requirements)
+          // An optional screenshot/mockup ({ mimeType, data } in base64) to base the design on
+          images = payload.image ? [payload.image] : undefined
+          prompt = this.buildDesignPrompt(payload.requirements, !!images)
           break
         case 'optimize_design':
           prompt = this.buildOptimizationPrompt(payload.currentDesign, payload.feedback)
           break
         case 'analyze_accessibility':
           prompt = this.buildAccessibilityPrompt(payload.design)
+          schema = ACCESSIBILITY_REPORT_SCHEMA
           break
         default:
           throw new Error(`Unknown action: ${payload.action}`)
       }
 
-      const result = await this.callGemini(prompt, context)
+      const result = await this.callModel(prompt, context, schema, images)
       return this.validateResult(result)
 
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Design generation failed',
-        confidence: 0
+        confidence: 0,
+        aiError: asAIError(error)
       }
     }
   }
 
-  private buildDesignPrompt(requirements: any): string {
-    return `Create a Flutter app design based on these requirements:
+  private buildDesignPrompt(requirements: any, hasReferenceImage: boolean): string {
+    const reference = hasReferenceImage
+      ? `\nA screenshot or mockup of the desired UI is attached. Derive the theme colors, typography, layout, screens and widget hierarchy from it as faithfully as possible; the requirements below only add to it.\n`
+      : ''
 
+    return `Create a Flutter app design based on these requirements:
+${reference}
 App Type: ${requirements.appType || 'mobile'}
 Target Platform: ${requirements.platform || 'iOS and Android'}
 User Requirements: ${requirements.description}
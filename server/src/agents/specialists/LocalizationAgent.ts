@@ -0,0 +1,185 @@
+import Joi from 'joi'
+import { BaseAgent, AgentResult } from '../shared/BaseAgent'
+import { AgentMessage, AgentContext } from '../shared/AgentCommunication'
+import { asAIError } from '../../services/llm'
+
+interface LocalizedMessage {
+  key: string
+  text: string
+  description?: string
+  translations: Record<string, string>
+}
+
+// gen-l10n reads the ARB files from lib/l10n and writes AppLocalizations next to them, so
+// widgets import it with a relative path instead of the deprecated flutter_gen package
+const L10N_CONFIG = `arb-dir: lib/l10n
+template-arb-file: app_en.arb
+output-dir: lib/l10n
+output-localization-file: app_localizations.dart
+synthetic-package: false
+nullable-getter: false
+`
+
+const LOCALIZATION_DEPENDENCIES = [
+  { name: 'flutter_localizations', version: 'any', sdk: 'flutter', dev: false, description: 'Material and Cupertino translations and localization delegates' },
+  { name: 'intl', version: 'any', dev: false, description: 'Message formatting for the generated AppLocalizations' }
+]
+
+// Widget arguments whose string literals are shown to the user
+const USER_FACING_STRING = /(?:Text\(\s*|(?:title|label|labelText|hintText|helperText|errorText|tooltip|semanticLabel|semanticsLabel|content):\s*)(['"])((?:(?!\1)[^\\$\n]|\\.)+)\1/g
+
+// Every key a widget reads from AppLocalizations, e.g. AppLocalizations.of(context).addTask
+const LOCALIZATION_LOOKUP = /AppLocalizations\.of\(context\)!?\.(\w+)/g
+
+function localizationSchema(locales: string[], codebaseFiles: Array<{ path: string; content: string }>): Joi.Schema {
+  const translations = Object.fromEntries(locales.filter(l => l !== 'en').map(locale => [locale, Joi.string().required()]))
+
+  return Joi.object({
+    files: Joi.array().items(Joi.object({
+      path: Joi.string().pattern(/^lib\/.+\.dart$/).required(),
+      content: Joi.string().required(),
+      description: Joi.string().allow('').optional()
+    })).min(1).required(),
+    messages: Joi.array().items(Joi.object({
+      // ARB keys become Dart getters
+      key: Joi.string().pattern(/^[a-z][a-zA-Z0-9]*$/).required(),
+      text: Joi.string().required(),
+      description: Joi.string().allow('').optional(),
+      translations: Joi.object(translations).unknown(true).required()
+    })).min(1).required(),
+    explanation: Joi.string().allow('').optional()
+  }).custom((value, helpers) => {
+    const keys = new Set(value.messages.map((message: LocalizedMessage) => message.key))
+    const used = new Set(value.files.flatMap((file: { content: string }) =>
+      Array.from(file.content.matchAll(LOCALIZATION_LOOKUP), match => match[1])
+    ))
+    const undefinedKeys = Array.from(used).filter(key => !keys.has(key as string))
+    if (undefinedKeys.length > 0) {
+      return helpers.message({ custom: `Widgets use keys that are not in messages: ${undefinedKeys.join(', ')}` })
+    }
+
+    const wired = [...value.files, ...codebaseFiles].some((file: { content: string }) => file.content.includes('AppLocalizations.localizationsDelegates'))
+    if (!wired) {
+      return helpers.message({ custom: 'No file passes AppLocalizations.localizationsDelegates and supportedLocales to MaterialApp' })
+    }
+    return value
+  })
+}
+
+// Moves the user-facing strings of generated code into ARB files with a translation per target
+// locale, and rewrites the widgets to read them from AppLocalizations. The model rewrites the
+// widgets and translates; the ARB files, l10n.yaml and dependencies are written here.
+export class LocalizationAgent extends BaseAgent {
+  constructor() {
+    super('localization-agent', {
+      canGenerateCode: true,
+      canAnalyzeDesign: false,
+      canRunTests: false,
+      canOptimize: false,
+      canDeploy: false,
+      canLocalize: true,
+      canIntegrateApi: false,
+      actions: ['localize_app']
+    }, 'localization-agent-system')
+  }
+
+  async processMessage(message: AgentMessage): Promise<AgentResult> {
+    try {
+      const { payload } = message
+      const context = payload.context as AgentContext
+
+      switch (payload.action) {
+        case 'localize_app':
+          return await this.localizeApp(payload.codebase, payload.locales, context)
+        default:
+          throw new Error(`Unknown action: ${payload.action}`)
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Localization failed',
+        confidence: 0,
+        aiError: asAIError(error)
+      }
+    }
+  }
+
+  private async localizeApp(codebase: any, requestedLocales: string[] | undefined, context: AgentContext): Promise<AgentResult> {
+    const files: Array<{ path: string; content: string }> = (codebase?.files || []).filter((file: any) => file.path.endsWith('.dart'))
+    if (files.length === 0) {
+      throw new Error('No Dart code to localize')
+    }
+
+    // English is the template locale and always comes first
+    const locales = Array.from(new Set(['en', ...(requestedLocales || [])]))
+    const response = await this.callModel<{ files: any[]; messages: LocalizedMessage[]; explanation?: string }>(
+      this.buildLocalizationPrompt(files, locales),
+      context,
+      localizationSchema(locales, files)
+    )
+
+    const arbFiles = locales.map(locale => ({
+      path: `lib/l10n/app_${locale}.arb`,
+      content: JSON.stringify(buildArb(locale, response.messages), null, 2) + '\n',
+      description: `${locale} translations`
+    }))
+
+    return this.validateResult({
+      files: [
+        ...response.files,
+        ...arbFiles,
+        { path: 'l10n.yaml', content: L10N_CONFIG, description: 'gen-l10n configuration' }
+      ],
+      dependencies: LOCALIZATION_DEPENDENCIES,
+      locales,
+      explanation: response.explanation
+    })
+  }
+
+  private buildLocalizationPrompt(files: Array<{ path: string; content: string }>, locales: string[]): string {
+    const candidates = files.flatMap(file =>
+      Array.from(file.content.matchAll(USER_FACING_STRING), match => `- ${file.path}: "${match[2]}"`)
+    )
+
+    return `Localize this Flutter app for these locales: ${locales.join(', ')} (en is the template).
+
+FILES:
+${files.map(file => `--- ${file.path}\n${file.content}`).join('\n\n')}
+
+STRINGS FOUND SO FAR (there may be more, e.g. in SnackBars, dialogs or string variables):
+${candidates.length > 0 ? candidates.join('\n') : '- None found; look for them yourself'}
+
+1. Give every user-facing string a camelCase key and list it in "messages" with its English text and a translation for each of ${locales.filter(l => l !== 'en').join(', ') || 'no other locale'}. Use ICU placeholders such as {count} or {name} for interpolated values, and {count, plural, =1{...} other{...}} for counts.
+2. Rewrite every widget that shows one of these strings to use AppLocalizations.of(context).<key>, or AppLocalizations.of(context).<key>(value) for messages with placeholders. Remove const where the lookup makes it invalid.
+3. Import AppLocalizations with a relative import of lib/l10n/app_localizations.dart.
+4. In the file that builds MaterialApp, set localizationsDelegates: AppLocalizations.localizationsDelegates and supportedLocales: AppLocalizations.supportedLocales, and build the app title with onGenerateTitle.
+
+Return only the files you changed, each in full. Do not change anything but the strings and the wiring.`
+  }
+}
+
+// Placeholders are read from the English text: {name} or {count, plural, ...}, but not the
+// bodies of plural cases such as one{item}. Plural selectors need a number.
+function buildArb(locale: string, messages: LocalizedMessage[]): Record<string, any> {
+  const arb: Record<string, any> = { '@@locale': locale }
+
+  for (const message of messages) {
+    arb[message.key] = locale === 'en' ? message.text : message.translations[locale] || message.text
+    if (locale !== 'en') continue
+
+    const placeholders: Record<string, any> = {}
+    for (const match of message.text.matchAll(/(?<![\w=])\{([a-zA-Z]\w*)\s*(?:\}|,\s*(plural|select))/g)) {
+      if (!placeholders[match[1]] || match[2] === 'plural') {
+        placeholders[match[1]] = match[2] === 'plural' ? { type: 'num' } : {}
+      }
+    }
+
+    const metadata = {
+      ...(message.description ? { description: message.description } : {}),
+      ...(Object.keys(placeholders).length > 0 ? { placeholders } : {})
+    }
+    if (Object.keys(metadata).length > 0) arb[`@${message.key}`] = metadata
+  }
+
+  return arb
+}
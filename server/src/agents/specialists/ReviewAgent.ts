@@ -0,0 +1,258 @@
+import Joi from 'joi'
+import { BaseAgent, AgentResult } from '../shared/BaseAgent'
+import { AgentMessage, AgentContext } from '../shared/AgentCommunication'
+import { asAIError } from '../../services/llm'
+
+export type ReviewCategory = 'missing_screen' | 'navigation' | 'theme' | 'todo_stub' | 'requirement' | 'other'
+
+// blocking: the app does not do what was asked; major: visibly off; minor: polish
+export type ReviewSeverity = 'blocking' | 'major' | 'minor'
+
+export interface ReviewFinding {
+  id: string
+  category: ReviewCategory
+  severity: ReviewSeverity
+  file?: string
+  message: string
+  suggestion?: string
+}
+
+export interface ReviewReport {
+  findings: ReviewFinding[]
+  summary: string
+  // Derived from the findings, not reported by the model
+  confidence: number
+}
+
+const REVIEW_CATEGORIES: ReviewCategory[] = ['missing_screen', 'navigation', 'theme', 'todo_stub', 'requirement', 'other']
+
+const REVIEW_RESPONSE_SCHEMA = Joi.object({
+  findings: Joi.array().items(Joi.object({
+    category: Joi.string().valid(...REVIEW_CATEGORIES).default('other'),
+    severity: Joi.string().valid('blocking', 'major', 'minor').required(),
+    file: Joi.string().allow('').optional(),
+    message: Joi.string().required(),
+    suggestion: Joi.string().allow('').optional()
+  })).default([]),
+  summary: Joi.string().allow('').default('')
+})
+
+// How much one finding of each severity lowers the confidence in the code
+const SEVERITY_PENALTY: Record<ReviewSeverity, number> = { blocking: 0.25, major: 0.08, minor: 0.02 }
+
+type DraftFinding = Omit<ReviewFinding, 'id'>
+
+// Reviews generated code against the design spec and the user's request. Checks that need no
+// model (screens without a widget, navigation targets nothing links to, unused theme colours,
+// stubs) run first; the model adds what only reading the code can tell.
+export class ReviewAgent extends BaseAgent {
+  constructor() {
+    super('review-agent', {
+      canGenerateCode: false,
+      canAnalyzeDesign: true,
+      canRunTests: false,
+      canOptimize: false,
+      canDeploy: false,
+      canLocalize: false,
+      canIntegrateApi: false,
+      actions: ['review_code']
+    }, 'review-agent-system')
+  }
+
+  async processMessage(message: AgentMessage): Promise<AgentResult> {
+    try {
+      const { payload } = message
+      const context = payload.context as AgentContext
+
+      switch (payload.action) {
+        case 'review_code':
+          return await this.reviewCode(payload.code, payload.design, payload.userPrompt, context)
+        default:
+          throw new Error(`Unknown action: ${payload.action}`)
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Code review failed',
+        confidence: 0,
+        aiError: asAIError(error)
+      }
+    }
+  }
+
+  private async reviewCode(code: any, design: any, userPrompt: string, context: AgentContext): Promise<AgentResult> {
+    const files: Array<{ path: string; content: string }> = code?.files || []
+    if (files.length === 0) {
+      throw new Error('No code to review')
+    }
+
+    const detected = [
+      ...checkScreens(files, design),
+      ...checkThemeColors(files, design),
+      ...checkStubs(files)
+    ]
+
+    const response = await this.callModel<{ findings: DraftFinding[]; summary: string }>(
+      this.buildReviewPrompt(files, design, userPrompt, detected),
+      context,
+      REVIEW_RESPONSE_SCHEMA
+    )
+
+    const seen = new Set<string>()
+    const findings = [...detected, ...response.findings]
+      .filter(finding => {
+        const key = `${finding.category}:${finding.file || ''}:${finding.message.toLowerCase()}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .map((finding, index) => ({ ...finding, file: finding.file || undefined, id: `R${index + 1}` }))
+
+    const report: ReviewReport = {
+      findings,
+      summary: response.summary,
+      confidence: scoreFindings(findings)
+    }
+
+    return {
+      success: true,
+      data: report,
+      confidence: report.confidence
+    }
+  }
+
+  private buildReviewPrompt(files: Array<{ path: string; content: string }>, design: any, userPrompt: string, detected: DraftFinding[]): string {
+    return `Review this generated Flutter app against the user's request and the design specification.
+
+USER REQUEST: ${userPrompt}
+
+DESIGN SPECIFICATION:
+${design ? JSON.stringify(design, null, 2) : 'None; review against the request only'}
+
+GENERATED FILES:
+${files.map(file => `--- ${file.path}\n${file.content}`).join('\n\n')}
+
+ALREADY DETECTED (do not repeat these):
+${detected.length > 0 ? detected.map(f => `- [${f.severity}] ${f.category}${f.file ? ` (${f.file})` : ''}: ${f.message}`).join('\n') : '- Nothing'}
+
+Report every further place where the code falls short: screens or features from the request or design that are missing, navigation that leads nowhere, design colours or typography that are ignored, stubbed or placeholder logic, and code that would not compile. Only report concrete problems, each with the file it is in and a suggested fix. Mark a finding blocking only if the app would not do what the user asked without fixing it.`
+  }
+}
+
+// 1 for a clean review, lower for every finding, never below 0.05
+export function scoreFindings(findings: Array<{ severity: ReviewSeverity }>): number {
+  const penalty = findings.reduce((sum, finding) => sum + SEVERITY_PENALTY[finding.severity], 0)
+  return Math.round(Math.max(0.05, 1 - penalty) * 100) / 100
+}
+
+// "Home Screen", "home_page" and HomeScreen all become "home"
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/(screen|page|view)$/, '') || name.toLowerCase()
+}
+
+function findScreenFile(files: Array<{ path: string; content: string }>, screen: { name: string; route?: string }) {
+  const name = normalizeName(screen.name)
+  return files.find(file =>
+    Array.from(file.content.matchAll(/class\s+(\w+)/g)).some(match => normalizeName(match[1]) === name)
+  )
+}
+
+function navigationTargets(navigation: any): string[] {
+  const entries = Array.isArray(navigation) ? navigation : navigation ? [navigation] : []
+  return entries
+    .map(entry => typeof entry === 'string' ? entry : entry?.target)
+    .filter((target): target is string => typeof target === 'string' && target.length > 0)
+}
+
+function checkScreens(files: Array<{ path: string; content: string }>, design: any): DraftFinding[] {
+  const screens: Array<{ name: string; route?: string; navigation?: any }> = design?.design?.screens || []
+  const findings: DraftFinding[] = []
+
+  for (const screen of screens) {
+    if (!findScreenFile(files, screen)) {
+      findings.push({
+        category: 'missing_screen',
+        severity: 'blocking',
+        message: `The design's "${screen.name}" screen has no widget class`,
+        suggestion: `Add a ${screen.name} screen${screen.route ? ` reachable at ${screen.route}` : ''}`
+      })
+    }
+  }
+
+  for (const screen of screens) {
+    const source = findScreenFile(files, screen)
+    if (!source) continue
+
+    for (const target of navigationTargets(screen.navigation)) {
+      const targetScreen = screens.find(s => normalizeName(s.name) === normalizeName(target) || s.route === target)
+      const targetFile = targetScreen && findScreenFile(files, targetScreen)
+      // A missing target is already reported as a missing screen
+      if (targetScreen && !targetFile) continue
+
+      const className = targetFile && Array.from(targetFile.content.matchAll(/class\s+(\w+)/g))
+        .map(match => match[1])
+        .find(name => normalizeName(name) === normalizeName(targetScreen!.name))
+      const references = [className, targetScreen?.route, target.startsWith('/') ? target : undefined]
+        .filter((reference): reference is string => !!reference)
+      const linked = files.some(file => file !== targetFile && references.some(reference => file.content.includes(reference)))
+
+      if (!linked) {
+        findings.push({
+          category: 'navigation',
+          severity: 'blocking',
+          file: source.path,
+          message: `"${screen.name}" should navigate to "${target}", but nothing links to it`,
+          suggestion: `Navigate from ${screen.name} to ${target}${targetScreen?.route ? ` (${targetScreen.route})` : ''}`
+        })
+      }
+    }
+  }
+
+  return findings
+}
+
+function checkThemeColors(files: Array<{ path: string; content: string }>, design: any): DraftFinding[] {
+  const theme = design?.design?.theme || {}
+  const code = files.map(file => file.content).join('\n').toUpperCase()
+
+  return ['primaryColor', 'secondaryColor', 'backgroundColor']
+    .filter(key => typeof theme[key] === 'string' && /^#[0-9a-f]{6}$/i.test(theme[key]))
+    .filter(key => !code.includes(theme[key].slice(1).toUpperCase()))
+    .map(key => ({
+      category: 'theme' as const,
+      severity: key === 'primaryColor' ? 'major' as const : 'minor' as const,
+      message: `The design's ${key} ${theme[key]} is not used`,
+      suggestion: `Use Color(0xFF${theme[key].slice(1).toUpperCase()}) in the ThemeData`
+    }))
+}
+
+function checkStubs(files: Array<{ path: string; content: string }>): DraftFinding[] {
+  const findings: DraftFinding[] = []
+
+  for (const file of files) {
+    const lines = file.content.split('\n')
+    const unimplemented = lines.filter(line => /UnimplementedError/.test(line)).length
+    const todos = lines.filter(line => /\/\/\s*(TODO|FIXME)\b/i.test(line)).length
+
+    if (unimplemented > 0) {
+      findings.push({
+        category: 'todo_stub',
+        severity: 'blocking',
+        file: file.path,
+        message: `${unimplemented} method(s) throw UnimplementedError`,
+        suggestion: 'Implement the methods'
+      })
+    }
+    if (todos > 0) {
+      findings.push({
+        category: 'todo_stub',
+        severity: 'major',
+        file: file.path,
+        message: `${todos} TODO/FIXME comment(s) left in the code`,
+        suggestion: 'Implement what the comments describe'
+      })
+    }
+  }
+
+  return findings
+}
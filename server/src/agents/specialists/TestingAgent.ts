@@ -1,84 +1,25 @@
+import Joi from 'joi'
 import { BaseAgent, AgentResult } from '../shared/BaseAgent'
 import { AgentMessage, AgentContext } from '../shared/AgentCommunication'
-
-const TESTING_SYSTEM_PROMPT = `You are a Flutter Testing and Quality Assurance Agent. Your expertise includes:
-
-- Flutter testing frameworks (flutter_test, integration_test)
-- Unit testing with mockito and test doubles
-- Widget testing for UI components
-- Integration testing for complete workflows
-- Performance testing and profiling
-- Code quality analysis and linting
-- Test-driven development (TDD) practices
-- Accessibility testing
-- Cross-platform testing strategies
-
-RESPONSE FORMAT:
-Always respond with a JSON object containing:
-{
-  "testSuite": {
-    "unitTests": [
-      {
-        "file": "test/unit/feature_test.dart",
-        "content": "// Complete test code",
-        "description": "What this test covers",
-        "coverage": ["list", "of", "tested", "methods"]
-      }
-    ],
-    "widgetTests": [
-      {
-        "file": "test/widget/screen_test.dart",
-        "content": "// Complete widget test code",
-        "description": "UI components being tested",
-        "interactions": ["tap", "scroll", "input"]
-      }
-    ],
-    "integrationTests": [
-      {
-        "file": "integration_test/app_test.dart",
-        "content": "// Complete integration test code",
-        "description": "End-to-end workflow being tested",
-        "scenarios": ["happy path", "error cases"]
-      }
-    ]
-  },
-  "testConfiguration": {
-    "dependencies": [
-      {
-        "name": "flutter_test",
-        "version": "sdk: flutter",
-        "type": "dev_dependencies"
-      }
-    ],
-    "testCommands": [
-      "flutter test",
-      "flutter test --coverage"
-    ],
-    "cicd": {
-      "githubActions": "# GitHub Actions workflow for testing",
-      "testStrategy": "Description of testing strategy"
-    }
-  },
-  "qualityMetrics": {
-    "expectedCoverage": 80,
-    "performanceBenchmarks": [
-      {
-        "metric": "App startup time",
-        "target": "< 2 seconds",
-        "test": "Performance test description"
-      }
-    ],
-    "accessibilityChecks": [
-      "Screen reader compatibility",
-      "Color contrast validation",
-      "Touch target sizes"
-    ]
-  },
-  "recommendations": [
-    "Testing best practices and improvements"
-  ],
-  "explanation": "Overall testing strategy and approach"
-}`
+import { asAIError } from '../../services/llm'
+
+const TEST_FILE_SCHEMA = Joi.object({
+  file: Joi.string().required(),
+  content: Joi.string().allow('').required(),
+  description: Joi.string().allow('').optional()
+})
+
+export const TEST_SUITE_RESPONSE_SCHEMA = Joi.object({
+  testSuite: Joi.object({
+    unitTests: Joi.array().items(TEST_FILE_SCHEMA).default([]),
+    widgetTests: Joi.array().items(TEST_FILE_SCHEMA).default([]),
+    integrationTests: Joi.array().items(TEST_FILE_SCHEMA).default([])
+  }).required(),
+  explanation: Joi.string().allow('').optional()
+})
+
+// Quality, performance and accessibility reports are free-form structured JSON
+const REPORT_RESPONSE_SCHEMA = Joi.object().min(1)
 
 export class TestingAgent extends BaseAgent {
   constructor() {
@@ -87,8 +28,11 @@ export class TestingAgent extends BaseAgent {
       canAnalyzeDesign: false,
       canRunTests: true,
       canOptimize: true,
-      canDeploy: false
-    }, TESTING_SYSTEM_PROMPT)
+      canDeploy: false,
+      canLocalize: false,
+      canIntegrateApi: false,
+      actions: ['generate_tests', 'analyze_quality', 'performance_tests', 'accessibility_tests']
+    }, 'testing-agent-system')
   }
 
   async processMessage(message: AgentMessage): Promise<AgentResult> {
@@ -97,10 +41,12 @@ export class TestingAgent extends BaseAgent {
       const context = payload.context as AgentContext
 
       let prompt = ''
+      let schema: Joi.Schema = REPORT_RESPONSE_SCHEMA
 
       switch (payload.action) {
         case 'generate_tests':
           prompt = this.buildTestGenerationPrompt(payload.codebase, payload.testRequirements)
+          schema = TEST_SUITE_RESPONSE_SCHEMA
           break
         case 'analyze_quality':
           prompt = this.buildQualityAnalysisPrompt(payload.codebase)
@@ -115,14 +61,15 @@ export class TestingAgent extends BaseAgent {
           throw new Error(`Unknown action: ${payload.action}`)
       }
 
-      const result = await this.callGemini(prompt, context)
+      const result = await this.callModel(prompt, context, schema)
       return this.validateResult(result)
 
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Test generation failed',
-        confidence: 0
+        confidence: 0,
+        aiError: asAIError(error)
       }
     }
   }
@@ -0,0 +1,45 @@
+import fs from 'fs-extra'
+import Joi from 'joi'
+import { GENERATION_TEMPLATES } from '../services/generationTemplates'
+
+export type BenchmarkMode = 'single' | 'multi-agent'
+
+export interface BenchmarkCase {
+  id: string
+  name: string
+  prompt: string
+  // Overrides the run's mode for this case
+  mode?: BenchmarkMode
+}
+
+const CASES_SCHEMA = Joi.array().items(Joi.object({
+  id: Joi.string().pattern(/^[\w-]+$/).required(),
+  name: Joi.string().optional(),
+  prompt: Joi.string().min(10).max(2000).required(),
+  mode: Joi.string().valid('single', 'multi-agent').optional()
+})).min(1)
+
+// The starter templates from the UI, so every run covers what users try first
+export function builtInCases(): BenchmarkCase[] {
+  return GENERATION_TEMPLATES.map(template => ({
+    id: template.id,
+    name: template.name,
+    prompt: template.prompt
+  }))
+}
+
+// A JSON array of { id, name?, prompt, mode? }
+export async function loadCases(filePath: string): Promise<BenchmarkCase[]> {
+  const { error, value } = CASES_SCHEMA.validate(await fs.readJson(filePath))
+  if (error) {
+    throw new Error(`Invalid benchmark cases in ${filePath}: ${error.message}`)
+  }
+
+  return (value as BenchmarkCase[]).map(testCase => ({ ...testCase, name: testCase.name || testCase.id }))
+}
+
+// User cases replace built-in ones with the same id
+export function mergeCases(builtIn: BenchmarkCase[], custom: BenchmarkCase[]): BenchmarkCase[] {
+  const customIds = new Set(custom.map(testCase => testCase.id))
+  return [...builtIn.filter(testCase => !customIds.has(testCase.id)), ...custom]
+}
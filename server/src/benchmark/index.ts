@@ -0,0 +1,184 @@
+import 'dotenv/config'
+import path from 'path'
+import { logger } from '../utils/logger'
+import { llmRegistry, Cassette, ProviderSelection } from '../services/llm'
+import { promptRegistry } from '../services/promptRegistry'
+import { responseCache } from '../services/responseCache'
+import { BenchmarkCase, BenchmarkMode, builtInCases, loadCases, mergeCases } from './cases'
+import { BenchmarkRunner } from './runner'
+import { BenchmarkReport, compareReports, loadReport, summarize, writeReport } from './report'
+
+const USAGE = `Usage: npm run benchmark -- [options]
+
+  --mode single|multi-agent   Generation pipeline (default: single)
+  --cases <file>              JSON array of extra cases { id, name?, prompt, mode? }
+  --only <id,id>              Run only these case ids
+  --no-builtin                Skip the built-in template cases
+  --cassette <file>           Replay model responses from a cassette
+  --record                    Record into --cassette instead of replaying (calls the provider)
+  --provider <name>           LLM provider, e.g. ollama for a local model
+  --model <name>              Model for the provider
+  --allow-remote              Allow calls to a hosted provider
+  --skip-tests                Do not run flutter test
+  --token-target <n>          Tokens per case that still get the full token score (default: 20000)
+  --out <dir>                 Report directory (default: temp/benchmark)
+  --compare <report.json>     Add deltas against an earlier report
+`
+
+interface CliOptions {
+  mode: BenchmarkMode
+  cases?: string
+  only?: string[]
+  builtin: boolean
+  cassette?: string
+  record: boolean
+  llm: ProviderSelection
+  allowRemote: boolean
+  runTests: boolean
+  tokenTarget: number
+  outDir: string
+  compare?: string
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    mode: 'single',
+    builtin: true,
+    record: false,
+    llm: {},
+    allowRemote: false,
+    runTests: true,
+    tokenTarget: 20000,
+    outDir: path.join(process.cwd(), 'temp', 'benchmark')
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    const value = () => {
+      const next = argv[++i]
+      if (next === undefined || next.startsWith('--')) throw new Error(`${flag} needs a value`)
+      return next
+    }
+
+    switch (flag) {
+      case '--mode': {
+        const mode = value()
+        if (mode !== 'single' && mode !== 'multi-agent') throw new Error(`Unknown mode: ${mode}`)
+        options.mode = mode
+        break
+      }
+      case '--cases': options.cases = value(); break
+      case '--only': options.only = value().split(',').map(id => id.trim()).filter(Boolean); break
+      case '--no-builtin': options.builtin = false; break
+      case '--cassette': options.cassette = value(); break
+      case '--record': options.record = true; break
+      case '--provider': options.llm.provider = value(); break
+      case '--model': options.llm.model = value(); break
+      case '--allow-remote': options.allowRemote = true; break
+      case '--skip-tests': options.runTests = false; break
+      case '--token-target': options.tokenTarget = parseInt(value(), 10); break
+      case '--out': options.outDir = value(); break
+      case '--compare': options.compare = value(); break
+      case '--help':
+        console.log(USAGE)
+        process.exit(0)
+        break
+      default:
+        throw new Error(`Unknown option: ${flag}`)
+    }
+  }
+
+  if (options.record && !options.cassette) throw new Error('--record needs --cassette')
+  return options
+}
+
+// Benchmarks are meant to be repeatable, so hosted providers need an explicit opt-in
+function assertOffline(options: CliOptions): void {
+  if (options.cassette && !options.record) return
+  if (options.allowRemote) return
+  if ((options.llm.provider || process.env.LLM_PROVIDER) === 'ollama') return
+
+  throw new Error('Benchmark would call a hosted provider: pass --cassette <file> to replay, --provider ollama for a local model, or --allow-remote')
+}
+
+async function selectCases(options: CliOptions): Promise<BenchmarkCase[]> {
+  const custom = options.cases ? await loadCases(options.cases) : []
+  let cases = mergeCases(options.builtin ? builtInCases() : [], custom)
+
+  if (options.only) {
+    const unknown = options.only.filter(id => !cases.some(testCase => testCase.id === id))
+    if (unknown.length > 0) throw new Error(`Unknown case id(s): ${unknown.join(', ')}`)
+    cases = cases.filter(testCase => options.only!.includes(testCase.id))
+  }
+  if (cases.length === 0) throw new Error('No benchmark cases selected')
+
+  return cases
+}
+
+function activePromptVersions(): BenchmarkReport['prompts'] {
+  return promptRegistry.describe().prompts
+    .filter(prompt => prompt.active)
+    .map(prompt => ({
+      promptId: prompt.promptId,
+      version: prompt.active,
+      hash: prompt.versions.find(v => v.version === prompt.active)?.hash || ''
+    }))
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (options.cassette) {
+    llmRegistry.useCassette(new Cassette(options.cassette, options.record ? 'record' : 'replay'))
+  }
+  assertOffline(options)
+  // Every case must reach the model (or cassette) so tokens and quality are measured, not cached
+  responseCache.useStore(null)
+
+  const cases = await selectCases(options)
+  const runId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${options.mode}`
+  const runDir = path.resolve(options.outDir, runId)
+  const startedAt = new Date().toISOString()
+
+  logger.info(`Benchmark ${runId}: ${cases.length} case(s), writing to ${runDir}`)
+
+  const runner = new BenchmarkRunner({
+    runId,
+    mode: options.mode,
+    workDir: path.join(runDir, 'workspaces'),
+    llm: options.llm.provider || options.llm.model ? options.llm : undefined,
+    runTests: options.runTests,
+    tokenTarget: options.tokenTarget,
+    testTimeoutMs: parseInt(process.env.BENCHMARK_TEST_TIMEOUT_MS || '300000', 10)
+  })
+  const results = await runner.run(cases)
+
+  const cassette = llmRegistry.getCassette()
+  const report: BenchmarkReport = {
+    runId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    mode: options.mode,
+    llm: options.llm,
+    cassette: cassette ? { path: cassette.filePath, mode: cassette.mode } : undefined,
+    prompts: activePromptVersions(),
+    tokenTarget: options.tokenTarget,
+    cases: results,
+    summary: summarize(results)
+  }
+
+  if (options.compare) {
+    report.comparison = compareReports(report, await loadReport(options.compare))
+  }
+
+  const written = await writeReport(report, runDir)
+  console.log(`Average score ${report.summary.avgScore} over ${report.summary.cases} case(s), ${report.summary.totalTokens} tokens`)
+  console.log(`Report: ${written.json}\n        ${written.html}`)
+}
+
+// Services keep timers running, so exit explicitly once the report is written
+main().then(() => process.exit(0)).catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  console.error('Run with --help for options')
+  process.exit(1)
+})
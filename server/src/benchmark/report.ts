@@ -0,0 +1,198 @@
+import fs from 'fs-extra'
+import path from 'path'
+import { BenchmarkMode } from './cases'
+import { BenchmarkCaseResult } from './runner'
+
+export interface BenchmarkSummary {
+  cases: number
+  parseRate: number
+  avgScore: number
+  avgFiles: number
+  analyzerErrors: number
+  analyzerWarnings: number
+  testsPassed: number
+  testsFailed: number
+  totalTokens: number
+  totalCostUsd: number
+  totalDurationMs: number
+}
+
+export interface BenchmarkComparison {
+  baselineRunId: string
+  baselinePrompts: PromptVersion[]
+  summary: Partial<Record<keyof BenchmarkSummary, number>>
+  // Keyed by case id; only cases present in both runs
+  cases: Record<string, { score: number; tokens: number; analyzerErrors: number }>
+}
+
+export interface PromptVersion {
+  promptId: string
+  version: string
+  hash: string
+}
+
+export interface BenchmarkReport {
+  runId: string
+  startedAt: string
+  finishedAt: string
+  mode: BenchmarkMode
+  // What was requested; the models actually called are listed per case
+  llm: { provider?: string; model?: string }
+  cassette?: { path: string; mode: string }
+  prompts: PromptVersion[]
+  tokenTarget: number
+  cases: BenchmarkCaseResult[]
+  summary: BenchmarkSummary
+  comparison?: BenchmarkComparison
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits
+
+export function summarize(cases: BenchmarkCaseResult[]): BenchmarkSummary {
+  const count = cases.length
+  const sum = (pick: (result: BenchmarkCaseResult) => number) => cases.reduce((total, result) => total + pick(result), 0)
+
+  return {
+    cases: count,
+    parseRate: count ? round(sum(r => (r.parsed ? 1 : 0)) / count) : 0,
+    avgScore: count ? round(sum(r => r.score) / count, 1) : 0,
+    avgFiles: count ? round(sum(r => r.fileCount) / count, 1) : 0,
+    analyzerErrors: sum(r => r.analyzer.errors),
+    analyzerWarnings: sum(r => r.analyzer.warnings),
+    testsPassed: sum(r => r.tests.passed),
+    testsFailed: sum(r => r.tests.failed),
+    totalTokens: sum(r => r.tokens.total),
+    totalCostUsd: round(sum(r => r.tokens.costUsd), 6),
+    totalDurationMs: sum(r => r.durationMs)
+  }
+}
+
+// Deltas are current minus baseline, so a positive score delta is an improvement
+export function compareReports(current: BenchmarkReport, baseline: BenchmarkReport): BenchmarkComparison {
+  const summary: BenchmarkComparison['summary'] = {}
+  for (const key of Object.keys(current.summary) as Array<keyof BenchmarkSummary>) {
+    summary[key] = round(current.summary[key] - (baseline.summary[key] ?? 0), 6)
+  }
+
+  const baselineCases = new Map(baseline.cases.map(result => [result.caseId, result]))
+  const cases: BenchmarkComparison['cases'] = {}
+  for (const result of current.cases) {
+    const before = baselineCases.get(result.caseId)
+    if (!before) continue
+
+    cases[result.caseId] = {
+      score: result.score - before.score,
+      tokens: result.tokens.total - before.tokens.total,
+      analyzerErrors: result.analyzer.errors - before.analyzer.errors
+    }
+  }
+
+  return { baselineRunId: baseline.runId, baselinePrompts: baseline.prompts, summary, cases }
+}
+
+export async function loadReport(filePath: string): Promise<BenchmarkReport> {
+  return fs.readJson(filePath)
+}
+
+// Writes report.json and report.html into outDir and returns their paths
+export async function writeReport(report: BenchmarkReport, outDir: string): Promise<{ json: string; html: string }> {
+  await fs.ensureDir(outDir)
+  const json = path.join(outDir, 'report.json')
+  const html = path.join(outDir, 'report.html')
+
+  await fs.writeJson(json, report, { spaces: 2 })
+  await fs.writeFile(html, renderHtml(report), 'utf8')
+
+  return { json, html }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function delta(value: number | undefined, higherIsBetter = true): string {
+  if (value === undefined || value === 0) return ''
+  const better = higherIsBetter ? value > 0 : value < 0
+  return ` <span class="${better ? 'up' : 'down'}">(${value > 0 ? '+' : ''}${value})</span>`
+}
+
+function renderHtml(report: BenchmarkReport): string {
+  const { summary, comparison } = report
+  const caseDelta = (caseId: string) => comparison?.cases[caseId]
+
+  const rows = report.cases.map(result => {
+    const change = caseDelta(result.caseId)
+    const analyzer = result.analyzer.ran ? `${result.analyzer.errors} / ${result.analyzer.warnings}` : 'n/a'
+    const tests = result.tests.ran
+      ? `${result.tests.passed} / ${result.tests.passed + result.tests.failed}`
+      : escapeHtml(result.tests.skippedReason || 'n/a')
+
+    return `<tr${result.parsed ? '' : ' class="failed"'}>
+  <td title="${escapeHtml(result.prompt)}">${escapeHtml(result.caseId)}</td>
+  <td>${result.mode}</td>
+  <td>${result.score}${delta(change?.score)}</td>
+  <td>${result.parsed ? 'yes' : escapeHtml(result.error || 'no')}</td>
+  <td>${result.fileCount}</td>
+  <td>${analyzer}${delta(change?.analyzerErrors, false)}</td>
+  <td>${tests}</td>
+  <td>${result.tokens.total}${result.tokens.estimatedCalls ? '*' : ''}${delta(change?.tokens, false)}</td>
+  <td>$${result.tokens.costUsd.toFixed(4)}</td>
+  <td>${(result.durationMs / 1000).toFixed(1)}s</td>
+</tr>`
+  }).join('\n')
+
+  const prompts = report.prompts.map(p => `${escapeHtml(p.promptId)}@${escapeHtml(p.version)}#${p.hash}`).join(', ')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Benchmark ${escapeHtml(report.runId)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; }
+  th { background: #f3f4f6; }
+  tr.failed { background: #fef2f2; }
+  .up { color: #15803d; }
+  .down { color: #b91c1c; }
+  .meta { color: #6b7280; font-size: 0.9rem; }
+</style>
+</head>
+<body>
+<h1>Benchmark ${escapeHtml(report.runId)}</h1>
+<p class="meta">
+  ${report.startedAt} &ndash; ${report.finishedAt} &middot; mode ${report.mode}
+  &middot; llm ${escapeHtml(`${report.llm.provider || 'default'}/${report.llm.model || 'default'}`)}
+  ${report.cassette ? `&middot; cassette ${escapeHtml(report.cassette.mode)} ${escapeHtml(report.cassette.path)}` : ''}
+  ${comparison ? `&middot; compared with ${escapeHtml(comparison.baselineRunId)}` : ''}
+</p>
+<p class="meta">Prompts: ${prompts}</p>
+<h2>Summary</h2>
+<table>
+  <tr><th>Cases</th><th>Parse rate</th><th>Avg score</th><th>Avg files</th><th>Analyzer errors / warnings</th><th>Tests passed / failed</th><th>Tokens</th><th>Cost</th></tr>
+  <tr>
+    <td>${summary.cases}</td>
+    <td>${summary.parseRate}${delta(comparison?.summary.parseRate)}</td>
+    <td>${summary.avgScore}${delta(comparison?.summary.avgScore)}</td>
+    <td>${summary.avgFiles}</td>
+    <td>${summary.analyzerErrors}${delta(comparison?.summary.analyzerErrors, false)} / ${summary.analyzerWarnings}</td>
+    <td>${summary.testsPassed} / ${summary.testsFailed}</td>
+    <td>${summary.totalTokens}${delta(comparison?.summary.totalTokens, false)}</td>
+    <td>$${summary.totalCostUsd.toFixed(4)}</td>
+  </tr>
+</table>
+<h2>Cases</h2>
+<table>
+  <tr><th>Case</th><th>Mode</th><th>Score</th><th>Parsed</th><th>Files</th><th>Analyzer errors / warnings</th><th>Tests passed / run</th><th>Tokens</th><th>Cost</th><th>Time</th></tr>
+${rows}
+</table>
+<p class="meta">* token count includes estimated calls (no usage reported by the provider or cassette)</p>
+</body>
+</html>
+`
+}
@@ -0,0 +1,383 @@
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import fs from 'fs-extra'
+import path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { logger } from '../utils/logger'
+import { aiService } from '../services/aiService'
+import { compileFixService, GeneratedFile } from '../services/compileFixService'
+import { usageService } from '../services/usageService'
+import { ProviderSelection } from '../services/llm'
+import { MasterOrchestratorAgent } from '../agents/MasterOrchestratorAgent'
+import { AgentContext } from '../agents/shared/AgentCommunication'
+import { BenchmarkCase, BenchmarkMode } from './cases'
+
+const execAsync = promisify(exec)
+
+export interface BenchmarkRunOptions {
+  runId: string
+  mode: BenchmarkMode
+  // Generated projects are written to <workDir>/<caseId>
+  workDir: string
+  llm?: ProviderSelection
+  runTests: boolean
+  // Runs at or under this many tokens get the full token score
+  tokenTarget: number
+  testTimeoutMs: number
+}
+
+export interface ScoreComponent {
+  earned: number
+  max: number
+}
+
+export interface BenchmarkCaseResult {
+  caseId: string
+  name: string
+  prompt: string
+  mode: BenchmarkMode
+  // The model output was parsed and validated into files
+  parsed: boolean
+  error?: string
+  fileCount: number
+  files: string[]
+  analyzer: {
+    ran: boolean
+    errors: number
+    warnings: number
+    infos: number
+  }
+  tests: {
+    ran: boolean
+    passed: number
+    failed: number
+    skippedReason?: string
+  }
+  tokens: {
+    input: number
+    output: number
+    total: number
+    costUsd: number
+    calls: number
+    // Calls counted from text length because the provider or cassette had no usage
+    estimatedCalls: number
+  }
+  // provider/model of every call made for the case
+  models: string[]
+  durationMs: number
+  // 0..100; components that could not run on this host are left out
+  score: number
+  scoreBreakdown: Record<string, ScoreComponent>
+}
+
+interface GeneratedProject {
+  files: GeneratedFile[]
+  dependencies: Array<{ name: string; version: string; dev: boolean }>
+}
+
+const SCORE_WEIGHTS = {
+  parse: 25,
+  files: 10,
+  analyzer: 35,
+  tests: 20,
+  tokens: 10
+}
+
+// Runs each case through generation, writes the project, analyzes it and runs its tests.
+// Cases run one after another so token counts and timings are not skewed by contention.
+export class BenchmarkRunner {
+  constructor(private options: BenchmarkRunOptions) {}
+
+  async run(cases: BenchmarkCase[]): Promise<BenchmarkCaseResult[]> {
+    const results: BenchmarkCaseResult[] = []
+
+    for (const [index, testCase] of cases.entries()) {
+      logger.info(`Benchmark ${this.options.runId}: case ${index + 1}/${cases.length} ${testCase.id}`)
+      results.push(await this.runCase(testCase))
+    }
+
+    return results
+  }
+
+  async runCase(testCase: BenchmarkCase): Promise<BenchmarkCaseResult> {
+    const mode = testCase.mode || this.options.mode
+    // A uuid, because prompt hashing masks uuids and cassette replay must not depend on it
+    const sessionId = uuidv4()
+    const projectPath = path.join(this.options.workDir, testCase.id)
+    const startedAt = Date.now()
+
+    const result: BenchmarkCaseResult = {
+      caseId: testCase.id,
+      name: testCase.name,
+      prompt: testCase.prompt,
+      mode,
+      parsed: false,
+      fileCount: 0,
+      files: [],
+      analyzer: { ran: false, errors: 0, warnings: 0, infos: 0 },
+      tests: { ran: false, passed: 0, failed: 0 },
+      tokens: { input: 0, output: 0, total: 0, costUsd: 0, calls: 0, estimatedCalls: 0 },
+      models: [],
+      durationMs: 0,
+      score: 0,
+      scoreBreakdown: {}
+    }
+
+    try {
+      const project = mode === 'multi-agent'
+        ? await this.generateWithAgents(testCase.prompt, sessionId)
+        : await this.generateSingle(testCase.prompt, sessionId)
+
+      result.parsed = true
+      result.fileCount = project.files.length
+      result.files = project.files.map(file => file.path)
+
+      await this.writeProject(projectPath, project)
+      await this.runPubGet(projectPath)
+
+      const diagnostics = await compileFixService.analyze(projectPath)
+      if (diagnostics) {
+        result.analyzer = {
+          ran: true,
+          errors: diagnostics.filter(d => d.severity === 'error').length,
+          warnings: diagnostics.filter(d => d.severity === 'warning').length,
+          infos: diagnostics.filter(d => d.severity === 'info').length
+        }
+      }
+
+      result.tests = await this.runTests(projectPath, project.files)
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error)
+      logger.warn(`Benchmark case ${testCase.id} failed: ${result.error}`)
+    }
+
+    const usage = usageService.getSessionUsage(sessionId)
+    if (usage) {
+      result.tokens = {
+        input: usage.totals.inputTokens,
+        output: usage.totals.outputTokens,
+        total: usage.totals.totalTokens,
+        costUsd: usage.totals.costUsd,
+        calls: usage.totals.calls,
+        estimatedCalls: usage.totals.estimatedCalls
+      }
+      result.models = Object.keys(usage.byModel)
+    }
+
+    result.durationMs = Date.now() - startedAt
+    result.scoreBreakdown = scoreBreakdown(result, this.options.tokenTarget)
+    result.score = totalScore(result.scoreBreakdown)
+
+    return result
+  }
+
+  private async generateSingle(prompt: string, sessionId: string): Promise<GeneratedProject> {
+    const response = await aiService.generateFlutterCode({
+      prompt,
+      llm: this.options.llm,
+      usage: { sessionId },
+      noCache: true
+    })
+
+    return {
+      files: response.files || [{ path: 'lib/main.dart', content: response.code }],
+      dependencies: (response.dependencies || []).map(name => ({ name, version: 'any', dev: false }))
+    }
+  }
+
+  // Same path as a multi-agent session: plan, run every specialist, integrate
+  private async generateWithAgents(prompt: string, sessionId: string): Promise<GeneratedProject> {
+    const orchestrator = new MasterOrchestratorAgent()
+    const context: AgentContext = {
+      sessionId,
+      projectContext: { userPrompt: prompt, createdAt: new Date() },
+      conversationHistory: [],
+      currentPhase: 'initialization',
+      metadata: {
+        userPrompt: prompt,
+        startTime: new Date(),
+        llm: this.options.llm,
+        noCache: true
+      }
+    }
+
+    const result = await orchestrator.processMessage({
+      id: `benchmark_${Date.now()}`,
+      agentId: 'master-orchestrator',
+      type: 'request',
+      payload: { action: 'build_app', userPrompt: prompt, context },
+      timestamp: new Date(),
+      sessionId
+    })
+
+    if (!result.success) {
+      throw result.aiError || new Error(result.error || 'Multi-agent build failed')
+    }
+
+    const code = result.data?.code
+    if (!code?.files?.length) {
+      throw new Error('Multi-agent build produced no code files')
+    }
+
+    const testSuite = result.data.tests?.testSuite
+    // Integration tests need a device, so only unit and widget tests are run
+    const testFiles: GeneratedFile[] = [...(testSuite?.unitTests || []), ...(testSuite?.widgetTests || [])]
+      .map((test: { file: string; content: string }) => ({ path: test.file, content: test.content }))
+
+    return {
+      files: [...code.files.map((file: GeneratedFile) => ({ path: file.path, content: file.content })), ...testFiles],
+      dependencies: code.dependencies || []
+    }
+  }
+
+  private async writeProject(projectPath: string, project: GeneratedProject): Promise<void> {
+    await fs.emptyDir(projectPath)
+
+    for (const file of project.files) {
+      const filePath = path.resolve(projectPath, file.path)
+      // Model-chosen paths stay inside the workspace
+      if (!filePath.startsWith(path.resolve(projectPath) + path.sep)) {
+        logger.warn(`Benchmark skipped file outside the workspace: ${file.path}`)
+        continue
+      }
+      await fs.ensureDir(path.dirname(filePath))
+      await fs.writeFile(filePath, file.content, 'utf8')
+    }
+
+    const dependencies = project.dependencies.filter(dep => !dep.dev)
+    const devDependencies = project.dependencies.filter(dep => dep.dev)
+    const pubspec = [
+      'name: benchmark_app',
+      "publish_to: 'none'",
+      'version: 1.0.0+1',
+      '',
+      'environment:',
+      "  sdk: '>=3.1.0 <4.0.0'",
+      '',
+      'dependencies:',
+      '  flutter:',
+      '    sdk: flutter',
+      ...dependencies.map(dep => `  ${dep.name}: ${dep.version || 'any'}`),
+      '',
+      'dev_dependencies:',
+      '  flutter_test:',
+      '    sdk: flutter',
+      ...devDependencies.map(dep => `  ${dep.name}: ${dep.version || 'any'}`),
+      '',
+      'flutter:',
+      '  uses-material-design: true',
+      ''
+    ].join('\n')
+
+    await fs.writeFile(path.join(projectPath, 'pubspec.yaml'), pubspec, 'utf8')
+  }
+
+  // --offline resolves from the pub cache only, so a run never reaches the network
+  private async runPubGet(projectPath: string): Promise<void> {
+    try {
+      await execAsync('flutter pub get --offline', { cwd: projectPath, timeout: 120000 })
+    } catch (error) {
+      logger.warn(`flutter pub get --offline failed in ${projectPath}:`, error)
+    }
+  }
+
+  private async runTests(projectPath: string, files: GeneratedFile[]): Promise<BenchmarkCaseResult['tests']> {
+    if (!this.options.runTests) {
+      return { ran: false, passed: 0, failed: 0, skippedReason: 'disabled' }
+    }
+    if (!files.some(file => file.path.startsWith('test/') && file.path.endsWith('_test.dart'))) {
+      return { ran: false, passed: 0, failed: 0, skippedReason: 'no tests generated' }
+    }
+
+    let output = ''
+    try {
+      const { stdout } = await execAsync('flutter test --reporter json', {
+        cwd: projectPath,
+        timeout: this.options.testTimeoutMs,
+        maxBuffer: 20 * 1024 * 1024
+      })
+      output = stdout
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error.code === 127) {
+        return { ran: false, passed: 0, failed: 0, skippedReason: 'flutter unavailable' }
+      }
+      if (error.killed) {
+        return { ran: true, passed: 0, failed: 0, skippedReason: 'timed out' }
+      }
+      // flutter test exits non-zero when any test fails
+      output = error.stdout || ''
+    }
+
+    return { ran: true, ...countTestResults(output) }
+  }
+}
+
+// The json reporter prints one event per line; hidden tests are the per-file loading steps
+export function countTestResults(output: string): { passed: number; failed: number } {
+  let passed = 0
+  let failed = 0
+
+  for (const line of output.split('\n')) {
+    if (!line.startsWith('{')) continue
+
+    try {
+      const event = JSON.parse(line)
+      if (event.type !== 'testDone' || event.hidden || event.skipped) continue
+      if (event.result === 'success') passed++
+      else failed++
+    } catch {
+      // Non-JSON output from the tool itself
+    }
+  }
+
+  return { passed, failed }
+}
+
+export function scoreBreakdown(result: BenchmarkCaseResult, tokenTarget: number): Record<string, ScoreComponent> {
+  if (!result.parsed) {
+    return Object.fromEntries(Object.entries(SCORE_WEIGHTS).map(([name, max]) => [name, { earned: 0, max }]))
+  }
+
+  const breakdown: Record<string, ScoreComponent> = {
+    parse: { earned: SCORE_WEIGHTS.parse, max: SCORE_WEIGHTS.parse },
+    files: {
+      earned: result.files.includes('lib/main.dart') ? SCORE_WEIGHTS.files : result.fileCount > 0 ? SCORE_WEIGHTS.files / 2 : 0,
+      max: SCORE_WEIGHTS.files
+    }
+  }
+
+  if (result.analyzer.ran) {
+    const { errors, warnings } = result.analyzer
+    breakdown.analyzer = {
+      // Clean builds lose a point per warning (up to 10); every error costs 4 of the remaining 20
+      earned: errors === 0
+        ? SCORE_WEIGHTS.analyzer - Math.min(10, warnings)
+        : Math.max(0, 20 - errors * 4),
+      max: SCORE_WEIGHTS.analyzer
+    }
+  }
+
+  const testsRun = result.tests.passed + result.tests.failed
+  if (result.tests.ran) {
+    breakdown.tests = {
+      earned: testsRun > 0 ? Math.round((SCORE_WEIGHTS.tests * result.tests.passed) / testsRun) : 0,
+      max: SCORE_WEIGHTS.tests
+    }
+  }
+
+  breakdown.tokens = {
+    earned: result.tokens.total <= tokenTarget
+      ? SCORE_WEIGHTS.tokens
+      : Math.round((SCORE_WEIGHTS.tokens * tokenTarget) / result.tokens.total),
+    max: SCORE_WEIGHTS.tokens
+  }
+
+  return breakdown
+}
+
+export function totalScore(breakdown: Record<string, ScoreComponent>): number {
+  const components = Object.values(breakdown)
+  const max = components.reduce((sum, c) => sum + c.max, 0)
+  const earned = components.reduce((sum, c) => sum + c.earned, 0)
+  return max > 0 ? Math.round((earned / max) * 100) : 0
+}
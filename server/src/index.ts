@@ -1,7 +1,8 @@
+// Loaded first: services read their settings from process.env when their modules are imported
+import 'dotenv/config'
 import express from 'express'
 import cors from 'cors'
 import helmet from 'helmet'
-import dotenv from 'dotenv'
 import { createServer } from 'http'
 import { Server } from 'socket.io'
 import path from 'path'
@@ -9,6 +10,11 @@ import path from 'path'
 import { errorHandler } from './middleware/errorHandler'
 import { rateLimiter } from './middleware/rateLimiter'
 import { logger } from './utils/logger'
+import { llmRegistry } from './services/llm'
+import { generationStreams } from './services/generationStream'
+import { multiAgentService } from './services/multiAgentService'
+import { agentBus } from './agents/shared/AgentCommunication'
+import { sessionStatePersistence } from './services/sessionStateStore'
 
 import apiRoutes from './routes/api'
 import generateRoutes from './routes/generate'
@@ -16,8 +22,7 @@ import previewRoutes from './routes/preview'
 import exportRoutes from './routes/export'
 import hotReloadRoutes from './routes/hotReload'
 import sessionsRoutes from './routes/sessions'
-
-dotenv.config()
+import promptsRoutes from './routes/prompts'
 
 const app = express()
 const server = createServer(app)
@@ -28,6 +33,9 @@ const io = new Server(server, {
   }
 })
 
+generationStreams.attachSocketServer(io)
+agentBus.attachSocketServer(io)
+
 const PORT = process.env.PORT || 8000
 
 // Middleware
@@ -74,6 +82,7 @@ app.use('/api/preview', previewRoutes)
 app.use('/api/export', exportRoutes)
 app.use('/api/hot-reload', hotReloadRoutes)
 app.use('/api/sessions', sessionsRoutes)
+app.use('/api/prompts', promptsRoutes)
 
 // Socket.IO for real-time updates
 io.on('connection', (socket) => {
@@ -104,20 +113,27 @@ app.use('*', (req, res) => {
   })
 })
 
-// Start server
-server.listen(PORT, () => {
-  logger.info(`🚀 Fluttery server running on port ${PORT}`)
-  logger.info(`🔗 Client URL: ${process.env.CLIENT_URL || "http://localhost:3000"}`)
-  logger.info(`📱 Flutter Engine: Ready`)
-  logger.info(`🤖 AI Service: ${process.env.GEMINI_API_KEY ? 'Gemini 2.0 Flash Connected' : 'Not configured'}`)
-})
+// Start server once saved multi-agent sessions are back, so /progress and /continue work for them
+multiAgentService.rehydrate()
+  .catch(error => logger.error('Failed to restore multi-agent sessions:', error))
+  .finally(() => {
+    server.listen(PORT, () => {
+      logger.info(`🚀 Fluttery server running on port ${PORT}`)
+      logger.info(`🔗 Client URL: ${process.env.CLIENT_URL || "http://localhost:3000"}`)
+      logger.info(`📱 Flutter Engine: Ready`)
+      const { provider, model } = llmRegistry.resolve()
+      logger.info(`🤖 AI Service: ${provider.name}/${model}`)
+      logger.info(`💾 Session state: ${sessionStatePersistence.kind}`)
+    })
+  })
 
 // Graceful shutdown
+// Pending session state writes finish before the process exits
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully')
   server.close(() => {
     logger.info('Server closed')
-    process.exit(0)
+    sessionStatePersistence.flush().finally(() => process.exit(0))
   })
 })
 
@@ -125,7 +141,7 @@ process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully')
   server.close(() => {
     logger.info('Server closed')
-    process.exit(0)
+    sessionStatePersistence.flush().finally(() => process.exit(0))
   })
 })
 
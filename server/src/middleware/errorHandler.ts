@@ -1,9 +1,57 @@
 import { Request, Response, NextFunction } from 'express'
 import { logger } from '../utils/logger'
+import { AIError, AIRateLimitError } from '../services/llm/errors'
 
 export interface AppError extends Error {
   statusCode?: number
   isOperational?: boolean
+  // Machine-readable, e.g. AI_RATE_LIMITED
+  code?: string
+  // Structured context for the client, e.g. the guardrail findings behind a block
+  details?: unknown
+}
+
+// Status, code and retry hints for a caught error; AI errors keep their own, anything else is a 500
+export const describeError = (error: unknown) => {
+  if (error instanceof AIError) {
+    return {
+      statusCode: error.statusCode,
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      retryAfter: error instanceof AIRateLimitError ? error.retryAfterSeconds : undefined,
+      details: undefined as unknown
+    }
+  }
+
+  const appError = error as AppError | undefined
+  return {
+    statusCode: appError?.statusCode || 500,
+    code: appError?.code || 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    retryable: false,
+    retryAfter: undefined as number | undefined,
+    details: appError?.details
+  }
+}
+
+// For routes that catch their own errors: `error` stays the route's summary, the rest
+// tells the client what went wrong and whether retrying can help
+export const sendError = (res: Response, error: unknown, summary: string) => {
+  const { statusCode, code, message, retryable, retryAfter, details } = describeError(error)
+
+  if (retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(retryAfter))
+  }
+
+  return res.status(statusCode).json({
+    error: summary,
+    code,
+    message,
+    retryable,
+    retryAfter,
+    details
+  })
 }
 
 export const errorHandler = (
@@ -12,7 +60,8 @@ export const errorHandler = (
   res: Response,
   next: NextFunction
 ) => {
-  const { statusCode = 500, message, stack } = error
+  const { statusCode, code, message, retryable, retryAfter, details } = describeError(error)
+  const { stack } = error
 
   logger.error('Error occurred:', {
     statusCode,
@@ -28,10 +77,17 @@ export const errorHandler = (
   // Don't expose internal errors in production
   const isProduction = process.env.NODE_ENV === 'production'
 
+  if (retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(retryAfter))
+  }
+
   const response: any = {
     error: true,
     statusCode,
+    code,
+    retryable,
     message: isProduction && statusCode === 500 ? 'Internal Server Error' : message,
+    details,
     timestamp: new Date().toISOString(),
     path: req.url
   }
@@ -49,9 +105,10 @@ export const asyncHandler = (fn: Function) => {
   }
 }
 
-export const createError = (message: string, statusCode: number = 500): AppError => {
+export const createError = (message: string, statusCode: number = 500, code?: string): AppError => {
   const error: AppError = new Error(message)
   error.statusCode = statusCode
+  error.code = code
   error.isOperational = true
   return error
 }
\ No newline at end of file
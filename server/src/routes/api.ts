@@ -1,11 +1,24 @@
 import { Router } from 'express'
+import { llmRegistry } from '../services/llm'
+import { usageService } from '../services/usageService'
+import { responseCache } from '../services/responseCache'
+import { guardrailService } from '../services/guardrailService'
 
 const router = Router()
 
 // Health check
 router.get('/health', (req, res) => {
+  // An open circuit means model calls currently fail fast
+  const circuits = llmRegistry.getCircuitStates()
+  const { provider, model } = llmRegistry.resolve()
+
   res.json({
-    status: 'ok',
+    status: circuits.some(c => c.state === 'open') ? 'degraded' : 'ok',
+    llm: {
+      provider: provider.name,
+      model,
+      circuits
+    },
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     memory: process.memoryUsage(),
@@ -35,13 +48,19 @@ router.get('/info', (req, res) => {
 })
 
 // Server stats
-router.get('/stats', (req, res) => {
+router.get('/stats', async (req, res) => {
   res.json({
     uptime: process.uptime(),
     memory: process.memoryUsage(),
     cpu: process.cpuUsage(),
     platform: process.platform,
     nodeVersion: process.version,
+    usage: {
+      ...usageService.getStats(),
+      prices: usageService.getPrices()
+    },
+    responseCache: await responseCache.stats(),
+    guardrails: guardrailService.describePolicy(),
     timestamp: new Date().toISOString()
   })
 })
@@ -1,10 +1,34 @@
-import { Router, Request, Response } from 'express'
+import { Router, Request, Response, NextFunction } from 'express'
 import Joi from 'joi'
+import multer from 'multer'
 import { aiService } from '../services/aiService'
+import { usageService, UsageAttribution } from '../services/usageService'
+import { sessionManager } from '../services/sessionManager'
+import { GENERATION_TEMPLATES } from '../services/generationTemplates'
+import { generationStreams, GenerationStreamEvent } from '../services/generationStream'
+import { openEventStream } from '../utils/sse'
 import { logger } from '../utils/logger'
+import { sendError, describeError, createError } from '../middleware/errorHandler'
 
 const router = Router()
 
+// Generations are charged to the owner of the session they belong to, never to a user named in
+// the request. Calls outside a session are anonymous and have no budget.
+async function sessionUsage(sessionId?: string): Promise<UsageAttribution> {
+  if (!sessionId) return {}
+
+  const session = await sessionManager.getSession(sessionId)
+  if (!session) {
+    throw createError(`Session ${sessionId} not found`, 404, 'SESSION_NOT_FOUND')
+  }
+  return { sessionId, userId: session.userId }
+}
+
+const llmSchema = Joi.object({
+  provider: Joi.string().optional(),
+  model: Joi.string().optional()
+})
+
 const generateSchema = Joi.object({
   prompt: Joi.string().min(10).max(2000).required(),
   currentCode: Joi.string().optional(),
@@ -12,16 +36,64 @@ const generateSchema = Joi.object({
     name: Joi.string().optional(),
     dependencies: Joi.array().items(Joi.string()).optional(),
     firebase: Joi.boolean().optional()
-  }).optional()
+  }).optional(),
+  llm: llmSchema.optional(),
+  // Counts the call against the session's usage and its owner's daily token budget
+  sessionId: Joi.string().optional(),
+  // Always call the model instead of answering from the response cache
+  noCache: Joi.boolean().default(false),
+  // Permit android/, ios/ and build script files; defaults to GUARDRAIL_ALLOW_PLATFORM_FILES
+  allowPlatformFiles: Joi.boolean().optional()
 })
 
+const streamSchema = generateSchema.keys({
+  projectId: Joi.string().optional()
+})
+
+// Multipart fields arrive as strings, so the provider selection is flattened
+const fromImageSchema = Joi.object({
+  prompt: Joi.string().max(2000).allow('').optional(),
+  provider: Joi.string().optional(),
+  model: Joi.string().optional(),
+  sessionId: Joi.string().optional(),
+  noCache: Joi.boolean().default(false),
+  allowPlatformFiles: Joi.boolean().optional()
+})
+
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg']
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: parseInt(process.env.MAX_IMAGE_UPLOAD_BYTES || `${10 * 1024 * 1024}`, 10) },
+  fileFilter: (req, file, cb) => cb(null, IMAGE_MIME_TYPES.includes(file.mimetype))
+})
+
+// Report upload problems (too large, bad multipart) as 400 instead of falling through to the error handler
+function uploadImage(req: Request, res: Response, next: NextFunction) {
+  upload.single('image')(req, res, error => {
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid image upload',
+        message: error.message
+      })
+    }
+    next()
+  })
+}
+
 const improveSchema = Joi.object({
   code: Joi.string().required(),
-  instruction: Joi.string().min(5).max(500).required()
+  instruction: Joi.string().min(5).max(500).required(),
+  llm: llmSchema.optional(),
+  sessionId: Joi.string().optional(),
+  noCache: Joi.boolean().default(false)
 })
 
 const explainSchema = Joi.object({
-  code: Joi.string().required()
+  code: Joi.string().required(),
+  llm: llmSchema.optional(),
+  sessionId: Joi.string().optional(),
+  noCache: Joi.boolean().default(false)
 })
 
 router.post('/', async (req: Request, res: Response) => {
@@ -34,14 +106,20 @@ router.post('/', async (req: Request, res: Response) => {
       })
     }
 
-    const { prompt, currentCode, projectContext } = value
+    const { prompt, currentCode, projectContext, llm, sessionId, noCache, allowPlatformFiles } = value
+    const usage = await sessionUsage(sessionId)
+    usageService.assertWithinBudget(usage.userId)
 
     logger.info(`Code generation request: "${prompt.substring(0, 100)}..."`)
 
     const result = await aiService.generateFlutterCode({
       prompt,
       currentCode,
-      projectContext
+      projectContext,
+      llm,
+      usage,
+      noCache,
+      allowPlatformFiles
     })
 
     res.json({
@@ -49,16 +127,128 @@ router.post('/', async (req: Request, res: Response) => {
       code: result.code,
       dependencies: result.dependencies || [],
       explanation: result.explanation,
-      files: result.files || []
+      files: result.files || [],
+      prompts: result.prompts || [],
+      cached: result.cached || false,
+      guardrails: result.guardrails || []
     })
 
   } catch (error) {
     logger.error('Error in generate route:', error)
 
-    res.status(500).json({
-      error: 'Failed to generate code',
-      message: error instanceof Error ? error.message : 'Unknown error'
+    sendError(res, error, 'Failed to generate code')
+  }
+})
+
+// Streaming variant: Server-Sent Events, mirrored to the project's Socket.IO room when projectId is given
+router.post('/stream', async (req: Request, res: Response) => {
+  const { error, value } = streamSchema.validate(req.body)
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid request data',
+      details: error.details.map(d => d.message)
+    })
+  }
+
+  const { prompt, currentCode, projectContext, llm, projectId, sessionId, noCache, allowPlatformFiles } = value
+
+  let usage: UsageAttribution
+  try {
+    usage = await sessionUsage(sessionId)
+    usageService.assertWithinBudget(usage.userId)
+  } catch (error) {
+    return sendError(res, error, 'Failed to generate code')
+  }
+
+  const stream = openEventStream(res)
+  const emit = (event: GenerationStreamEvent) => {
+    stream.send(event)
+    if (projectId) generationStreams.publish(projectId, event)
+  }
+
+  logger.info(`Streaming code generation request: "${prompt.substring(0, 100)}..."`)
+
+  try {
+    const result = await aiService.generateFlutterCodeStream({
+      prompt,
+      currentCode,
+      projectContext,
+      llm,
+      usage,
+      noCache,
+      allowPlatformFiles
+    }, emit)
+
+    emit({
+      type: 'done',
+      result: {
+        success: true,
+        code: result.code,
+        dependencies: result.dependencies || [],
+        explanation: result.explanation,
+        files: result.files || [],
+        prompts: result.prompts || [],
+        cached: result.cached || false,
+        guardrails: result.guardrails || []
+      }
     })
+  } catch (error) {
+    logger.error('Error in generate stream route:', error)
+    const { code, message, retryable, retryAfter, details } = describeError(error)
+    emit({ type: 'error', error: message, code, retryable, retryAfter, details })
+  } finally {
+    stream.close()
+  }
+})
+
+// Generate a Flutter project from a PNG/JPEG mockup (multipart field "image") plus optional instructions
+router.post('/from-image', uploadImage, async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: ['"image" must be a PNG or JPEG file']
+      })
+    }
+
+    const { error, value } = fromImageSchema.validate(req.body)
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: error.details.map(d => d.message)
+      })
+    }
+
+    const { prompt, provider, model, sessionId, noCache, allowPlatformFiles } = value
+    const usage = await sessionUsage(sessionId)
+    usageService.assertWithinBudget(usage.userId)
+
+    logger.info(`Image generation request: ${req.file.mimetype}, ${req.file.size} bytes`)
+
+    const result = await aiService.generateFlutterCode({
+      prompt: prompt || '',
+      images: [{ mimeType: req.file.mimetype, data: req.file.buffer.toString('base64') }],
+      llm: provider || model ? { provider, model } : undefined,
+      usage,
+      noCache,
+      allowPlatformFiles
+    })
+
+    res.json({
+      success: true,
+      code: result.code,
+      dependencies: result.dependencies || [],
+      explanation: result.explanation,
+      files: result.files || [],
+      prompts: result.prompts || [],
+      cached: result.cached || false,
+      guardrails: result.guardrails || []
+    })
+
+  } catch (error) {
+    logger.error('Error in generate from image route:', error)
+
+    sendError(res, error, 'Failed to generate code from image')
   }
 })
 
@@ -72,11 +262,13 @@ router.post('/improve', async (req: Request, res: Response) => {
       })
     }
 
-    const { code, instruction } = value
+    const { code, instruction, llm, sessionId, noCache } = value
+    const usage = await sessionUsage(sessionId)
+    usageService.assertWithinBudget(usage.userId)
 
     logger.info(`Code improvement request: "${instruction}"`)
 
-    const improvedCode = await aiService.improveCode(code, instruction)
+    const improvedCode = await aiService.improveCode(code, instruction, llm, usage, noCache)
 
     res.json({
       success: true,
@@ -86,10 +278,7 @@ router.post('/improve', async (req: Request, res: Response) => {
   } catch (error) {
     logger.error('Error in improve route:', error)
 
-    res.status(500).json({
-      error: 'Failed to improve code',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    })
+    sendError(res, error, 'Failed to improve code')
   }
 })
 
@@ -103,11 +292,13 @@ router.post('/explain', async (req: Request, res: Response) => {
       })
     }
 
-    const { code } = value
+    const { code, llm, sessionId, noCache } = value
+    const usage = await sessionUsage(sessionId)
+    usageService.assertWithinBudget(usage.userId)
 
     logger.info('Code explanation request')
 
-    const explanation = await aiService.explainCode(code)
+    const explanation = await aiService.explainCode(code, llm, usage, noCache)
 
     res.json({
       success: true,
@@ -117,69 +308,15 @@ router.post('/explain', async (req: Request, res: Response) => {
   } catch (error) {
     logger.error('Error in explain route:', error)
 
-    res.status(500).json({
-      error: 'Failed to explain code',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    })
+    sendError(res, error, 'Failed to explain code')
   }
 })
 
 // Template suggestions endpoint
 router.get('/templates', (req: Request, res: Response) => {
-  const templates = [
-    {
-      id: 'counter',
-      name: 'Counter App',
-      description: 'Simple counter with increment button',
-      prompt: 'Create a simple counter app with increment and decrement buttons'
-    },
-    {
-      id: 'todo',
-      name: 'Todo List',
-      description: 'Todo app with add, delete, and mark complete',
-      prompt: 'Create a todo app with add, delete, and mark complete functionality'
-    },
-    {
-      id: 'weather',
-      name: 'Weather App',
-      description: 'Weather app with current conditions and forecast',
-      prompt: 'Build a weather app that shows current conditions and 5-day forecast'
-    },
-    {
-      id: 'calculator',
-      name: 'Calculator',
-      description: 'Simple calculator with basic operations',
-      prompt: 'Make a simple calculator with basic arithmetic operations'
-    },
-    {
-      id: 'gallery',
-      name: 'Photo Gallery',
-      description: 'Photo gallery with grid view and details',
-      prompt: 'Create a photo gallery app with grid view and detail screen'
-    },
-    {
-      id: 'chat',
-      name: 'Chat Interface',
-      description: 'Chat app with message bubbles',
-      prompt: 'Build a chat interface with message bubbles and send functionality'
-    },
-    {
-      id: 'shopping',
-      name: 'Shopping Cart',
-      description: 'Shopping app with products and cart',
-      prompt: 'Make a shopping cart app with products, cart, and checkout'
-    },
-    {
-      id: 'fitness',
-      name: 'Fitness Tracker',
-      description: 'Fitness app with step counter and progress',
-      prompt: 'Create a fitness tracker with step counter and progress charts'
-    }
-  ]
-
   res.json({
     success: true,
-    templates
+    templates: GENERATION_TEMPLATES
   })
 })
 
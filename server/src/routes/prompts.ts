@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express'
+import { promptRegistry } from '../services/promptRegistry'
+import { logger } from '../utils/logger'
+import { sendError } from '../middleware/errorHandler'
+
+const router = Router()
+
+// Prompt templates with their versions, and each experiment's control vs candidate outcomes
+router.get('/', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      ...promptRegistry.describe()
+    })
+  } catch (error) {
+    logger.error('Error describing prompt registry:', error)
+    sendError(res, error, 'Failed to list prompts')
+  }
+})
+
+// Which template version produced each recent generation; ?sessionId= narrows it to one session
+router.get('/generations', (req: Request, res: Response) => {
+  const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined
+
+  res.json({
+    success: true,
+    generations: promptRegistry.getGenerations(sessionId)
+  })
+})
+
+// Pick up edited templates and manifest changes without a redeploy
+router.post('/reload', (req: Request, res: Response) => {
+  try {
+    promptRegistry.reload()
+
+    res.json({
+      success: true,
+      ...promptRegistry.describe()
+    })
+  } catch (error) {
+    logger.error('Error reloading prompt registry:', error)
+    sendError(res, error, 'Failed to reload prompts')
+  }
+})
+
+export default router
@@ -1,11 +1,16 @@
-import { Router, Request, Response } from 'express'
+import { Router, Request, Response, NextFunction } from 'express'
 import Joi from 'joi'
+import multer from 'multer'
+import fs from 'fs-extra'
 import { sessionManager } from '../services/sessionManager'
-import { MultiAgentService } from '../services/multiAgentService'
+import { multiAgentService } from '../services/multiAgentService'
+import { APPROVAL_CHECKPOINTS } from '../agents/MasterOrchestratorAgent'
+import { HTTP_CLIENT_PACKAGES } from '../services/openApiDartGenerator'
+import { generationStreams } from '../services/generationStream'
+import { usageService } from '../services/usageService'
+import { openEventStream } from '../utils/sse'
 import { logger } from '../utils/logger'
-
-// Initialize multi-agent service
-const multiAgentService = new MultiAgentService(sessionManager)
+import { sendError, describeError } from '../middleware/errorHandler'
 
 const router = Router()
 
@@ -15,10 +20,56 @@ const createSessionSchema = Joi.object({
   appType: Joi.string().valid('mobile', 'web', 'desktop').default('mobile')
 })
 
+const llmSchema = Joi.object({
+  provider: Joi.string().optional(),
+  model: Joi.string().optional()
+})
+
 const updateCodeSchema = Joi.object({
-  prompt: Joi.string().min(5).max(2000).required()
+  prompt: Joi.string().min(5).max(2000).required(),
+  llm: llmSchema.optional(),
+  // Screenshot/mockup for the design agent to start from
+  image: Joi.object({
+    mimeType: Joi.string().valid('image/png', 'image/jpeg').required(),
+    data: Joi.string().base64().required()
+  }).optional(),
+  // Ask clarifying questions first when the prompt is ambiguous
+  clarify: Joi.boolean().default(false),
+  // Pause in 'awaiting_approval' after planning, after the design and/or before files are written
+  approvals: Joi.array().items(Joi.string().valid(...APPROVAL_CHECKPOINTS)).unique().optional(),
+  // Agents always call the model instead of answering from the response cache
+  noCache: Joi.boolean().default(false)
+})
+
+const answersSchema = Joi.object({
+  // question id -> answer; omitted questions use their suggested default
+  answers: Joi.object().pattern(Joi.string(), Joi.string().allow('')).required()
 })
 
+// Response body shared by /code, /code/stream and /answers
+const PROMPT_MESSAGES: Record<string, string> = {
+  awaiting_answers: 'Waiting for answers to clarifying questions',
+  awaiting_approval: 'Waiting for approval'
+}
+
+function toPromptResponse(sessionId: string, previewUrl: string, result: any) {
+  return {
+    success: true,
+    message: PROMPT_MESSAGES[result.status] || 'Multi-agent processing completed',
+    sessionId,
+    status: result.status,
+    progress: result.progress,
+    questions: result.questions,
+    approval: result.approval,
+    data: result.data,
+    previewUrl,
+    flutterProjectGenerated: result.flutterProjectGenerated || false,
+    compileCheck: result.compileCheck,
+    guardrails: result.guardrails || [],
+    nextSteps: result.nextSteps || []
+  }
+}
+
 // Create new session
 router.post('/', async (req: Request, res: Response) => {
   try {
@@ -42,7 +93,9 @@ router.post('/', async (req: Request, res: Response) => {
         id: session.id,
         previewUrl: session.previewUrl,
         status: session.status,
-        createdAt: session.createdAt
+        createdAt: session.createdAt,
+        compileCheck: session.compileCheck,
+        guardrails: session.guardrails || []
       }
     })
 
@@ -101,7 +154,7 @@ router.post('/:sessionId/code', async (req: Request, res: Response) => {
       })
     }
 
-    const { prompt } = value
+    const { prompt, llm, image, clarify, noCache, approvals } = value
 
     const session = await sessionManager.getSession(sessionId)
     if (!session) {
@@ -111,44 +164,200 @@ router.post('/:sessionId/code', async (req: Request, res: Response) => {
       })
     }
 
+    usageService.assertWithinBudget(session.userId)
+
     logger.info(`Processing multi-agent request for session ${sessionId}: "${prompt}"`)
 
     // Check if multi-agent session exists, create if not
     let multiAgentSession = multiAgentService.getSession(sessionId)
     if (!multiAgentSession) {
-      multiAgentSession = await multiAgentService.createSession(sessionId, prompt)
+      multiAgentSession = await multiAgentService.createSession(sessionId, prompt, llm, image)
     }
 
     // Process with multi-agent system
-    const result = await multiAgentService.processUserPrompt(sessionId, prompt)
+    const result = await multiAgentService.processUserPrompt(sessionId, prompt, { llm, referenceImage: image, clarify, noCache, approvals })
 
     if (result.success) {
-      res.json({
-        success: true,
-        message: 'Multi-agent processing completed',
+      res.json(toPromptResponse(sessionId, session.previewUrl, result))
+    } else if (result.aiError) {
+      sendError(res, result.aiError, result.error)
+    } else {
+      res.status(400).json({
+        success: false,
+        error: result.error,
         sessionId,
         status: result.status,
-        progress: result.progress,
-        data: result.data,
-        previewUrl: session.previewUrl,
-        flutterProjectGenerated: result.flutterProjectGenerated || false,
-        nextSteps: result.nextSteps || []
+        guardrails: result.guardrails
+      })
+    }
+
+  } catch (error) {
+    logger.error('Error processing multi-agent request:', error)
+    sendError(res, error, 'Failed to process multi-agent request')
+  }
+})
+
+// Streaming variant of POST /:sessionId/code. Agent output arrives as Server-Sent Events
+// (and in the session's Socket.IO room); the final event carries the same body as /code.
+router.post('/:sessionId/code/stream', async (req: Request, res: Response) => {
+  const { sessionId } = req.params
+  const { error, value } = updateCodeSchema.validate(req.body)
+
+  if (error) {
+    return res.status(400).json({
+      error: 'Invalid request data',
+      details: error.details.map(d => d.message)
+    })
+  }
+
+  const { prompt, llm, image, clarify, noCache, approvals } = value
+
+  const session = await sessionManager.getSession(sessionId)
+  if (!session) {
+    return res.status(404).json({
+      error: 'Session not found',
+      sessionId
+    })
+  }
+
+  // Reject before the event stream opens so the client gets a regular 429
+  try {
+    usageService.assertWithinBudget(session.userId)
+  } catch (error) {
+    return sendError(res, error, 'Failed to process multi-agent request')
+  }
+
+  const stream = openEventStream(res)
+  const unsubscribe = generationStreams.subscribe(sessionId, event => stream.send(event))
+
+  logger.info(`Streaming multi-agent request for session ${sessionId}: "${prompt}"`)
+
+  try {
+    if (!multiAgentService.getSession(sessionId)) {
+      await multiAgentService.createSession(sessionId, prompt, llm, image)
+    }
+
+    const result = await multiAgentService.processUserPrompt(sessionId, prompt, { llm, referenceImage: image, clarify, noCache, approvals })
+
+    if (result.success) {
+      generationStreams.publish(sessionId, {
+        type: 'done',
+        result: toPromptResponse(sessionId, session.previewUrl, result)
       })
+    } else {
+      const { code, retryable, retryAfter } = result.aiError ? describeError(result.aiError) : { code: undefined, retryable: false, retryAfter: undefined }
+      const details = result.guardrails ? { guardrails: result.guardrails } : undefined
+      generationStreams.publish(sessionId, { type: 'error', error: result.error, code, retryable, retryAfter, details })
+    }
+  } catch (error) {
+    logger.error('Error streaming multi-agent request:', error)
+    const { code, message, retryable, retryAfter, details } = describeError(error)
+    generationStreams.publish(sessionId, { type: 'error', error: message, code, retryable, retryAfter, details })
+  } finally {
+    unsubscribe()
+    stream.close()
+  }
+})
+
+// Answer the clarifying questions of a session in 'awaiting_answers' and start planning
+router.post('/:sessionId/answers', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params
+    const { error, value } = answersSchema.validate(req.body)
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: error.details.map(d => d.message)
+      })
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+    const multiAgentSession = multiAgentService.getSession(sessionId)
+    if (!multiAgentSession) {
+      return res.status(404).json({
+        error: 'Session not found',
+        sessionId
+      })
+    }
+    if (!session || !(await projectExists(sessionId))) {
+      return sendProjectGone(res, sessionId, multiAgentSession.status)
+    }
+
+    if (multiAgentSession.status !== 'awaiting_answers') {
+      return res.status(409).json({
+        error: 'Session is not awaiting answers',
+        sessionId,
+        status: multiAgentSession.status
+      })
+    }
+
+    usageService.assertWithinBudget(session.userId)
+
+    const result = await multiAgentService.submitAnswers(sessionId, value.answers)
+
+    if (result.success) {
+      res.json(toPromptResponse(sessionId, session.previewUrl, result))
+    } else if (result.aiError) {
+      sendError(res, result.aiError, result.error)
     } else {
       res.status(400).json({
         success: false,
         error: result.error,
         sessionId,
-        status: result.status
+        status: result.status,
+        guardrails: result.guardrails
       })
     }
 
   } catch (error) {
-    logger.error('Error processing multi-agent request:', error)
-    res.status(500).json({
-      error: 'Failed to process multi-agent request',
-      message: error instanceof Error ? error.message : 'Unknown error'
+    logger.error('Error submitting clarification answers:', error)
+    sendError(res, error, 'Failed to submit answers')
+  }
+})
+
+// Edits go straight to the code edit service, so the build options of updateCodeSchema do not apply
+const editSchema = Joi.object({
+  prompt: Joi.string().min(5).max(2000).required(),
+  llm: llmSchema.optional()
+})
+
+// Apply a follow-up prompt as targeted edits to the session's existing files
+router.post('/:sessionId/edit', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params
+    const { error, value } = editSchema.validate(req.body)
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: error.details.map(d => d.message)
+      })
+    }
+
+    const { prompt, llm } = value
+
+    const session = await sessionManager.getSession(sessionId)
+    if (!session) {
+      return res.status(404).json({
+        error: 'Session not found',
+        sessionId
+      })
+    }
+
+    usageService.assertWithinBudget(session.userId)
+
+    const result = await sessionManager.updateSessionCode(sessionId, prompt, llm)
+
+    res.json({
+      ...result,
+      sessionId,
+      previewUrl: session.previewUrl
     })
+
+  } catch (error) {
+    logger.error('Error applying code edits:', error)
+    sendError(res, error, 'Failed to apply code edits')
   }
 })
 
@@ -205,38 +414,314 @@ router.get('/:sessionId/progress', async (req: Request, res: Response) => {
   }
 })
 
-// Continue multi-agent execution
+// Tokens and estimated cost of every model call made for the session, by agent, plan and model
+router.get('/:sessionId/usage', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params
+
+    const session = await sessionManager.getSession(sessionId)
+    const usage = usageService.getSessionUsage(sessionId)
+    if (!session && !usage) {
+      return res.status(404).json({
+        error: 'Session not found',
+        sessionId
+      })
+    }
+
+    const userId = session?.userId || usage?.userId
+
+    res.json({
+      success: true,
+      sessionId,
+      usage: usage || null,
+      budget: userId ? usageService.getBudgetStatus(userId) : null
+    })
+
+  } catch (error) {
+    logger.error('Error getting session usage:', error)
+    sendError(res, error, 'Failed to get session usage')
+  }
+})
+
+const retryPlanSchema = Joi.object({
+  // Shallow-merged over the payload the orchestrator builds for the plan's agent
+  payload: Joi.object().optional(),
+  // Extra instructions added to the agent's prompt; an empty string clears earlier guidance
+  guidance: Joi.string().max(2000).allow('').optional()
+})
+
+function toExecutionResponse(res: Response, sessionId: string, result: any, message: string) {
+  if (result.success) {
+    res.json({
+      success: true,
+      message,
+      sessionId,
+      status: result.status,
+      progress: result.progress,
+      approval: result.approval,
+      data: result.data,
+      flutterProjectGenerated: result.flutterProjectGenerated || false,
+      compileCheck: result.compileCheck,
+      guardrails: result.guardrails || []
+    })
+  } else if (result.aiError) {
+    sendError(res, result.aiError, result.error)
+  } else {
+    res.status(400).json({
+      success: false,
+      error: result.error,
+      sessionId,
+      status: result.status,
+      progress: result.progress,
+      approval: result.approval,
+      guardrails: result.guardrails
+    })
+  }
+}
+
+// A build restored after a restart keeps its results, but can only go on while its project
+// directory is still there
+async function projectExists(sessionId: string): Promise<boolean> {
+  const session = await sessionManager.getSession(sessionId)
+  return !!session && fs.pathExists(session.projectPath)
+}
+
+function sendProjectGone(res: Response, sessionId: string, status: string) {
+  return res.status(409).json({
+    error: 'Project directory is gone',
+    message: 'The build can be inspected but not resumed; start a new session',
+    sessionId,
+    status
+  })
+}
+
+// Continue multi-agent execution: completed plans keep their results, failed, cancelled and
+// pending plans run again
 router.post('/:sessionId/continue', async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params
 
+    const multiAgentSession = multiAgentService.getSession(sessionId)
+    if (multiAgentSession && !(await projectExists(sessionId))) {
+      return sendProjectGone(res, sessionId, multiAgentSession.status)
+    }
+
+    // The multi-agent context keeps the owner even when the Flutter session could not be restored
+    const session = await sessionManager.getSession(sessionId)
+    usageService.assertWithinBudget(session?.userId ?? multiAgentSession?.context.userId)
+
     const result = await multiAgentService.continueExecution(sessionId)
+    toExecutionResponse(res, sessionId, result, 'Multi-agent execution continued')
 
-    if (result.success) {
-      res.json({
-        success: true,
-        message: 'Multi-agent execution continued',
+  } catch (error) {
+    logger.error('Error continuing multi-agent execution:', error)
+    sendError(res, error, 'Failed to continue execution')
+  }
+})
+
+// Run one plan again, with optional payload edits or guidance; plans depending on it re-run too
+router.post('/:sessionId/plans/:planId/retry', async (req: Request, res: Response) => {
+  try {
+    const { sessionId, planId } = req.params
+    const { error, value } = retryPlanSchema.validate(req.body)
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: error.details.map(d => d.message)
+      })
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+    const multiAgentSession = multiAgentService.getSession(sessionId)
+    if (!multiAgentSession) {
+      return res.status(404).json({
+        error: 'Session not found',
+        sessionId
+      })
+    }
+    if (!session || !(await projectExists(sessionId))) {
+      return sendProjectGone(res, sessionId, multiAgentSession.status)
+    }
+
+    const { plans } = multiAgentSession.orchestrator.getCurrentState()
+    if (!plans.some(plan => plan.id === planId)) {
+      return res.status(404).json({
+        error: 'Plan not found',
         sessionId,
-        status: result.status,
-        progress: result.progress,
-        data: result.data,
-        flutterProjectGenerated: result.flutterProjectGenerated || false
+        planId
       })
-    } else {
-      res.status(400).json({
-        success: false,
-        error: result.error,
+    }
+
+    if (plans.some(plan => plan.status === 'in_progress')) {
+      return res.status(409).json({
+        error: 'Plans are still running',
         sessionId,
-        status: result.status
+        status: multiAgentSession.status
       })
     }
 
+    usageService.assertWithinBudget(session.userId)
+
+    const result = await multiAgentService.retryPlan(sessionId, planId, value)
+    toExecutionResponse(res, sessionId, result, `Plan ${planId} retried`)
+
   } catch (error) {
-    logger.error('Error continuing multi-agent execution:', error)
-    res.status(500).json({
-      error: 'Failed to continue execution',
-      message: error instanceof Error ? error.message : 'Unknown error'
+    logger.error('Error retrying plan:', error)
+    sendError(res, error, 'Failed to retry plan')
+  }
+})
+
+const approvalSchema = Joi.object({
+  action: Joi.string().valid('approve', 'edit', 'reject').required(),
+  // The pending artifact with the user's changes, in the shape GET /approval returns it
+  artifact: Joi.any().when('action', { is: 'edit', then: Joi.required(), otherwise: Joi.forbidden() }),
+  // Sent to the agent that revises the artifact
+  feedback: Joi.string().min(3).max(2000).when('action', { is: 'reject', then: Joi.required(), otherwise: Joi.forbidden() })
+})
+
+// The artifact a session in 'awaiting_approval' is paused on
+router.get('/:sessionId/approval', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params
+
+    const multiAgentSession = multiAgentService.getSession(sessionId)
+    if (!multiAgentSession) {
+      return res.status(404).json({
+        error: 'Multi-agent session not found',
+        sessionId
+      })
+    }
+
+    const approval = multiAgentSession.orchestrator.getCurrentState().pendingApproval
+    if (!approval) {
+      return res.status(404).json({
+        error: 'Session is not awaiting approval',
+        sessionId,
+        status: multiAgentSession.status
+      })
+    }
+
+    res.json({
+      success: true,
+      sessionId,
+      approval
+    })
+
+  } catch (error) {
+    logger.error('Error getting pending approval:', error)
+    sendError(res, error, 'Failed to get pending approval')
+  }
+})
+
+// Approve the pending artifact, replace it with an edited one, or reject it with feedback
+router.post('/:sessionId/approval', async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params
+    const { error, value } = approvalSchema.validate(req.body)
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: error.details.map(d => d.message)
+      })
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+    const multiAgentSession = multiAgentService.getSession(sessionId)
+    if (!multiAgentSession) {
+      return res.status(404).json({
+        error: 'Session not found',
+        sessionId
+      })
+    }
+    if (!session || !(await projectExists(sessionId))) {
+      return sendProjectGone(res, sessionId, multiAgentSession.status)
+    }
+
+    if (multiAgentSession.status !== 'awaiting_approval') {
+      return res.status(409).json({
+        error: 'Session is not awaiting approval',
+        sessionId,
+        status: multiAgentSession.status
+      })
+    }
+
+    usageService.assertWithinBudget(session.userId)
+
+    const result = await multiAgentService.resolveApproval(sessionId, value)
+    toExecutionResponse(res, sessionId, result, value.action === 'reject' ? 'Revised after feedback' : 'Approved')
+
+  } catch (error) {
+    logger.error('Error resolving approval:', error)
+    sendError(res, error, 'Failed to resolve approval')
+  }
+})
+
+const openApiSchema = Joi.object({
+  // The document as a JSON object or JSON text; multipart uploads send it as the "document" file instead
+  document: Joi.alternatives(Joi.object(), Joi.string()).optional(),
+  client: Joi.string().valid(...HTTP_CLIENT_PACKAGES).default('http')
+})
+
+const openApiUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: parseInt(process.env.MAX_OPENAPI_UPLOAD_BYTES || `${2 * 1024 * 1024}`, 10) }
+})
+
+// Report upload problems (too large, bad multipart) as 400 instead of falling through to the error handler
+function uploadOpenApi(req: Request, res: Response, next: NextFunction) {
+  openApiUpload.single('document')(req, res, error => {
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid OpenAPI upload',
+        message: error.message
+      })
+    }
+    next()
+  })
+}
+
+// Store an OpenAPI 3 document for the session; later builds generate a Dart API layer from it
+// and build the app on top of that
+router.post('/:sessionId/openapi', uploadOpenApi, async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params
+    const { error, value } = openApiSchema.validate(req.body)
+    const document = req.file ? req.file.buffer.toString('utf8') : value?.document
+
+    if (error || !document) {
+      return res.status(400).json({
+        error: 'Invalid request data',
+        details: error ? error.details.map(d => d.message) : ['"document" is required']
+      })
+    }
+
+    const session = await sessionManager.getSession(sessionId)
+    if (!session) {
+      return res.status(404).json({
+        error: 'Session not found',
+        sessionId
+      })
+    }
+
+    const api = await multiAgentService.setApiSpec(sessionId, document, value.client)
+
+    res.json({
+      success: true,
+      sessionId,
+      api: {
+        title: api.title,
+        client: api.client,
+        models: api.models,
+        operations: api.operations,
+        files: api.files.map(file => file.path)
+      }
     })
+
+  } catch (error) {
+    logger.error('Error importing OpenAPI document:', error)
+    sendError(res, error, 'Failed to import OpenAPI document')
   }
 })
 
@@ -0,0 +1,107 @@
+import Joi from 'joi'
+import { logger } from '../utils/logger'
+import { AIError } from './llm/errors'
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS || '2', 10)
+const RAW_OUTPUT_PREVIEW_LENGTH = 2000
+
+export class AIOutputValidationError extends AIError {
+  constructor(
+    message: string,
+    public errors: string[],
+    public attempts: number,
+    public rawOutput: string
+  ) {
+    super(message, 'AI_MALFORMED_OUTPUT', 502, true)
+    this.name = 'AIOutputValidationError'
+  }
+}
+
+export interface ValidatedGenerationOptions {
+  label: string
+  prompt: string
+  schema: Joi.Schema
+  // attempt is 0 for the first call and increases with every repair prompt
+  generate: (prompt: string, attempt: number) => Promise<string>
+  maxRepairAttempts?: number
+}
+
+// Models like to wrap JSON in code fences or add a sentence around it
+export function extractJson(text: string): any {
+  const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+
+  try {
+    return JSON.parse(cleaned)
+  } catch (error) {
+    const start = cleaned.indexOf('{')
+    const end = cleaned.lastIndexOf('}')
+    if (start !== -1 && end > start) {
+      return JSON.parse(cleaned.slice(start, end + 1))
+    }
+    throw error
+  }
+}
+
+export function validateOutput<T>(text: string, schema: Joi.Schema): { value?: T; errors: string[] } {
+  if (!text || !text.trim()) {
+    return { errors: ['Response was empty'] }
+  }
+
+  let parsed: any
+  try {
+    parsed = extractJson(text)
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`] }
+  }
+
+  const { error, value } = schema.validate(parsed, { abortEarly: false, allowUnknown: true })
+  if (error) {
+    return { errors: error.details.map(d => d.message) }
+  }
+
+  return { value, errors: [] }
+}
+
+function buildRepairPrompt(prompt: string, rawOutput: string, errors: string[]): string {
+  return `${prompt}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED because it did not match the required JSON format:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Previous response (truncated):
+${rawOutput.substring(0, RAW_OUTPUT_PREVIEW_LENGTH)}
+
+Respond again with ONLY a single valid JSON object in the required format. Do not add any text outside the JSON.`
+}
+
+// Calls the model, validates the output against the schema and re-prompts with the
+// validation errors a bounded number of times before failing with AIOutputValidationError.
+export async function generateValidated<T>(options: ValidatedGenerationOptions): Promise<T> {
+  const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS
+  let prompt = options.prompt
+  let rawOutput = ''
+  let errors: string[] = []
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    rawOutput = await options.generate(prompt, attempt)
+
+    const result = validateOutput<T>(rawOutput, options.schema)
+    if (result.errors.length === 0) {
+      if (attempt > 0) {
+        logger.info(`${options.label}: output repaired after ${attempt} attempt(s)`)
+      }
+      return result.value as T
+    }
+
+    errors = result.errors
+    logger.warn(`${options.label}: invalid output (attempt ${attempt + 1}/${maxRepairAttempts + 1}): ${errors.join('; ')}`)
+    prompt = buildRepairPrompt(options.prompt, rawOutput, errors)
+  }
+
+  throw new AIOutputValidationError(
+    `${options.label} returned invalid output after ${maxRepairAttempts + 1} attempt(s): ${errors.join('; ')}`,
+    errors,
+    maxRepairAttempts + 1,
+    rawOutput
+  )
+}
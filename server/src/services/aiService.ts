@@ -1,35 +1,15 @@
-import { GoogleGenAI } from '@google/genai'
+import Joi from 'joi'
 import { logger } from '../utils/logger'
-
-const API_KEY = process.env.GEMINI_API_KEY || ''
-const modelName = 'gemini-2.0-flash-exp'
-
-// Validate API key on startup
-function validateApiKey(): void {
-  if (!API_KEY) {
-    logger.error('GEMINI_API_KEY environment variable not found')
-    logger.warn('Please add your Google Gemini API key to the .env file')
-    logger.info('Get your API key from: https://makersuite.google.com/app/apikey')
-    return
-  }
-
-  if (API_KEY.length < 30 || API_KEY.startsWith('AAIzaSy')) {
-    logger.error('GEMINI_API_KEY appears to be a placeholder/invalid key')
-    logger.warn(`Current key: ${API_KEY.substring(0, 20)}...`)
-    logger.info('Please replace with a valid Google Gemini API key from: https://makersuite.google.com/app/apikey')
-    logger.info('A valid key should start with "AIza" and be much longer')
-    return
-  }
-
-  logger.info('🔑 Gemini API key validated successfully')
-}
-
-// Initialize with API key validation
-validateApiKey()
-
-const genAI = new GoogleGenAI({
-  apiKey: API_KEY
-})
+import { llmRegistry, LLMCallOptions, ProviderSelection, ImageInput, AIError, AIAuthError } from './llm'
+import { generateValidated } from './aiOutputValidation'
+import { AnalyzerDiagnostic, GeneratedFile } from './compileFixService'
+import { FileEdit, EditConflict } from './codeEditService'
+import { projectContextService, ProjectContext } from './projectContextService'
+import { GenerationStreamEvent, StreamingResponseParser } from './generationStream'
+import { usageService, UsageAttribution } from './usageService'
+import { promptRegistry, PromptRef, formatPromptRef } from './promptRegistry'
+import { responseCache, CacheKeyParts, sha256 } from './responseCache'
+import { guardrailService, GuardrailFinding, GuardrailViolationError } from './guardrailService'
 
 export interface CodeGenerationRequest {
   prompt: string
@@ -39,6 +19,14 @@ export interface CodeGenerationRequest {
     dependencies: string[]
     firebase: boolean
   }
+  // A mockup or screenshot to recreate; prompt then only adds instructions
+  images?: ImageInput[]
+  llm?: ProviderSelection
+  usage?: UsageAttribution
+  // Skip the response cache and always call the model
+  noCache?: boolean
+  // Let the model write platform projects and build scripts (android/, ios/, Gradle, ...)
+  allowPlatformFiles?: boolean
 }
 
 export interface CodeGenerationResponse {
@@ -49,337 +37,406 @@ export interface CodeGenerationResponse {
     path: string
     content: string
   }>
+  // Template versions the generation prompt was built from
+  prompts?: PromptRef[]
+  // Served from the response cache without a model call
+  cached?: boolean
+  // What the guardrails flagged, stripped or would have blocked in the files
+  guardrails?: GuardrailFinding[]
+}
+
+interface CodeGenerationOutput {
+  explanation?: string
+  files: Array<{ path: string; content: string }>
+  dependencies: string[]
 }
 
-const FLUTTER_SYSTEM_PROMPT = `You are an expert Flutter developer and code generator. Your job is to convert plain English descriptions into high-quality, production-ready Flutter applications with proper file structure.
+const CODE_GENERATION_SCHEMA = Joi.object({
+  explanation: Joi.string().allow('').optional(),
+  files: Joi.array().items(Joi.object({
+    path: Joi.string().required(),
+    content: Joi.string().allow('').required()
+  })).min(1).required(),
+  dependencies: Joi.array().items(Joi.string()).default([])
+})
+
+const FIXED_FILES_SCHEMA = Joi.object({
+  files: Joi.array().items(Joi.object({
+    path: Joi.string().required(),
+    content: Joi.string().allow('').required()
+  })).min(1).required()
+})
 
-IMPORTANT: You must respond with a JSON object containing multiple files for a complete Flutter project structure.
+const FILE_EDIT_SCHEMA = Joi.object({
+  path: Joi.string().required(),
+  blocks: Joi.array().items(Joi.object({
+    search: Joi.string().min(1).required(),
+    replace: Joi.string().allow('').required()
+  })).optional(),
+  diff: Joi.string().optional(),
+  content: Joi.string().allow('').optional()
+}).or('blocks', 'diff', 'content')
+
+const CODE_EDITS_SCHEMA = Joi.object({
+  explanation: Joi.string().allow('').default(''),
+  edits: Joi.array().items(FILE_EDIT_SCHEMA).min(1).required(),
+  dependencies: Joi.array().items(Joi.string()).default([])
+})
 
-Response format:
+const EDIT_FORMAT_INSTRUCTIONS = `Respond with ONLY a JSON object describing targeted edits:
 {
-  "explanation": "Brief explanation of what you're building",
-  "files": [
+  "explanation": "What you changed and why",
+  "edits": [
     {
-      "path": "lib/main.dart",
-      "content": "// Flutter code here"
+      "path": "lib/screens/home_screen.dart",
+      "blocks": [
+        { "search": "exact lines copied from the current file", "replace": "the new lines" }
+      ]
     },
     {
-      "path": "lib/screens/home_screen.dart",
-      "content": "// Screen code here"
+      "path": "lib/widgets/new_widget.dart",
+      "content": "complete content of a NEW file"
     }
-    // ... more files as needed
   ],
-  "dependencies": ["package1", "package2"]
+  "dependencies": ["package_name"]
 }
 
-Key guidelines:
-1. Generate complete, runnable Flutter code with proper file structure
-2. Use modern Flutter best practices (Flutter 3.x)
-3. Create separate files for screens, widgets, models, services
-4. Include proper imports and dependencies
-5. Follow Material Design principles
-6. Add proper error handling and loading states
-7. Make code responsive and mobile-friendly
-8. Use proper state management (setState, Provider, Bloc, etc.)
-9. Ensure code is well-structured with proper separation of concerns
-10. Add Firebase integration when requested
-11. Include models, services, and utilities in separate files
-12. Create reusable widgets in separate files
-
-Always create a proper Flutter project structure with multiple files, not just a single main.dart file.`
-
-const FLUTTER_CODE_EXAMPLES = `
-Example 1 - Simple Counter App:
-import 'package:flutter/material.dart';
-
-void main() => runApp(MyApp());
-
-class MyApp extends StatelessWidget {
-  @override
-  Widget build(BuildContext context) {
-    return MaterialApp(
-      title: 'Counter App',
-      theme: ThemeData(primarySwatch: Colors.blue),
-      home: CounterPage(),
-    );
-  }
-}
+Rules:
+- "search" must be copied character-for-character from the current file and must occur exactly once in it; include enough surrounding lines to make it unique.
+- Keep blocks small: only the lines that change plus minimal context.
+- Instead of "blocks" you may give a unified diff in "diff" (with @@ hunk headers).
+- Use "content" only for files that do not exist yet.
+- Do not touch files that the request does not require changing.`
 
-class CounterPage extends StatefulWidget {
-  @override
-  _CounterPageState createState() => _CounterPageState();
-}
+export class AIService {
+  private static instance: AIService
 
-class _CounterPageState extends State<CounterPage> {
-  int _counter = 0;
-
-  @override
-  Widget build(BuildContext context) {
-    return Scaffold(
-      appBar: AppBar(title: Text('Counter')),
-      body: Center(
-        child: Text('$_counter', style: Theme.of(context).textTheme.headlineLarge),
-      ),
-      floatingActionButton: FloatingActionButton(
-        onPressed: () => setState(() => _counter++),
-        child: Icon(Icons.add),
-      ),
-    );
+  static getInstance(): AIService {
+    if (!AIService.instance) {
+      AIService.instance = new AIService()
+    }
+    return AIService.instance
   }
-}
 
-Example 2 - Todo App with Firebase:
-import 'package:flutter/material.dart';
-import 'package:cloud_firestore/cloud_firestore.dart';
-import 'package:firebase_core/firebase_core.dart';
+  async generateFlutterCode(request: CodeGenerationRequest): Promise<CodeGenerationResponse> {
+    const startedAt = Date.now()
+    let refs: PromptRef[] = []
+    let attempts = 0
 
-void main() async {
-  WidgetsFlutterBinding.ensureInitialized();
-  await Firebase.initializeApp();
-  runApp(MyApp());
-}
+    try {
+      logger.info(`Generating Flutter code for prompt: "${request.prompt.substring(0, 100)}..."`)
+
+      const generationPrompt = this.buildGenerationPrompt(request)
+      refs = generationPrompt.refs
+
+      const { value: output, cached } = await responseCache.getOrCompute(
+        this.generationCacheKey(request, refs),
+        () => generateValidated<CodeGenerationOutput>({
+          label: 'Flutter code generation',
+          prompt: generationPrompt.text,
+          schema: CODE_GENERATION_SCHEMA,
+          generate: async prompt => {
+            attempts++
+            const result = await this.callModel({ contents: prompt, images: request.images, selection: request.llm }, request.usage)
+            logger.info(`Flutter project generated with ${result.provider}/${result.model}`)
+            return result.text
+          }
+        }),
+        { noCache: request.noCache }
+      )
 
-class MyApp extends StatelessWidget {
-  @override
-  Widget build(BuildContext context) {
-    return MaterialApp(
-      title: 'Todo App',
-      theme: ThemeData(primarySwatch: Colors.green),
-      home: TodoList(),
-    );
+      if (!cached) {
+        this.recordPromptOutcome(refs, true, startedAt, attempts, request.usage)
+      }
+      return { ...this.toCodeGenerationResponse(output, request, refs), cached }
+    } catch (error) {
+      this.recordPromptOutcome(refs, false, startedAt, attempts, request.usage)
+      throw this.toGenerationError(error)
+    }
   }
-}
 
-class Todo {
-  final String id;
-  final String text;
-  final bool completed;
+  // Same as generateFlutterCode, but reports tokens, the explanation and each completed file as they arrive.
+  // Only the first attempt is streamed; repair prompts run as regular calls.
+  async generateFlutterCodeStream(
+    request: CodeGenerationRequest,
+    onEvent: (event: GenerationStreamEvent) => void
+  ): Promise<CodeGenerationResponse> {
+    const startedAt = Date.now()
+    let refs: PromptRef[] = []
+    let attempts = 0
 
-  Todo({required this.id, required this.text, this.completed = false});
+    try {
+      logger.info(`Streaming Flutter code for prompt: "${request.prompt.substring(0, 100)}..."`)
+
+      const generationPrompt = this.buildGenerationPrompt(request)
+      refs = generationPrompt.refs
+
+      const { value: output, cached } = await responseCache.getOrCompute(
+        this.generationCacheKey(request, refs),
+        () => generateValidated<CodeGenerationOutput>({
+          label: 'Flutter code generation',
+          prompt: generationPrompt.text,
+          schema: CODE_GENERATION_SCHEMA,
+          generate: async (prompt, attempt) => {
+            attempts++
+            const options: LLMCallOptions = {
+              contents: prompt,
+              images: request.images,
+              selection: request.llm,
+              onRetry: info => onEvent({
+                type: 'retry',
+                attempt: info.attempt,
+                maxAttempts: info.maxAttempts,
+                delayMs: info.delayMs,
+                reason: info.error.code
+              })
+            }
+
+            if (attempt > 0) {
+              return (await this.callModel(options, request.usage)).text
+            }
+
+            const parser = new StreamingResponseParser()
+            const result = await llmRegistry.generateContentStream(options, chunk => {
+              onEvent({ type: 'token', text: chunk })
+              parser.push(chunk).forEach(onEvent)
+            })
+            usageService.record(result, prompt, request.usage)
+            logger.info(`Flutter project streamed with ${result.provider}/${result.model}`)
+            return result.text
+          }
+        }),
+        { noCache: request.noCache }
+      )
+
+      if (cached) {
+        // Nothing was streamed, so replay the parts a client would have seen
+        if (output.explanation) onEvent({ type: 'explanation', text: output.explanation })
+        output.files.forEach((file, index) => onEvent({ type: 'file', file, index }))
+      } else {
+        this.recordPromptOutcome(refs, true, startedAt, attempts, request.usage)
+      }
+      return { ...this.toCodeGenerationResponse(output, request, refs), cached }
+    } catch (error) {
+      this.recordPromptOutcome(refs, false, startedAt, attempts, request.usage)
+      throw this.toGenerationError(error)
+    }
+  }
 
-  Map<String, dynamic> toMap() => {
-    'text': text,
-    'completed': completed,
-    'createdAt': FieldValue.serverTimestamp(),
-  };
-}
+  // Every non-streaming model call of this service goes through here so its tokens are counted
+  private async callModel(options: LLMCallOptions, usage?: UsageAttribution) {
+    const result = await llmRegistry.generateContent(options)
+    usageService.record(result, options.contents, usage)
+    return result
+  }
 
-class TodoList extends StatefulWidget {
-  @override
-  _TodoListState createState() => _TodoListState();
-}
+  private generationCacheKey(request: CodeGenerationRequest, refs: PromptRef[]): CacheKeyParts {
+    const { provider, model } = llmRegistry.resolve(request.llm)
+
+    return {
+      scope: 'generate',
+      prompt: request.prompt,
+      currentCode: request.currentCode,
+      model: `${provider.name}/${model}`,
+      templates: refs.map(formatPromptRef),
+      extra: {
+        projectContext: request.projectContext || null,
+        images: request.images?.map(image => sha256(image.data)) || []
+      }
+    }
+  }
 
-class _TodoListState extends State<TodoList> {
-  final FirebaseFirestore _firestore = FirebaseFirestore.instance;
-  final TextEditingController _controller = TextEditingController();
-
-  @override
-  Widget build(BuildContext context) {
-    return Scaffold(
-      appBar: AppBar(title: Text('Todo List')),
-      body: Column(
-        children: [
-          Padding(
-            padding: EdgeInsets.all(16),
-            child: Row(
-              children: [
-                Expanded(
-                  child: TextField(
-                    controller: _controller,
-                    decoration: InputDecoration(hintText: 'Add a todo'),
-                  ),
-                ),
-                IconButton(
-                  icon: Icon(Icons.add),
-                  onPressed: _addTodo,
-                ),
-              ],
-            ),
-          ),
-          Expanded(
-            child: StreamBuilder<QuerySnapshot>(
-              stream: _firestore.collection('todos').snapshots(),
-              builder: (context, snapshot) {
-                if (!snapshot.hasData) {
-                  return Center(child: CircularProgressIndicator());
-                }
-                return ListView.builder(
-                  itemCount: snapshot.data!.docs.length,
-                  itemBuilder: (context, index) {
-                    var todo = snapshot.data!.docs[index];
-                    return ListTile(
-                      title: Text(todo['text']),
-                      trailing: IconButton(
-                        icon: Icon(Icons.delete),
-                        onPressed: () => _deleteTodo(todo.id),
-                      ),
-                    );
-                  },
-                );
-              },
-            ),
-          ),
-        ],
-      ),
-    );
+  // A session (or else the user) always gets the same experiment arm
+  private routingKey(usage?: UsageAttribution): string | undefined {
+    return usage?.sessionId || usage?.userId
   }
 
-  void _addTodo() {
-    if (_controller.text.isNotEmpty) {
-      _firestore.collection('todos').add({
-        'text': _controller.text,
-        'completed': false,
-        'createdAt': FieldValue.serverTimestamp(),
-      });
-      _controller.clear();
+  private recordPromptOutcome(refs: PromptRef[], success: boolean, startedAt: number, attempts: number, usage?: UsageAttribution): void {
+    for (const ref of refs) {
+      promptRegistry.recordOutcome(ref, { success, latencyMs: Date.now() - startedAt, attempts }, { sessionId: usage?.sessionId })
     }
   }
 
-  void _deleteTodo(String id) {
-    _firestore.collection('todos').doc(id).delete();
+  private buildGenerationPrompt(request: CodeGenerationRequest): { text: string; refs: PromptRef[] } {
+    const routingKey = this.routingKey(request.usage)
+    const system = promptRegistry.render('flutter-system', {}, routingKey)
+    const examples = promptRegistry.render('flutter-examples', {}, routingKey)
+
+    let prompt = system.text + '\n\nHere are some examples:\n' + examples.text + '\n\n'
+
+    if (request.images?.length) {
+      prompt += `The attached image is a UI mockup or screenshot. Recreate it as a Flutter app that matches its layout, colors, typography and spacing as closely as possible. Split it into separate screen and widget files, and use placeholder data for any content shown.`
+      if (request.prompt) {
+        prompt += `\n\nAdditional instructions: ${request.prompt}`
+      }
+    } else if (request.currentCode) {
+      prompt += `Here is my current Flutter code:\n\`\`\`dart\n${request.currentCode}\n\`\`\`\n\nNow I want to: ${request.prompt}\n\nPlease modify or extend this code to implement the requested functionality. Provide the complete updated code.`
+    } else {
+      prompt += `Create a Flutter app that: ${request.prompt}\n\nProvide complete, runnable Flutter code with proper structure and best practices.`
+    }
+
+    return { text: prompt, refs: [system.ref, examples.ref] }
   }
-}
-`
 
-export class AIService {
-  private static instance: AIService
+  // The cache holds the raw output, so guardrail policy changes also apply to cached generations
+  private toCodeGenerationResponse(output: CodeGenerationOutput, request: CodeGenerationRequest, refs: PromptRef[]): CodeGenerationResponse {
+    const { files, findings } = guardrailService.enforce(output.files, { allowPlatformFiles: request.allowPlatformFiles })
+
+    return {
+      code: files.find(f => f.path === 'lib/main.dart')?.content || files[0]?.content || '',
+      dependencies: output.dependencies,
+      explanation: output.explanation || `Generated Flutter project for: ${request.prompt}`,
+      files,
+      prompts: refs,
+      guardrails: findings
+    }
+  }
 
-  static getInstance(): AIService {
-    if (!AIService.instance) {
-      AIService.instance = new AIService()
+  // Typed AI errors already carry their status and code; anything else is an internal failure
+  private toGenerationError(error: unknown): Error {
+    logger.error('Error generating Flutter code:', error)
+
+    if (error instanceof AIAuthError && error.provider === 'gemini') {
+      logger.info('Check GEMINI_API_KEY in the .env file. Get a valid key from: https://makersuite.google.com/app/apikey')
     }
-    return AIService.instance
+
+    if (error instanceof AIError || error instanceof GuardrailViolationError) {
+      return error
+    }
+
+    return new Error(`Failed to generate Flutter code: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 
-  async generateFlutterCode(request: CodeGenerationRequest): Promise<CodeGenerationResponse> {
-    try {
-      logger.info(`Generating Flutter code for prompt: "${request.prompt.substring(0, 100)}..."`)
+  // Follow-up prompts: ask for search/replace edits against the current files instead of whole files
+  async generateCodeEdits(
+    prompt: string,
+    context: ProjectContext,
+    llm?: ProviderSelection,
+    usage?: UsageAttribution
+  ): Promise<{ explanation: string; edits: FileEdit[]; dependencies: string[] }> {
+    const fullPrompt = `You are an expert Flutter developer editing an existing Flutter project.
 
-      let prompt = FLUTTER_SYSTEM_PROMPT + '\n\nHere are some examples:\n' + FLUTTER_CODE_EXAMPLES + '\n\n'
+CURRENT PROJECT FILES:
+${projectContextService.format(context)}
 
-      if (request.currentCode) {
-        prompt += `Here is my current Flutter code:\n\`\`\`dart\n${request.currentCode}\n\`\`\`\n\nNow I want to: ${request.prompt}\n\nPlease modify or extend this code to implement the requested functionality. Provide the complete updated code.`
-      } else {
-        prompt += `Create a Flutter app that: ${request.prompt}\n\nProvide complete, runnable Flutter code with proper structure and best practices.`
-      }
+REQUESTED CHANGE: ${prompt}
 
-      const result = await genAI.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-          temperature: 0.7,
-          topP: 0.8,
-          topK: 40,
-          maxOutputTokens: 8192
-        }
-      })
-      let generatedContent = result.text
-
-      if (!generatedContent) {
-        throw new Error('No code generated from AI service')
-      }
+Classes and functions listed above already exist: import and reuse them, never declare them again.
+Only edit files whose full content is shown; create new files for anything else.
 
-      // Clean up the response and extract JSON
-      generatedContent = generatedContent.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+${EDIT_FORMAT_INSTRUCTIONS}`
 
-      try {
-        // Try to parse as JSON first
-        const jsonResponse = JSON.parse(generatedContent)
+    return generateValidated({
+      label: 'Flutter code edits',
+      prompt: fullPrompt,
+      schema: CODE_EDITS_SCHEMA,
+      generate: async contents => (await this.callModel({ contents, selection: llm }, usage)).text
+    })
+  }
 
-        if (jsonResponse.files && Array.isArray(jsonResponse.files)) {
-          // Return structured response with multiple files
-          logger.info('Flutter project generated successfully with Gemini 2.0 Flash')
+  // Re-prompts only the edit blocks that failed exact-match verification
+  async repairCodeEdits(
+    prompt: string,
+    conflicts: EditConflict[],
+    files: GeneratedFile[],
+    llm?: ProviderSelection,
+    usage?: UsageAttribution
+  ): Promise<FileEdit[]> {
+    const conflictList = conflicts
+      .map((c, i) => `${i + 1}. ${c.path} (${c.reason === 'ambiguous' ? 'search text matched more than once' : c.reason === 'missing_file' ? 'file does not exist' : 'search text not found'})\nSEARCH:\n${c.search}\nREPLACE:\n${c.replace}`)
+      .join('\n\n')
+    const fileList = files
+      .map(f => `FILE: ${f.path}\n\`\`\`dart\n${f.content}\n\`\`\``)
+      .join('\n\n')
 
-          return {
-            code: jsonResponse.files.find((f: any) => f.path === 'lib/main.dart')?.content || jsonResponse.files[0]?.content || '',
-            dependencies: jsonResponse.dependencies || [],
-            explanation: jsonResponse.explanation || `Generated Flutter project for: ${request.prompt}`,
-            files: jsonResponse.files || []
-          }
-        }
-      } catch (jsonError) {
-        logger.warn('Failed to parse JSON response, falling back to text parsing')
-      }
+    const fullPrompt = `You are an expert Flutter developer. While applying edits for the request "${prompt}", these blocks could not be applied:
 
-      // Fallback: Extract code from markdown code blocks
-      const codeMatch = generatedContent.match(/```(?:dart|flutter)?\n([\s\S]*?)\n```/)
-      const code = codeMatch ? codeMatch[1] : generatedContent
+${conflictList}
 
-      // Extract dependencies from code
-      const dependencies = this.extractDependencies(code)
+CURRENT CONTENT OF THE AFFECTED FILES:
+${fileList}
 
-      logger.info('Flutter code generated successfully with Gemini 2.0 Flash (fallback)')
+Re-issue ONLY these edits so that each "search" matches the current file exactly once.
 
-      return {
-        code: code.trim(),
-        dependencies,
-        explanation: `Generated Flutter code for: ${request.prompt}`,
-        files: [{
-          path: 'lib/main.dart',
-          content: code.trim()
-        }]
-      }
+${EDIT_FORMAT_INSTRUCTIONS}`
 
-    } catch (error) {
-      logger.error('Error generating Flutter code:', error)
-
-      // Provide specific error messages for common issues
-      if (error instanceof Error) {
-        if (error.message.includes('403')) {
-          const detailedMessage = 'Google Gemini API authentication failed. Please check your API key in the .env file. Get a valid key from: https://makersuite.google.com/app/apikey'
-          logger.error('API Key Error:', detailedMessage)
-          throw new Error(`API Authentication Error: Invalid or missing Gemini API key. ${detailedMessage}`)
-        }
-
-        if (error.message.includes('quota') || error.message.includes('limit')) {
-          throw new Error(`API Quota Error: ${error.message}. Please check your Google Cloud billing or API quotas.`)
-        }
-
-        if (error.message.includes('network') || error.message.includes('timeout')) {
-          throw new Error(`Network Error: ${error.message}. Please check your internet connection.`)
-        }
-      }
+    const output = await generateValidated<{ edits: FileEdit[] }>({
+      label: 'Flutter code edit repair',
+      prompt: fullPrompt,
+      schema: CODE_EDITS_SCHEMA,
+      generate: async contents => (await this.callModel({ contents, selection: llm }, usage)).text
+    })
 
-      throw new Error(`Failed to generate Flutter code: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
+    return output.edits
   }
 
-  private extractDependencies(code: string): string[] {
-    const dependencies: string[] = []
-    const imports = code.match(/import\s+['"](package:.+?)['"];?/g) || []
+  // Asks the model to correct the files `dart analyze` reported errors in
+  async fixAnalyzerErrors(
+    originalPrompt: string,
+    files: GeneratedFile[],
+    diagnostics: AnalyzerDiagnostic[],
+    llm?: ProviderSelection,
+    usage?: UsageAttribution
+  ): Promise<GeneratedFile[]> {
+    const errorList = diagnostics
+      .map(d => `- ${d.file}:${d.line}:${d.column} [${d.code}] ${d.message}`)
+      .join('\n')
+    const fileList = files
+      .map(f => `FILE: ${f.path}\n\`\`\`dart\n${f.content}\n\`\`\``)
+      .join('\n\n')
+
+    const prompt = `You are an expert Flutter developer. The following Flutter project was generated for this request: "${originalPrompt}"
+
+Running \`dart analyze\` reported these errors:
+${errorList}
+
+Here are the files containing the errors:
+${fileList}
+
+Fix every error while keeping the intended functionality. Respond with ONLY a JSON object:
+{
+  "files": [
+    { "path": "lib/...", "content": "complete corrected file content" }
+  ]
+}
+Include only the files you changed, each with its complete content.`
 
-    for (const imp of imports) {
-      const match = imp.match(/package:([^/]+)/)
-      if (match && match[1] && !['flutter'].includes(match[1])) {
-        dependencies.push(match[1])
-      }
-    }
+    const output = await generateValidated<{ files: GeneratedFile[] }>({
+      label: 'Analyzer error fix',
+      prompt,
+      schema: FIXED_FILES_SCHEMA,
+      generate: async contents => (await this.callModel({ contents, selection: llm }, usage)).text
+    })
 
-    return Array.from(new Set(dependencies))
+    return output.files
   }
 
-  async improveCode(code: string, instruction: string): Promise<string> {
+  async improveCode(code: string, instruction: string, llm?: ProviderSelection, usage?: UsageAttribution, noCache = false): Promise<string> {
     try {
-      const prompt = `${FLUTTER_SYSTEM_PROMPT}\n\nHere is Flutter code:\n\`\`\`dart\n${code}\n\`\`\`\n\nPlease improve it by: ${instruction}\n\nReturn only the improved Flutter code.`
-
-      const result = await genAI.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-          temperature: 0.7,
-          topP: 0.8,
-          topK: 40,
-          maxOutputTokens: 8192
-        }
-      })
-      const improvedContent = result.text
-
-      if (!improvedContent) {
-        throw new Error('No improved code generated')
-      }
+      const system = promptRegistry.render('flutter-system', {}, this.routingKey(usage))
+      const prompt = `${system.text}\n\nHere is Flutter code:\n\`\`\`dart\n${code}\n\`\`\`\n\nPlease improve it by: ${instruction}\n\nReturn only the improved Flutter code.`
+      const { provider, model } = llmRegistry.resolve(llm)
+
+      const { value } = await responseCache.getOrCompute(
+        { scope: 'improve', prompt: instruction, currentCode: code, model: `${provider.name}/${model}`, templates: [formatPromptRef(system.ref)] },
+        async () => {
+          const result = await this.callModel({
+            contents: prompt,
+            selection: llm
+          }, usage)
+          const improvedContent = result.text
+
+          if (!improvedContent) {
+            throw new AIError('No improved code generated', 'AI_MALFORMED_OUTPUT', 502, true, result.provider)
+          }
+
+          const codeMatch = improvedContent.match(/```(?:dart|flutter)?\n([\s\S]*?)\n```/)
+          return codeMatch ? codeMatch[1].trim() : improvedContent.trim()
+        },
+        { noCache }
+      )
 
-      const codeMatch = improvedContent.match(/```(?:dart|flutter)?\n([\s\S]*?)\n```/)
-      return codeMatch ? codeMatch[1].trim() : improvedContent.trim()
+      return value
 
     } catch (error) {
       logger.error('Error improving code:', error)
@@ -387,22 +444,30 @@ export class AIService {
     }
   }
 
-  async explainCode(code: string): Promise<string> {
+  async explainCode(code: string, llm?: ProviderSelection, usage?: UsageAttribution, noCache = false): Promise<string> {
     try {
       const prompt = `You are a Flutter expert. Explain Flutter code in a clear, educational way.\n\nPlease explain this Flutter code:\n\`\`\`dart\n${code}\n\`\`\``
+      const { provider, model } = llmRegistry.resolve(llm)
+
+      const { value } = await responseCache.getOrCompute(
+        { scope: 'explain', prompt, model: `${provider.name}/${model}` },
+        async () => {
+          const result = await this.callModel({
+            contents: prompt,
+            selection: llm
+          }, usage)
+
+          // Thrown rather than returned, so an empty answer is not cached
+          if (!result.text) {
+            throw new AIError('No explanation generated', 'AI_MALFORMED_OUTPUT', 502, true, result.provider)
+          }
+
+          return result.text
+        },
+        { noCache }
+      )
 
-      const result = await genAI.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-          temperature: 0.7,
-          topP: 0.8,
-          topK: 40,
-          maxOutputTokens: 8192
-        }
-      })
-
-      return result.text || 'Unable to explain code'
+      return value
 
     } catch (error) {
       logger.error('Error explaining code:', error)
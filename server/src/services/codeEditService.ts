@@ -0,0 +1,200 @@
+import fs from 'fs-extra'
+import path from 'path'
+import { logger } from '../utils/logger'
+import { aiService } from './aiService'
+import { GeneratedFile } from './compileFixService'
+import { ProjectContext } from './projectContextService'
+import { ProviderSelection } from './llm'
+import { UsageAttribution } from './usageService'
+import { guardrailService, GuardrailFinding } from './guardrailService'
+
+export interface SearchReplaceBlock {
+  search: string
+  replace: string
+}
+
+// One entry per touched file: search/replace blocks, a unified diff, or full content for new files
+export interface FileEdit {
+  path: string
+  blocks?: SearchReplaceBlock[]
+  diff?: string
+  content?: string
+}
+
+export interface EditConflict {
+  path: string
+  search: string
+  replace: string
+  reason: 'not_found' | 'ambiguous' | 'missing_file'
+}
+
+export interface EditApplyResult {
+  files: Map<string, string>
+  changedPaths: string[]
+  conflicts: EditConflict[]
+}
+
+export interface EditProjectResult {
+  explanation: string
+  dependencies: string[]
+  changedFiles: GeneratedFile[]
+  conflicts: EditConflict[]
+  repairRounds: number
+  guardrails: GuardrailFinding[]
+}
+
+const MAX_EDIT_REPAIR_ROUNDS = parseInt(process.env.EDIT_REPAIR_ROUNDS || '2', 10)
+
+// Turns each unified diff hunk into a search/replace block (context + removed -> context + added)
+export function diffToBlocks(diff: string): SearchReplaceBlock[] {
+  const blocks: SearchReplaceBlock[] = []
+  let search: string[] | null = null
+  let replace: string[] = []
+
+  const flush = () => {
+    if (search) blocks.push({ search: search.join('\n'), replace: replace.join('\n') })
+    search = null
+    replace = []
+  }
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('@@')) {
+      flush()
+      search = []
+    } else if (search === null || line.startsWith('---') || line.startsWith('+++')) {
+      continue
+    } else if (line.startsWith('-')) {
+      search.push(line.slice(1))
+    } else if (line.startsWith('+')) {
+      replace.push(line.slice(1))
+    } else if (line.startsWith(' ') || line === '') {
+      search.push(line.slice(1))
+      replace.push(line.slice(1))
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  if (!needle) return 0
+
+  let count = 0
+  let index = haystack.indexOf(needle)
+  while (index !== -1) {
+    count++
+    index = haystack.indexOf(needle, index + needle.length)
+  }
+  return count
+}
+
+// Applies edits to an in-memory copy of the project. A block only applies when its
+// search text occurs exactly once in the current file; everything else is a conflict.
+export function applyEdits(current: Map<string, string>, edits: FileEdit[]): EditApplyResult {
+  const files = new Map(current)
+  const changed = new Set<string>()
+  const conflicts: EditConflict[] = []
+
+  for (const edit of edits) {
+    if (edit.content !== undefined && !edit.blocks && !edit.diff) {
+      files.set(edit.path, edit.content)
+      changed.add(edit.path)
+      continue
+    }
+
+    const blocks = [...(edit.blocks || []), ...(edit.diff ? diffToBlocks(edit.diff) : [])]
+    let content = files.get(edit.path)
+
+    for (const block of blocks) {
+      if (content === undefined) {
+        conflicts.push({ ...block, path: edit.path, reason: 'missing_file' })
+        continue
+      }
+
+      const occurrences = countOccurrences(content, block.search)
+      if (occurrences !== 1) {
+        conflicts.push({ ...block, path: edit.path, reason: occurrences === 0 ? 'not_found' : 'ambiguous' })
+        continue
+      }
+
+      content = content.replace(block.search, () => block.replace)
+      changed.add(edit.path)
+    }
+
+    if (content !== undefined) {
+      files.set(edit.path, content)
+    }
+  }
+
+  return { files, changedPaths: Array.from(changed), conflicts }
+}
+
+export class CodeEditService {
+  private static instance: CodeEditService
+
+  static getInstance(): CodeEditService {
+    if (!CodeEditService.instance) {
+      CodeEditService.instance = new CodeEditService()
+    }
+    return CodeEditService.instance
+  }
+
+  // Asks the model for targeted edits (it sees only the ranked context), applies them to the
+  // whole workspace with exact-match verification and re-prompts only the blocks that did
+  // not apply. Changed files are written to disk.
+  async editProject(
+    projectPath: string,
+    prompt: string,
+    workspace: GeneratedFile[],
+    context: ProjectContext,
+    llm?: ProviderSelection,
+    usage?: UsageAttribution
+  ): Promise<EditProjectResult> {
+    const response = await aiService.generateCodeEdits(prompt, context, llm, usage)
+
+    let files = new Map(workspace.map(f => [f.path, f.content]))
+    let result = applyEdits(files, response.edits)
+    const changed = new Set(result.changedPaths)
+    let repairRounds = 0
+
+    while (result.conflicts.length > 0 && repairRounds < MAX_EDIT_REPAIR_ROUNDS) {
+      repairRounds++
+      logger.info(`Edit repair round ${repairRounds}: ${result.conflicts.length} block(s) did not apply`)
+
+      files = result.files
+      const conflictFiles = Array.from(new Set(result.conflicts.map(c => c.path)))
+        .filter(p => files.has(p))
+        .map(p => ({ path: p, content: files.get(p) as string }))
+
+      const repairEdits = await aiService.repairCodeEdits(prompt, result.conflicts, conflictFiles, llm, usage)
+      result = applyEdits(files, repairEdits)
+      result.changedPaths.forEach(p => changed.add(p))
+    }
+
+    if (result.conflicts.length > 0) {
+      logger.warn(`${result.conflicts.length} edit block(s) could not be applied after ${repairRounds} repair round(s)`)
+    }
+
+    // Nothing is written when the guardrails block the edit
+    const { files: changedFiles, findings } = guardrailService.enforce(
+      Array.from(changed).map(p => ({ path: p, content: result.files.get(p) as string }))
+    )
+    for (const file of changedFiles) {
+      const filePath = path.join(projectPath, file.path)
+      await fs.ensureDir(path.dirname(filePath))
+      await fs.writeFile(filePath, file.content, 'utf8')
+    }
+
+    return {
+      explanation: response.explanation,
+      dependencies: response.dependencies,
+      changedFiles,
+      conflicts: result.conflicts,
+      repairRounds,
+      guardrails: findings
+    }
+  }
+}
+
+export const codeEditService = CodeEditService.getInstance()
@@ -0,0 +1,177 @@
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import fs from 'fs-extra'
+import path from 'path'
+import { logger } from '../utils/logger'
+import { aiService } from './aiService'
+import { ProviderSelection } from './llm'
+import { UsageAttribution } from './usageService'
+import { guardrailService, GuardrailFinding } from './guardrailService'
+
+const execAsync = promisify(exec)
+
+export interface AnalyzerDiagnostic {
+  severity: 'error' | 'warning' | 'info'
+  code: string
+  file: string
+  line: number
+  column: number
+  message: string
+}
+
+export interface GeneratedFile {
+  path: string
+  content: string
+}
+
+export interface CompileFixOptions {
+  projectPath: string
+  files: GeneratedFile[]
+  prompt: string
+  llm?: ProviderSelection
+  usage?: UsageAttribution
+  maxRounds?: number
+}
+
+export interface CompileFixResult {
+  files: GeneratedFile[]
+  analyzed: boolean
+  fixRounds: number
+  remainingDiagnostics: AnalyzerDiagnostic[]
+  // Findings in the model's fixes
+  guardrails: GuardrailFinding[]
+}
+
+const DEFAULT_MAX_ROUNDS = parseInt(process.env.COMPILE_FIX_MAX_ROUNDS || '2', 10)
+const ANALYZE_COMMAND = process.env.DART_ANALYZE_COMMAND || 'dart analyze --format=machine'
+
+export class CompileFixService {
+  private static instance: CompileFixService
+
+  static getInstance(): CompileFixService {
+    if (!CompileFixService.instance) {
+      CompileFixService.instance = new CompileFixService()
+    }
+    return CompileFixService.instance
+  }
+
+  // Returns null when the analyzer itself is unavailable (e.g. no Dart SDK on this host)
+  async analyze(projectPath: string): Promise<AnalyzerDiagnostic[] | null> {
+    let output = ''
+
+    try {
+      const { stdout, stderr } = await execAsync(ANALYZE_COMMAND, { cwd: projectPath, timeout: 120000 })
+      output = `${stdout}\n${stderr}`
+    } catch (error: any) {
+      // dart analyze exits non-zero whenever it reports issues
+      if (error.code === 'ENOENT' || error.code === 127 || error.killed) {
+        logger.warn(`Analyzer unavailable in ${projectPath}: ${error.message}`)
+        return null
+      }
+      output = `${error.stdout || ''}\n${error.stderr || ''}`
+    }
+
+    return this.parseMachineOutput(output, projectPath)
+  }
+
+  // Machine format: SEVERITY|TYPE|CODE|FILE|LINE|COLUMN|LENGTH|MESSAGE
+  parseMachineOutput(output: string, projectPath: string): AnalyzerDiagnostic[] {
+    const diagnostics: AnalyzerDiagnostic[] = []
+
+    for (const line of output.split('\n')) {
+      const parts = line.trim().split('|')
+      if (parts.length < 8 || !['ERROR', 'WARNING', 'INFO'].includes(parts[0])) continue
+
+      diagnostics.push({
+        severity: parts[0].toLowerCase() as AnalyzerDiagnostic['severity'],
+        code: parts[2],
+        file: path.relative(projectPath, parts[3]).split(path.sep).join('/'),
+        line: parseInt(parts[4], 10),
+        column: parseInt(parts[5], 10),
+        message: parts.slice(7).join('|').replace(/\\(.)/g, '$1')
+      })
+    }
+
+    return diagnostics
+  }
+
+  // Analyze the workspace, hand errors plus the offending files back to the model and
+  // apply its corrections, for up to maxRounds rounds.
+  async analyzeAndFix(options: CompileFixOptions): Promise<CompileFixResult> {
+    const maxRounds = options.maxRounds ?? DEFAULT_MAX_ROUNDS
+    const files = new Map(options.files.map(f => [f.path, f.content]))
+    const guardrails: GuardrailFinding[] = []
+    let fixRounds = 0
+
+    await this.runPubGet(options.projectPath)
+    let diagnostics = await this.analyze(options.projectPath)
+
+    if (diagnostics === null) {
+      return { files: options.files, analyzed: false, fixRounds: 0, remainingDiagnostics: [], guardrails }
+    }
+
+    while (fixRounds < maxRounds) {
+      const errors = diagnostics.filter(d => d.severity === 'error')
+      if (errors.length === 0) break
+
+      fixRounds++
+      logger.info(`Compile fix round ${fixRounds}/${maxRounds} for ${options.projectPath}: ${errors.length} error(s)`)
+
+      const offendingFiles = await this.readOffendingFiles(options.projectPath, errors, files)
+      const fixedFiles = guardrailService.enforce(
+        await aiService.fixAnalyzerErrors(options.prompt, offendingFiles, errors, options.llm, options.usage)
+      )
+      guardrails.push(...fixedFiles.findings)
+
+      for (const file of fixedFiles.files) {
+        await this.writeFile(options.projectPath, file)
+        files.set(file.path, file.content)
+      }
+
+      diagnostics = (await this.analyze(options.projectPath)) || []
+    }
+
+    const remainingDiagnostics = diagnostics.filter(d => d.severity !== 'info')
+    if (remainingDiagnostics.some(d => d.severity === 'error')) {
+      logger.warn(`Compile fix loop gave up after ${fixRounds} round(s) with errors remaining`)
+    }
+
+    return {
+      files: Array.from(files, ([filePath, content]) => ({ path: filePath, content })),
+      analyzed: true,
+      fixRounds,
+      remainingDiagnostics,
+      guardrails
+    }
+  }
+
+  private async readOffendingFiles(projectPath: string, errors: AnalyzerDiagnostic[], known: Map<string, string>): Promise<GeneratedFile[]> {
+    const paths = Array.from(new Set(errors.map(e => e.file)))
+    const files: GeneratedFile[] = []
+
+    for (const filePath of paths) {
+      const content = known.get(filePath) ?? await fs.readFile(path.join(projectPath, filePath), 'utf8').catch(() => null)
+      if (content !== null) {
+        files.push({ path: filePath, content })
+      }
+    }
+
+    return files
+  }
+
+  private async writeFile(projectPath: string, file: GeneratedFile): Promise<void> {
+    const filePath = path.join(projectPath, file.path)
+    await fs.ensureDir(path.dirname(filePath))
+    await fs.writeFile(filePath, file.content, 'utf8')
+  }
+
+  private async runPubGet(projectPath: string): Promise<void> {
+    try {
+      await execAsync('flutter pub get', { cwd: projectPath, timeout: 120000 })
+    } catch (error) {
+      logger.warn(`flutter pub get failed before analysis in ${projectPath}:`, error)
+    }
+  }
+}
+
+export const compileFixService = CompileFixService.getInstance()
@@ -22,6 +22,36 @@ export interface PreviewOptions {
   device?: 'ios' | 'android' | 'web'
 }
 
+// Versions written to pubspec.yaml for packages generated code may depend on
+export const PACKAGE_VERSIONS: Record<string, string> = {
+  'http': '^1.1.0',
+  'shared_preferences': '^2.2.2',
+  'provider': '^6.1.1',
+  'flutter_bloc': '^8.1.3',
+  'get': '^4.6.6',
+  'dio': '^5.3.2',
+  'cached_network_image': '^3.3.0',
+  'image_picker': '^1.0.4',
+  'path_provider': '^2.1.1',
+  'sqflite': '^2.3.0',
+  'url_launcher': '^6.2.1',
+  'webview_flutter': '^4.4.2',
+  'camera': '^0.10.5+5',
+  'geolocator': '^10.1.0',
+  'permission_handler': '^11.1.0',
+  'flutter_local_notifications': '^16.3.2',
+  'connectivity_plus': '^5.0.1',
+  'device_info_plus': '^9.1.1',
+  'package_info_plus': '^4.2.0',
+  'share_plus': '^7.2.1',
+  'cloud_firestore': '^4.13.3',
+  'firebase_auth': '^4.15.0',
+  'firebase_core': '^2.24.0',
+  'firebase_storage': '^11.6.0',
+  'firebase_analytics': '^10.7.0',
+  'firebase_messaging': '^14.7.6'
+}
+
 export class FlutterEngine {
   private static instance: FlutterEngine
   private projectsDir: string
@@ -264,35 +294,7 @@ dependencies:
   flutter:
     sdk: flutter
   cupertino_icons: ^1.0.2${dependencies.length > 0 ? '\n  ' + dependencies.map(dep => {
-    const depMap: { [key: string]: string } = {
-      'http': '^1.1.0',
-      'shared_preferences': '^2.2.2',
-      'provider': '^6.1.1',
-      'flutter_bloc': '^8.1.3',
-      'get': '^4.6.6',
-      'dio': '^5.3.2',
-      'cached_network_image': '^3.3.0',
-      'image_picker': '^1.0.4',
-      'path_provider': '^2.1.1',
-      'sqflite': '^2.3.0',
-      'url_launcher': '^6.2.1',
-      'webview_flutter': '^4.4.2',
-      'camera': '^0.10.5+5',
-      'geolocator': '^10.1.0',
-      'permission_handler': '^11.1.0',
-      'flutter_local_notifications': '^16.3.2',
-      'connectivity_plus': '^5.0.1',
-      'device_info_plus': '^9.1.1',
-      'package_info_plus': '^4.2.0',
-      'share_plus': '^7.2.1',
-      'cloud_firestore': '^4.13.3',
-      'firebase_auth': '^4.15.0',
-      'firebase_core': '^2.24.0',
-      'firebase_storage': '^11.6.0',
-      'firebase_analytics': '^10.7.0',
-      'firebase_messaging': '^14.7.6'
-    }
-    return `${dep}: ${depMap[dep] || '^1.0.0'}`
+    return `${dep}: ${PACKAGE_VERSIONS[dep] || '^1.0.0'}`
   }).join('\n  ') : ''}${firebase ? `
   firebase_core: ^2.24.0
   firebase_auth: ^4.15.0
@@ -0,0 +1,178 @@
+import { Server } from 'socket.io'
+import { logger } from '../utils/logger'
+
+export interface StreamedFile {
+  path: string
+  content: string
+}
+
+export type GenerationStreamEvent =
+  | { type: 'token'; text: string; agentId?: string }
+  | { type: 'explanation'; text: string; agentId?: string }
+  | { type: 'file'; file: StreamedFile; index: number; agentId?: string }
+  | { type: 'retry'; attempt: number; maxAttempts: number; delayMs: number; reason: string; agentId?: string }
+  | { type: 'done'; result: any }
+  | { type: 'error'; error: string; code?: string; retryable?: boolean; retryAfter?: number; details?: unknown }
+
+type StreamListener = (event: GenerationStreamEvent) => void
+
+// Pulls the explanation and each completed entry of the "files" array out of a
+// partially received JSON response, so they can be shown before the model finishes.
+export class StreamingResponseParser {
+  private buffer = ''
+  private explanationSent = 0
+  private filesCursor = -1
+  private depth = 0
+  private inString = false
+  private escaped = false
+  private objectStart = -1
+  private filesDone = false
+  private fileCount = 0
+
+  constructor(private agentId?: string) {}
+
+  push(chunk: string): GenerationStreamEvent[] {
+    this.buffer += chunk
+    const events: GenerationStreamEvent[] = []
+
+    const explanation = this.readExplanation()
+    if (explanation.length > this.explanationSent) {
+      events.push({ type: 'explanation', text: explanation.slice(this.explanationSent), agentId: this.agentId })
+      this.explanationSent = explanation.length
+    }
+
+    for (const file of this.readFiles()) {
+      events.push({ type: 'file', file, index: this.fileCount++, agentId: this.agentId })
+    }
+
+    return events
+  }
+
+  // Decodes as much of the explanation string as has arrived, stopping before a split escape
+  private readExplanation(): string {
+    const match = /"explanation"\s*:\s*"/.exec(this.buffer)
+    if (!match) return ''
+
+    const start = match.index + match[0].length
+    let end = start
+    let safeEnd = start
+
+    while (end < this.buffer.length) {
+      const char = this.buffer[end]
+      if (char === '"') {
+        safeEnd = end
+        break
+      }
+      if (char === '\\') {
+        const escapeLength = this.buffer[end + 1] === 'u' ? 6 : 2
+        if (end + escapeLength > this.buffer.length) break
+        end += escapeLength
+      } else {
+        end++
+      }
+      safeEnd = end
+    }
+
+    try {
+      return JSON.parse(`"${this.buffer.slice(start, safeEnd)}"`)
+    } catch {
+      return ''
+    }
+  }
+
+  private readFiles(): StreamedFile[] {
+    if (this.filesDone) return []
+
+    if (this.filesCursor === -1) {
+      const match = /"files"\s*:\s*\[/.exec(this.buffer)
+      if (!match) return []
+      this.filesCursor = match.index + match[0].length
+    }
+
+    const files: StreamedFile[] = []
+
+    for (; this.filesCursor < this.buffer.length; this.filesCursor++) {
+      const char = this.buffer[this.filesCursor]
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (char === '\\') this.escaped = true
+        else if (char === '"') this.inString = false
+        continue
+      }
+
+      if (char === '"') {
+        this.inString = true
+      } else if (char === '{') {
+        if (this.depth === 0) this.objectStart = this.filesCursor
+        this.depth++
+      } else if (char === '}') {
+        this.depth--
+        if (this.depth === 0) {
+          const file = this.parseFile(this.buffer.slice(this.objectStart, this.filesCursor + 1))
+          if (file) files.push(file)
+        }
+      } else if (char === ']' && this.depth === 0) {
+        this.filesDone = true
+        break
+      }
+    }
+
+    return files
+  }
+
+  private parseFile(raw: string): StreamedFile | null {
+    try {
+      const file = JSON.parse(raw)
+      return typeof file.path === 'string' && typeof file.content === 'string'
+        ? { path: file.path, content: file.content }
+        : null
+    } catch {
+      return null
+    }
+  }
+}
+
+// Fans generation events out to in-process listeners (SSE responses) and to the
+// Socket.IO room of the same id, so every client watching a project sees them.
+export class GenerationStreamHub {
+  private listeners: Map<string, Set<StreamListener>> = new Map()
+  private io: Server | null = null
+
+  attachSocketServer(io: Server): void {
+    this.io = io
+  }
+
+  subscribe(roomId: string, listener: StreamListener): () => void {
+    const roomListeners = this.listeners.get(roomId) || new Set<StreamListener>()
+    roomListeners.add(listener)
+    this.listeners.set(roomId, roomListeners)
+
+    return () => {
+      roomListeners.delete(listener)
+      if (roomListeners.size === 0) {
+        this.listeners.delete(roomId)
+      }
+    }
+  }
+
+  publish(roomId: string, event: GenerationStreamEvent): void {
+    for (const listener of this.listeners.get(roomId) || []) {
+      try {
+        listener(event)
+      } catch (error) {
+        logger.warn(`Generation stream listener for ${roomId} failed:`, error)
+      }
+    }
+
+    this.io?.to(roomId).emit('generation-stream', { projectId: roomId, ...event })
+  }
+
+  // Streaming is only worth it when someone is listening
+  isActive(roomId: string): boolean {
+    const socketCount = this.io?.sockets.adapter.rooms.get(roomId)?.size || 0
+    return this.listeners.has(roomId) || socketCount > 0
+  }
+}
+
+export const generationStreams = new GenerationStreamHub()
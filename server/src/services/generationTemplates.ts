@@ -0,0 +1,58 @@
+// Starter prompts offered in the UI; the benchmark harness runs the same set
+export interface GenerationTemplate {
+  id: string
+  name: string
+  description: string
+  prompt: string
+}
+
+export const GENERATION_TEMPLATES: GenerationTemplate[] = [
+  {
+    id: 'counter',
+    name: 'Counter App',
+    description: 'Simple counter with increment button',
+    prompt: 'Create a simple counter app with increment and decrement buttons'
+  },
+  {
+    id: 'todo',
+    name: 'Todo List',
+    description: 'Todo app with add, delete, and mark complete',
+    prompt: 'Create a todo app with add, delete, and mark complete functionality'
+  },
+  {
+    id: 'weather',
+    name: 'Weather App',
+    description: 'Weather app with current conditions and forecast',
+    prompt: 'Build a weather app that shows current conditions and 5-day forecast'
+  },
+  {
+    id: 'calculator',
+    name: 'Calculator',
+    description: 'Simple calculator with basic operations',
+    prompt: 'Make a simple calculator with basic arithmetic operations'
+  },
+  {
+    id: 'gallery',
+    name: 'Photo Gallery',
+    description: 'Photo gallery with grid view and details',
+    prompt: 'Create a photo gallery app with grid view and detail screen'
+  },
+  {
+    id: 'chat',
+    name: 'Chat Interface',
+    description: 'Chat app with message bubbles',
+    prompt: 'Build a chat interface with message bubbles and send functionality'
+  },
+  {
+    id: 'shopping',
+    name: 'Shopping Cart',
+    description: 'Shopping app with products and cart',
+    prompt: 'Make a shopping cart app with products, cart, and checkout'
+  },
+  {
+    id: 'fitness',
+    name: 'Fitness Tracker',
+    description: 'Fitness app with step counter and progress',
+    prompt: 'Create a fitness tracker with step counter and progress charts'
+  }
+]
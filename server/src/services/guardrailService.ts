@@ -0,0 +1,371 @@
+import path from 'path'
+import { logger } from '../utils/logger'
+
+export type GuardrailCategory = 'path' | 'dangerous-api' | 'secret'
+
+// block rejects the whole generation, warn writes the file and reports the finding,
+// strip removes the offending part (the file for paths, the statement for APIs, the value for secrets)
+export type GuardrailAction = 'block' | 'warn' | 'strip'
+
+export interface GuardrailFinding {
+  rule: string
+  category: GuardrailCategory
+  action: GuardrailAction
+  file: string
+  line?: number
+  message: string
+  // The offending code; secrets are masked
+  excerpt?: string
+}
+
+export interface GuardrailOptions {
+  // Let the model write android/, ios/, Gradle, Podfile and other build scripts
+  allowPlatformFiles?: boolean
+}
+
+export interface GuardrailReport<F extends GuardedFile = GuardedFile> {
+  files: F[]
+  findings: GuardrailFinding[]
+  blocked: boolean
+}
+
+export interface GuardedFile {
+  path: string
+  content: string
+}
+
+export class GuardrailViolationError extends Error {
+  statusCode = 422
+  code = 'GUARDRAIL_BLOCKED'
+  isOperational = true
+  details: { guardrails: GuardrailFinding[] }
+
+  constructor(public findings: GuardrailFinding[]) {
+    super(`Generated code was blocked by guardrails: ${findings.filter(f => f.action === 'block').map(f => `${f.rule} in ${f.file}`).join(', ')}`)
+    this.name = 'GuardrailViolationError'
+    this.details = { guardrails: findings }
+  }
+}
+
+interface CodeRule {
+  id: string
+  category: 'dangerous-api' | 'secret'
+  pattern: RegExp
+  message: string
+  dartOnly?: boolean
+  // Capture group holding the secret, so strip keeps the surrounding assignment
+  valueGroup?: number
+}
+
+const CODE_RULES: CodeRule[] = [
+  {
+    id: 'process-execution',
+    category: 'dangerous-api',
+    pattern: /\bProcess\s*\.\s*(?:run|runSync|start|killPid)\s*\(/g,
+    message: 'Runs operating system processes',
+    dartOnly: true
+  },
+  {
+    id: 'native-ffi',
+    category: 'dangerous-api',
+    pattern: /import\s+['"]dart:ffi['"]/g,
+    message: 'Loads native code through dart:ffi',
+    dartOnly: true
+  },
+  {
+    id: 'file-deletion',
+    category: 'dangerous-api',
+    pattern: /\b(?:File|Directory|Link)\s*\([^;]*?\)\s*\.\s*delete(?:Sync)?\s*\(|\.delete(?:Sync)?\s*\(\s*recursive\s*:\s*true/g,
+    message: 'Deletes files or directories on the device',
+    dartOnly: true
+  },
+  {
+    id: 'dynamic-code',
+    category: 'dangerous-api',
+    pattern: /import\s+['"]dart:mirrors['"]|\bIsolate\s*\.\s*spawnUri\s*\(|\bcallMethod\s*\(\s*['"]eval['"]/g,
+    message: 'Loads or evaluates code at runtime',
+    dartOnly: true
+  },
+  {
+    id: 'private-key',
+    category: 'secret',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+    message: 'Private key embedded in the code'
+  },
+  {
+    id: 'google-api-key',
+    category: 'secret',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+    message: 'Google API key'
+  },
+  {
+    id: 'aws-access-key',
+    category: 'secret',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    message: 'AWS access key id'
+  },
+  {
+    id: 'openai-api-key',
+    category: 'secret',
+    pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}\b/g,
+    message: 'OpenAI API key'
+  },
+  {
+    id: 'stripe-secret-key',
+    category: 'secret',
+    pattern: /\b[sr]k_live_[0-9A-Za-z]{20,}\b/g,
+    message: 'Stripe live secret key'
+  },
+  {
+    id: 'github-token',
+    category: 'secret',
+    pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+    message: 'GitHub token'
+  },
+  {
+    id: 'slack-token',
+    category: 'secret',
+    pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g,
+    message: 'Slack token'
+  },
+  {
+    id: 'hardcoded-credential',
+    category: 'secret',
+    pattern: /\b\w*(?:api_?key|apiKey|secret|token|password|passwd)\w*\s*[:=]\s*['"]([^'"\s$]{16,})['"]/gi,
+    message: 'Credential assigned from a string literal',
+    valueGroup: 1
+  }
+]
+
+// Values the model writes when it knows the key must be filled in later
+const PLACEHOLDER_PATTERN = /your|example|placeholder|changeme|replace|dummy|sample|x{6,}|\*{4,}|<[^>]*>|REDACTED/i
+
+const PLATFORM_DIRECTORIES = ['android', 'ios', 'macos', 'windows', 'linux', '.github', '.git', '.dart_tool']
+const BUILD_SCRIPT_PATTERN = /(?:\.gradle(?:\.kts)?|^Podfile|^CMakeLists\.txt|\.(?:sh|bat|ps1|cmd))$/
+
+const REDACTED = 'REDACTED'
+
+function parseAction(value: string | undefined, fallback: GuardrailAction, name: string): GuardrailAction {
+  if (!value) return fallback
+  if (value === 'block' || value === 'warn' || value === 'strip') return value
+
+  logger.warn(`${name} must be block, warn or strip; using ${fallback}`)
+  return fallback
+}
+
+function parseRuleOverrides(raw?: string): Record<string, GuardrailAction> {
+  if (!raw) return {}
+
+  try {
+    return JSON.parse(raw)
+  } catch {
+    logger.warn('GUARDRAIL_RULES is not valid JSON, ignoring per-rule overrides')
+    return {}
+  }
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length
+}
+
+// Index of the `;` that ends the statement starting at `index`, skipping brackets, strings and
+// comments. A statement without one ends before the bracket that encloses it, or at the end.
+function statementEnd(content: string, index: number): number {
+  let depth = 0
+  for (let i = index; i < content.length; i++) {
+    const char = content[i]
+    if (char === '"' || char === "'") {
+      for (i++; i < content.length && content[i] !== char && content[i] !== '\n'; i++) {
+        if (content[i] === '\\') i++
+      }
+    } else if (content.startsWith('//', i)) {
+      i = content.indexOf('\n', i)
+      if (i === -1) break
+    } else if ('([{'.includes(char)) {
+      depth++
+    } else if (')]}'.includes(char)) {
+      if (--depth < 0) return i - 1
+    } else if (char === ';' && depth === 0) {
+      return i
+    }
+  }
+  return content.length - 1
+}
+
+function maskSecret(secret: string): string {
+  return `${secret.slice(0, 4)}…(${secret.length} chars)`
+}
+
+// Scans model-written files before they reach the workspace: paths that escape the project
+// or touch platform build scripts, Dart APIs that reach outside the app sandbox, and secrets.
+export class GuardrailService {
+  private static instance: GuardrailService
+  private categoryActions: Record<GuardrailCategory, GuardrailAction>
+  private ruleActions: Record<string, GuardrailAction>
+  private allowPlatformFiles: boolean
+
+  private constructor() {
+    this.categoryActions = {
+      path: parseAction(process.env.GUARDRAIL_PATH_ACTION, 'block', 'GUARDRAIL_PATH_ACTION'),
+      'dangerous-api': parseAction(process.env.GUARDRAIL_API_ACTION, 'warn', 'GUARDRAIL_API_ACTION'),
+      secret: parseAction(process.env.GUARDRAIL_SECRET_ACTION, 'strip', 'GUARDRAIL_SECRET_ACTION')
+    }
+    this.ruleActions = parseRuleOverrides(process.env.GUARDRAIL_RULES)
+    this.allowPlatformFiles = process.env.GUARDRAIL_ALLOW_PLATFORM_FILES === 'true'
+  }
+
+  static getInstance(): GuardrailService {
+    if (!GuardrailService.instance) {
+      GuardrailService.instance = new GuardrailService()
+    }
+    return GuardrailService.instance
+  }
+
+  // Returns the files as they may be written, minus stripped files and parts
+  check<F extends GuardedFile>(files: F[], options: GuardrailOptions = {}): GuardrailReport<F> {
+    const findings: GuardrailFinding[] = []
+    const safeFiles: F[] = []
+
+    for (const file of files) {
+      const pathFinding = this.checkPath(file.path, options)
+      if (pathFinding) {
+        findings.push(pathFinding)
+        // A path outside the project is never written, whatever the policy says
+        if (pathFinding.action !== 'warn' || pathFinding.rule === 'path-escape') continue
+      }
+
+      const { content, findings: codeFindings } = this.checkContent(file.path, file.content)
+      findings.push(...codeFindings)
+      safeFiles.push({ ...file, content })
+    }
+
+    const blocked = findings.some(f => f.action === 'block')
+    if (findings.length > 0) {
+      logger.warn(`Guardrails: ${findings.length} finding(s)${blocked ? ', generation blocked' : ''}: ${findings.map(f => `${f.rule}@${f.file}`).join(', ')}`)
+    }
+
+    return { files: safeFiles, findings, blocked }
+  }
+
+  // check(), but a block finding throws instead of returning
+  enforce<F extends GuardedFile>(files: F[], options: GuardrailOptions = {}): GuardrailReport<F> {
+    const report = this.check(files, options)
+    if (report.blocked) {
+      throw new GuardrailViolationError(report.findings)
+    }
+    return report
+  }
+
+  describePolicy() {
+    return {
+      categories: { ...this.categoryActions },
+      rules: Object.fromEntries(CODE_RULES.map(rule => [rule.id, this.actionFor(rule.id, rule.category)])),
+      allowPlatformFiles: this.allowPlatformFiles
+    }
+  }
+
+  private actionFor(rule: string, category: GuardrailCategory): GuardrailAction {
+    return this.ruleActions[rule] || this.categoryActions[category]
+  }
+
+  private checkPath(filePath: string, options: GuardrailOptions): GuardrailFinding | null {
+    const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'))
+    const escapes = filePath.includes('\0') ||
+      path.posix.isAbsolute(normalized) ||
+      /^[a-zA-Z]:/.test(normalized) ||
+      normalized === '..' ||
+      normalized.startsWith('../')
+
+    if (escapes) {
+      const action = this.actionFor('path-escape', 'path')
+      return {
+        rule: 'path-escape',
+        category: 'path',
+        action: action === 'warn' ? 'strip' : action,
+        file: filePath,
+        message: 'Path points outside the project directory'
+      }
+    }
+
+    const touchesPlatform = PLATFORM_DIRECTORIES.includes(normalized.split('/')[0]) ||
+      BUILD_SCRIPT_PATTERN.test(path.posix.basename(normalized))
+
+    if (touchesPlatform && !(options.allowPlatformFiles ?? this.allowPlatformFiles)) {
+      return {
+        rule: 'platform-build-file',
+        category: 'path',
+        action: this.actionFor('platform-build-file', 'path'),
+        file: filePath,
+        message: 'Platform project or build script changes need allowPlatformFiles'
+      }
+    }
+
+    return null
+  }
+
+  private checkContent(filePath: string, original: string): { content: string; findings: GuardrailFinding[] } {
+    const findings: GuardrailFinding[] = []
+    const linesToStrip = new Set<number>()
+    const secretRulesToStrip: CodeRule[] = []
+    // One secret finding per line, e.g. an API key assigned to apiKey is not also a generic credential
+    const secretLines = new Set<number>()
+
+    for (const rule of CODE_RULES) {
+      if (rule.dartOnly && !filePath.endsWith('.dart')) continue
+
+      const action = this.actionFor(rule.id, rule.category)
+      const matchedLines = new Set<number>()
+
+      for (const match of original.matchAll(rule.pattern)) {
+        const value = rule.valueGroup ? match[rule.valueGroup] : match[0]
+        if (rule.category === 'secret' && PLACEHOLDER_PATTERN.test(value)) continue
+
+        const line = lineAt(original, match.index ?? 0)
+        if (matchedLines.has(line) || (rule.category === 'secret' && secretLines.has(line))) continue
+        matchedLines.add(line)
+
+        findings.push({
+          rule: rule.id,
+          category: rule.category,
+          action,
+          file: filePath,
+          line,
+          message: rule.message,
+          excerpt: rule.category === 'secret' ? maskSecret(value) : original.split('\n')[line - 1].trim().slice(0, 160)
+        })
+
+        // A call spanning several lines is stripped whole, so no argument lines are left behind
+        if (action === 'strip' && rule.category === 'dangerous-api') {
+          const lastLine = lineAt(original, statementEnd(original, match.index ?? 0))
+          for (let n = line; n <= lastLine; n++) linesToStrip.add(n)
+        }
+      }
+
+      if (rule.category === 'secret') {
+        matchedLines.forEach(line => secretLines.add(line))
+        if (action === 'strip' && matchedLines.size > 0) secretRulesToStrip.push(rule)
+      }
+    }
+
+    // Lines first: replacing a multi-line private key would shift the line numbers
+    let content = linesToStrip.size === 0 ? original : original
+      .split('\n')
+      .map((text, index) => linesToStrip.has(index + 1)
+        ? `${text.match(/^\s*/)?.[0] || ''}// Removed by guardrails: ${text.trim()}`
+        : text)
+      .join('\n')
+
+    for (const rule of secretRulesToStrip) {
+      content = content.replace(rule.pattern, (...args) => {
+        const match: string = args[0]
+        const value: string = rule.valueGroup ? args[rule.valueGroup] : match
+        if (PLACEHOLDER_PATTERN.test(value)) return match
+        return rule.valueGroup ? match.replace(value, REDACTED) : REDACTED
+      })
+    }
+
+    return { content, findings }
+  }
+}
+
+export const guardrailService = GuardrailService.getInstance()
@@ -0,0 +1,120 @@
+import crypto from 'crypto'
+import fs from 'fs-extra'
+import path from 'path'
+import { logger } from '../../utils/logger'
+import { GenerationConfig, GenerateContentResult, TokenUsage } from './types'
+
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export interface CassetteEntry {
+  promptHash: string
+  config: GenerationConfig
+  provider: string
+  model: string
+  response: string
+  // Absent in cassettes recorded before usage tracking
+  usage?: TokenUsage
+  recordedAt: string
+}
+
+export interface CassetteFile {
+  version: 1
+  entries: CassetteEntry[]
+}
+
+export class CassetteMissError extends Error {
+  constructor(public promptHash: string, public cassettePath: string) {
+    super(`No recorded response for prompt ${promptHash} in cassette ${cassettePath}`)
+    this.name = 'CassetteMissError'
+  }
+}
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi
+const ISO_DATE_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g
+
+// Session ids and timestamps end up in agent prompts; mask them so replays still match
+export function hashPrompt(contents: string): string {
+  const normalized = contents
+    .replace(UUID_PATTERN, '<uuid>')
+    .replace(ISO_DATE_PATTERN, '<timestamp>')
+
+  return crypto.createHash('sha256').update(normalized).digest('hex')
+}
+
+// Key order differs between call sites, so compare configs field by field
+function sameConfig(a: GenerationConfig, b: GenerationConfig): boolean {
+  const keys: Array<keyof GenerationConfig> = ['temperature', 'topP', 'topK', 'maxOutputTokens']
+  return keys.every(key => a[key] === b[key])
+}
+
+// Records every model response to a JSON fixture, or serves them back offline.
+// Replay matches on prompt hash + generation config; provider/model are informational.
+export class Cassette {
+  readonly mode: CassetteMode
+  readonly filePath: string
+  private entries: CassetteEntry[] = []
+  private replayCursor: Map<string, number> = new Map()
+
+  constructor(filePath: string, mode: CassetteMode) {
+    this.filePath = path.resolve(filePath)
+    this.mode = mode
+
+    if (fs.pathExistsSync(this.filePath)) {
+      const file: CassetteFile = fs.readJsonSync(this.filePath)
+      this.entries = file.entries || []
+    } else if (mode === 'replay') {
+      logger.warn(`Cassette ${this.filePath} not found, every replayed call will miss`)
+    }
+
+    logger.info(`LLM cassette ${mode} mode: ${this.filePath} (${this.entries.length} entries)`)
+  }
+
+  // Identical prompts recorded several times are replayed in recording order
+  replay(contents: string, config: GenerationConfig): GenerateContentResult {
+    const promptHash = hashPrompt(contents)
+    const cursorKey = `${promptHash}:${JSON.stringify(config)}`
+    const matches = this.entries.filter(e => e.promptHash === promptHash && sameConfig(e.config, config))
+
+    if (matches.length === 0) {
+      throw new CassetteMissError(promptHash, this.filePath)
+    }
+
+    const index = this.replayCursor.get(cursorKey) || 0
+    this.replayCursor.set(cursorKey, index + 1)
+    const entry = matches[Math.min(index, matches.length - 1)]
+
+    return { text: entry.response, provider: entry.provider, model: entry.model, usage: entry.usage }
+  }
+
+  async record(contents: string, config: GenerationConfig, result: GenerateContentResult): Promise<void> {
+    this.entries.push({
+      promptHash: hashPrompt(contents),
+      config,
+      provider: result.provider,
+      model: result.model,
+      response: result.text,
+      usage: result.usage,
+      recordedAt: new Date().toISOString()
+    })
+
+    await this.save()
+  }
+
+  private async save(): Promise<void> {
+    const file: CassetteFile = { version: 1, entries: this.entries }
+    await fs.ensureDir(path.dirname(this.filePath))
+    await fs.writeJson(this.filePath, file, { spaces: 2 })
+  }
+
+  size(): number {
+    return this.entries.length
+  }
+}
+
+export function createCassetteFromEnv(): Cassette | null {
+  const mode = (process.env.LLM_CASSETTE_MODE || 'off') as CassetteMode
+  if (mode !== 'record' && mode !== 'replay') return null
+
+  const filePath = process.env.LLM_CASSETTE_PATH || path.join(process.cwd(), 'fixtures', 'cassettes', 'default.json')
+  return new Cassette(filePath, mode)
+}
@@ -0,0 +1,117 @@
+export type AIErrorCode =
+  | 'AI_AUTH_FAILED'
+  | 'AI_RATE_LIMITED'
+  | 'AI_TIMEOUT'
+  | 'AI_SAFETY_BLOCKED'
+  | 'AI_MALFORMED_OUTPUT'
+  | 'AI_PROVIDER_UNAVAILABLE'
+
+// Base class for every failure of a model call that callers can act on. statusCode is
+// what the HTTP layer answers with; retryable tells clients whether trying again can help.
+export class AIError extends Error {
+  constructor(
+    message: string,
+    public code: AIErrorCode,
+    public statusCode: number,
+    public retryable: boolean,
+    public provider?: string
+  ) {
+    super(message)
+    this.name = 'AIError'
+  }
+}
+
+export class AIAuthError extends AIError {
+  constructor(message: string, provider?: string) {
+    super(message, 'AI_AUTH_FAILED', 401, false, provider)
+    this.name = 'AIAuthError'
+  }
+}
+
+export class AIRateLimitError extends AIError {
+  constructor(message: string, public retryAfterSeconds?: number, provider?: string) {
+    super(message, 'AI_RATE_LIMITED', 429, true, provider)
+    this.name = 'AIRateLimitError'
+  }
+}
+
+export class AITimeoutError extends AIError {
+  constructor(message: string, provider?: string) {
+    super(message, 'AI_TIMEOUT', 503, true, provider)
+    this.name = 'AITimeoutError'
+  }
+}
+
+export class AISafetyError extends AIError {
+  constructor(message: string, provider?: string) {
+    super(message, 'AI_SAFETY_BLOCKED', 422, false, provider)
+    this.name = 'AISafetyError'
+  }
+}
+
+export class AIProviderUnavailableError extends AIError {
+  constructor(message: string, provider?: string) {
+    super(message, 'AI_PROVIDER_UNAVAILABLE', 503, true, provider)
+    this.name = 'AIProviderUnavailableError'
+  }
+}
+
+export function asAIError(error: unknown): AIError | undefined {
+  return error instanceof AIError ? error : undefined
+}
+
+// Accepts seconds or an HTTP date, as sent in Retry-After headers
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, Math.ceil(seconds))
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+// Maps a failed HTTP response from a provider API to the matching AIError
+export function errorFromStatus(provider: string, status: number, body: string, retryAfter?: string | null): AIError | null {
+  const message = `${provider} request failed (${status}): ${body.substring(0, 500)}`
+
+  if (status === 401 || status === 403) return new AIAuthError(message, provider)
+  if (status === 429) return new AIRateLimitError(message, parseRetryAfter(retryAfter), provider)
+  if (status === 408 || status === 504) return new AITimeoutError(message, provider)
+  if (status >= 500) return new AIProviderUnavailableError(message, provider)
+  return null
+}
+
+// Normalizes whatever a provider SDK or fetch threw. Errors that do not match a known
+// category are returned unchanged.
+export function classifyProviderError(error: unknown, provider: string): unknown {
+  if (error instanceof AIError || !(error instanceof Error)) return error
+
+  const status = Number((error as any).status ?? (error as any).code)
+  if (!Number.isNaN(status) && status >= 400) {
+    const classified = errorFromStatus(provider, status, error.message)
+    if (classified) return classified
+  }
+
+  const message = error.message
+  const causeCode = (error as any).cause?.code || (error as any).code
+
+  if (/API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AIAuthError(`${provider} rejected the credentials: ${message}`, provider)
+  }
+  if (/quota|rate limit|RESOURCE_EXHAUSTED/i.test(message)) {
+    const retryMatch = /retry (?:in|after) (\d+(?:\.\d+)?)s/i.exec(message)
+    return new AIRateLimitError(`${provider} quota or rate limit exceeded: ${message}`, retryMatch ? Math.ceil(Number(retryMatch[1])) : undefined, provider)
+  }
+  if (error.name === 'AbortError' || error.name === 'TimeoutError' || causeCode === 'ETIMEDOUT' || /timed? ?out/i.test(message)) {
+    return new AITimeoutError(`${provider} did not respond in time: ${message}`, provider)
+  }
+  if (/SAFETY|blocked|content[ _]filter/i.test(message)) {
+    return new AISafetyError(`${provider} blocked the request: ${message}`, provider)
+  }
+  if (['ECONNREFUSED', 'ENOTFOUND', 'ECONNRESET', 'EAI_AGAIN'].includes(causeCode) || /fetch failed|UNAVAILABLE|overloaded/i.test(message)) {
+    return new AIProviderUnavailableError(`${provider} is unavailable: ${message}`, provider)
+  }
+
+  return error
+}
@@ -0,0 +1,106 @@
+import { GoogleGenAI } from '@google/genai'
+import { logger } from '../../utils/logger'
+import { LLMProvider, GenerateContentRequest, GenerateContentResult, TokenUsage } from './types'
+import { AISafetyError } from './errors'
+
+// Validate API key when the provider is first used
+function validateApiKey(apiKey: string): void {
+  if (!apiKey) {
+    logger.error('GEMINI_API_KEY environment variable not found')
+    logger.warn('Please add your Google Gemini API key to the .env file')
+    logger.info('Get your API key from: https://makersuite.google.com/app/apikey')
+    return
+  }
+
+  if (apiKey.length < 30 || apiKey.startsWith('AAIzaSy')) {
+    logger.error('GEMINI_API_KEY appears to be a placeholder/invalid key')
+    logger.warn(`Current key: ${apiKey.substring(0, 20)}...`)
+    logger.info('Please replace with a valid Google Gemini API key from: https://makersuite.google.com/app/apikey')
+    logger.info('A valid key should start with "AIza" and be much longer')
+    return
+  }
+
+  logger.info('🔑 Gemini API key validated successfully')
+}
+
+// Plain text stays a string; images are sent as inline parts after the prompt
+function toContents(request: GenerateContentRequest) {
+  if (!request.images?.length) return request.contents
+
+  return [{
+    role: 'user',
+    parts: [
+      { text: request.contents },
+      ...request.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))
+    ]
+  }]
+}
+
+// Gemini answers blocked prompts/responses with an empty text and a block or finish reason
+function checkBlocked(result: any, provider: string): void {
+  const blockReason = result.promptFeedback?.blockReason
+  const finishReason = result.candidates?.[0]?.finishReason
+
+  if (blockReason) {
+    throw new AISafetyError(`Prompt was blocked (${blockReason})`, provider)
+  }
+  if (finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT' || finishReason === 'BLOCKLIST') {
+    throw new AISafetyError(`Response was blocked (${finishReason})`, provider)
+  }
+}
+
+function toUsage(metadata: any): TokenUsage | undefined {
+  if (!metadata) return undefined
+  return {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: metadata.candidatesTokenCount || 0
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini'
+  readonly defaultModel: string
+  private client: GoogleGenAI
+
+  constructor(apiKey: string = process.env.GEMINI_API_KEY || '', defaultModel: string = 'gemini-2.0-flash-exp') {
+    validateApiKey(apiKey)
+    this.defaultModel = defaultModel
+    this.client = new GoogleGenAI({ apiKey })
+  }
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    const result = await this.client.models.generateContent({
+      model: request.model,
+      contents: toContents(request),
+      config: { ...request.config, abortSignal: request.signal }
+    })
+
+    checkBlocked(result, this.name)
+
+    return {
+      text: result.text || '',
+      provider: this.name,
+      model: request.model,
+      usage: toUsage(result.usageMetadata)
+    }
+  }
+
+  async *generateContentStream(request: GenerateContentRequest): AsyncGenerator<string, TokenUsage | undefined> {
+    const stream = await this.client.models.generateContentStream({
+      model: request.model,
+      contents: toContents(request),
+      config: { ...request.config, abortSignal: request.signal }
+    })
+
+    // Usage metadata is cumulative, so the last chunk that carries it wins
+    let usage: TokenUsage | undefined
+    for await (const chunk of stream) {
+      checkBlocked(chunk, this.name)
+      usage = toUsage(chunk.usageMetadata) || usage
+      if (chunk.text) {
+        yield chunk.text
+      }
+    }
+    return usage
+  }
+}
@@ -0,0 +1,236 @@
+import crypto from 'crypto'
+import { logger } from '../../utils/logger'
+import { GeminiProvider } from './geminiProvider'
+import { OpenAICompatibleProvider } from './openAICompatibleProvider'
+import { OllamaProvider } from './ollamaProvider'
+import { Cassette, createCassetteFromEnv } from './cassette'
+import { ResilienceManager, RetryInfo, CircuitSnapshot } from './resilience'
+import {
+  LLMProvider,
+  ProviderSelection,
+  GenerationConfig,
+  GenerateContentResult,
+  ImageInput,
+  DEFAULT_GENERATION_CONFIG
+} from './types'
+
+export * from './types'
+export { Cassette, CassetteMode, CassetteMissError, hashPrompt } from './cassette'
+export * from './errors'
+export { ResilienceManager, RetryInfo, CircuitSnapshot, CircuitOpenError } from './resilience'
+
+export interface LLMCallOptions {
+  contents: string
+  config?: GenerationConfig
+  images?: ImageInput[]
+  selection?: ProviderSelection
+  agentId?: string
+  // Called before each retry of a failed attempt
+  onRetry?: (info: RetryInfo) => void
+}
+
+export interface ResolvedProvider {
+  provider: LLMProvider
+  model: string
+}
+
+function parseAgentSelections(raw?: string): Record<string, ProviderSelection> {
+  if (!raw) return {}
+
+  try {
+    return JSON.parse(raw)
+  } catch {
+    logger.warn('LLM_AGENT_PROVIDERS is not valid JSON, ignoring per-agent provider config')
+    return {}
+  }
+}
+
+// Cassette entries are keyed by prompt text; fold image digests in so multimodal calls match too
+function cassetteKey(options: LLMCallOptions): string {
+  if (!options.images?.length) return options.contents
+
+  const digests = options.images.map(image => crypto.createHash('sha256').update(image.data).digest('hex'))
+  return `${options.contents}\n[images:${digests.join(',')}]`
+}
+
+export class LLMRegistry {
+  private static instance: LLMRegistry
+  private providers: Map<string, LLMProvider> = new Map()
+  private factories: Map<string, () => LLMProvider> = new Map()
+  private serverSelection: ProviderSelection
+  private agentSelections: Record<string, ProviderSelection>
+  private cassette: Cassette | null
+  private resilience: ResilienceManager
+
+  private constructor() {
+    this.factories.set('gemini', () => new GeminiProvider())
+    this.factories.set('openai', () => new OpenAICompatibleProvider())
+    this.factories.set('ollama', () => new OllamaProvider())
+
+    this.serverSelection = {
+      provider: process.env.LLM_PROVIDER || 'gemini',
+      model: process.env.LLM_MODEL || undefined
+    }
+    this.agentSelections = parseAgentSelections(process.env.LLM_AGENT_PROVIDERS)
+    this.cassette = createCassetteFromEnv()
+    this.resilience = new ResilienceManager()
+  }
+
+  static getInstance(): LLMRegistry {
+    if (!LLMRegistry.instance) {
+      LLMRegistry.instance = new LLMRegistry()
+    }
+    return LLMRegistry.instance
+  }
+
+  // Register a provider instance directly, e.g. a local stand-in for tests
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider)
+    logger.info(`LLM provider registered: ${provider.name}`)
+  }
+
+  getProvider(name: string): LLMProvider {
+    let provider = this.providers.get(name)
+
+    if (!provider) {
+      const factory = this.factories.get(name)
+      if (!factory) {
+        throw new Error(`Unknown LLM provider: ${name}`)
+      }
+      provider = factory()
+      this.providers.set(name, provider)
+    }
+
+    return provider
+  }
+
+  listProviders(): string[] {
+    return Array.from(new Set([...this.factories.keys(), ...this.providers.keys()]))
+  }
+
+  // Pass null to go back to live calls
+  useCassette(cassette: Cassette | null): void {
+    this.cassette = cassette
+  }
+
+  getCassette(): Cassette | null {
+    return this.cassette
+  }
+
+  // Replace the retry/timeout/breaker policy, e.g. to disable retries in tests
+  useResilience(resilience: ResilienceManager): void {
+    this.resilience = resilience
+  }
+
+  getCircuitStates(): CircuitSnapshot[] {
+    return this.resilience.snapshot()
+  }
+
+  setAgentSelection(agentId: string, selection: ProviderSelection): void {
+    this.agentSelections[agentId] = selection
+  }
+
+  // Precedence: request selection > per-agent config > server config.
+  // Switching provider at a layer drops any model chosen by a lower layer.
+  resolve(selection?: ProviderSelection, agentId?: string): ResolvedProvider {
+    const layers = [
+      this.serverSelection,
+      agentId ? this.agentSelections[agentId] : undefined,
+      selection
+    ]
+
+    let providerName = 'gemini'
+    let model: string | undefined
+
+    for (const layer of layers) {
+      if (!layer) continue
+
+      if (layer.provider && layer.provider !== providerName) {
+        providerName = layer.provider
+        model = undefined
+      }
+      if (layer.model) {
+        model = layer.model
+      }
+    }
+
+    const provider = this.getProvider(providerName)
+    return { provider, model: model || provider.defaultModel }
+  }
+
+  async generateContent(options: LLMCallOptions): Promise<GenerateContentResult> {
+    const config = { ...DEFAULT_GENERATION_CONFIG, ...options.config }
+
+    if (this.cassette?.mode === 'replay') {
+      return this.cassette.replay(cassetteKey(options), config)
+    }
+
+    const { provider, model } = this.resolve(options.selection, options.agentId)
+    const result = await this.resilience.execute(
+      provider.name,
+      signal => provider.generateContent({
+        model,
+        contents: options.contents,
+        config,
+        images: options.images,
+        signal
+      }),
+      { onRetry: options.onRetry }
+    )
+
+    if (this.cassette?.mode === 'record') {
+      await this.cassette.record(cassetteKey(options), config, result)
+    }
+
+    return result
+  }
+
+  // Providers without streaming support deliver the whole response as one chunk
+  async generateContentStream(options: LLMCallOptions, onChunk: (text: string) => void): Promise<GenerateContentResult> {
+    const config = { ...DEFAULT_GENERATION_CONFIG, ...options.config }
+
+    if (this.cassette?.mode === 'replay') {
+      const replayed = this.cassette.replay(cassetteKey(options), config)
+      onChunk(replayed.text)
+      return replayed
+    }
+
+    const { provider, model } = this.resolve(options.selection, options.agentId)
+    const request = { model, contents: options.contents, config, images: options.images }
+    // Once chunks reached the caller a retry would duplicate them, so only retry before that
+    let emitted = false
+
+    const result = await this.resilience.execute(
+      provider.name,
+      async (signal): Promise<GenerateContentResult> => {
+        if (!provider.generateContentStream) {
+          const whole = await provider.generateContent({ ...request, signal })
+          emitted = true
+          onChunk(whole.text)
+          return whole
+        }
+
+        // Iterated by hand because for-await drops the generator's return value (the usage)
+        const stream = provider.generateContentStream({ ...request, signal })
+        let text = ''
+        for (let next = await stream.next(); ; next = await stream.next()) {
+          if (next.done) {
+            return { text, provider: provider.name, model, usage: next.value }
+          }
+          text += next.value
+          emitted = true
+          onChunk(next.value)
+        }
+      },
+      { onRetry: options.onRetry, canRetry: () => !emitted }
+    )
+
+    if (this.cassette?.mode === 'record') {
+      await this.cassette.record(cassetteKey(options), config, result)
+    }
+
+    return result
+  }
+}
+
+export const llmRegistry = LLMRegistry.getInstance()
@@ -0,0 +1,79 @@
+import { LLMProvider, GenerateContentRequest, GenerateContentResult, TokenUsage } from './types'
+import { readLines } from './streamUtils'
+import { errorFromStatus } from './errors'
+
+function toUsage(body: any): TokenUsage | undefined {
+  if (body.prompt_eval_count === undefined && body.eval_count === undefined) return undefined
+  return {
+    inputTokens: body.prompt_eval_count || 0,
+    outputTokens: body.eval_count || 0
+  }
+}
+
+// Talks to a local Ollama-style server via its /api/generate endpoint
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama'
+  readonly defaultModel: string
+  private baseUrl: string
+
+  constructor(
+    baseUrl: string = process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+    defaultModel: string = process.env.OLLAMA_MODEL || 'qwen2.5-coder'
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.defaultModel = defaultModel
+  }
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    const response = await this.post(request, false)
+    const body: any = await response.json()
+
+    return {
+      text: body.response || '',
+      provider: this.name,
+      model: body.model || request.model,
+      usage: toUsage(body)
+    }
+  }
+
+  // Streaming responses are newline-delimited JSON objects; the final (done) one carries the token counts
+  async *generateContentStream(request: GenerateContentRequest): AsyncGenerator<string, TokenUsage | undefined> {
+    const response = await this.post(request, true)
+
+    for await (const line of readLines(response.body)) {
+      const chunk = JSON.parse(line)
+      if (chunk.response) yield chunk.response
+      if (chunk.done) return toUsage(chunk)
+    }
+
+    return undefined
+  }
+
+  private async post(request: GenerateContentRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: request.model,
+        prompt: request.contents,
+        images: request.images?.map(image => image.data),
+        stream,
+        options: {
+          temperature: request.config?.temperature,
+          top_p: request.config?.topP,
+          top_k: request.config?.topK,
+          num_predict: request.config?.maxOutputTokens
+        }
+      }),
+      signal: request.signal
+    })
+
+    if (!response.ok) {
+      const body = await response.text()
+      throw errorFromStatus(this.name, response.status, body, response.headers.get('retry-after'))
+        || new Error(`Ollama request failed (${response.status}): ${body}`)
+    }
+
+    return response
+  }
+}
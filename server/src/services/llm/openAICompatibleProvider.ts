@@ -0,0 +1,109 @@
+import { LLMProvider, GenerateContentRequest, GenerateContentResult, TokenUsage } from './types'
+import { readLines } from './streamUtils'
+import { errorFromStatus, AISafetyError } from './errors'
+
+function toUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined
+  return {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0
+  }
+}
+
+// Works with any server exposing the OpenAI /chat/completions API (vLLM, LM Studio, OpenRouter, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai'
+  readonly defaultModel: string
+  private baseUrl: string
+  private apiKey: string
+
+  constructor(
+    baseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: string = process.env.OPENAI_API_KEY || '',
+    defaultModel: string = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.apiKey = apiKey
+    this.defaultModel = defaultModel
+  }
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    const response = await this.post(request, false)
+    const body: any = await response.json()
+
+    if (body.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new AISafetyError('Response was stopped by the content filter', this.name)
+    }
+
+    return {
+      text: body.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model: body.model || request.model,
+      usage: toUsage(body.usage)
+    }
+  }
+
+  async *generateContentStream(request: GenerateContentRequest): AsyncGenerator<string, TokenUsage | undefined> {
+    const response = await this.post(request, true)
+    let usage: TokenUsage | undefined
+
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data:')) continue
+
+      const data = line.slice('data:'.length).trim()
+      if (data === '[DONE]') break
+
+      // With include_usage the final chunk has no choices, only usage
+      const chunk = JSON.parse(data)
+      usage = toUsage(chunk.usage) || usage
+
+      const delta = chunk.choices?.[0]?.delta?.content
+      if (delta) yield delta
+    }
+
+    return usage
+  }
+
+  // Vision models take images as data URLs next to the text part
+  private toMessageContent(request: GenerateContentRequest) {
+    if (!request.images?.length) return request.contents
+
+    return [
+      { type: 'text', text: request.contents },
+      ...request.images.map(image => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+      }))
+    ]
+  }
+
+  private async post(request: GenerateContentRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: [{ role: 'user', content: this.toMessageContent(request) }],
+        temperature: request.config?.temperature,
+        top_p: request.config?.topP,
+        max_tokens: request.config?.maxOutputTokens,
+        stream,
+        stream_options: stream ? { include_usage: true } : undefined
+      }),
+      signal: request.signal
+    })
+
+    if (!response.ok) {
+      const body = await response.text()
+      throw errorFromStatus(this.name, response.status, body, response.headers.get('retry-after'))
+        || new Error(`OpenAI-compatible request failed (${response.status}): ${body}`)
+    }
+
+    return response
+  }
+}
@@ -0,0 +1,215 @@
+import { logger } from '../../utils/logger'
+import {
+  AIError,
+  AIRateLimitError,
+  AITimeoutError,
+  AIProviderUnavailableError,
+  classifyProviderError
+} from './errors'
+
+export interface ResiliencePolicy {
+  // Retries after the first attempt, so maxRetries 3 means up to 4 attempts
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  timeoutMs: number
+  breakerThreshold: number
+  breakerCooldownMs: number
+}
+
+export interface RetryInfo {
+  provider: string
+  // The attempt about to start, 2-based: "retrying (2/4)"
+  attempt: number
+  maxAttempts: number
+  delayMs: number
+  error: AIError
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitSnapshot {
+  provider: string
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt?: string
+  retryAt?: string
+}
+
+function readPolicyFromEnv(): ResiliencePolicy {
+  return {
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '3', 10),
+    baseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500', 10),
+    maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '8000', 10),
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '120000', 10),
+    breakerThreshold: parseInt(process.env.LLM_BREAKER_THRESHOLD || '5', 10),
+    breakerCooldownMs: parseInt(process.env.LLM_BREAKER_COOLDOWN_MS || '30000', 10)
+  }
+}
+
+export class CircuitOpenError extends AIProviderUnavailableError {
+  constructor(provider: string, public retryAt: Date) {
+    super(`${provider} is failing repeatedly; not calling it again before ${retryAt.toISOString()}`, provider)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+// Opens after `threshold` consecutive provider failures and fails fast until the cooldown
+// has passed; then lets a single trial call through (half open) to decide whether to close.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+
+  constructor(readonly provider: string, private threshold: number, private cooldownMs: number) {}
+
+  acquire(): void {
+    if (this.state === 'open') {
+      const retryAt = (this.openedAt || 0) + this.cooldownMs
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(this.provider, new Date(retryAt))
+      }
+      this.state = 'half_open'
+      logger.info(`Circuit for ${this.provider} half open, sending a trial request`)
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.provider, new Date(Date.now() + this.cooldownMs))
+      }
+      this.trialInFlight = true
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit for ${this.provider} closed`)
+    }
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++
+    this.trialInFlight = false
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.threshold) {
+      this.state = 'open'
+      this.openedAt = Date.now()
+      logger.warn(`Circuit for ${this.provider} opened after ${this.consecutiveFailures} consecutive failure(s)`)
+    }
+  }
+
+  // Calls that ended without telling us anything about the provider (e.g. bad credentials)
+  release(): void {
+    this.trialInFlight = false
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      retryAt: this.state === 'open' && this.openedAt ? new Date(this.openedAt + this.cooldownMs).toISOString() : undefined
+    }
+  }
+}
+
+// Only outages count against the breaker; auth, safety and quota errors say nothing about availability
+function isOutage(error: unknown): boolean {
+  return error instanceof AITimeoutError || (error instanceof AIProviderUnavailableError && !(error instanceof CircuitOpenError))
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export class ResilienceManager {
+  private breakers: Map<string, CircuitBreaker> = new Map()
+  readonly policy: ResiliencePolicy
+
+  constructor(policy: Partial<ResiliencePolicy> = {}) {
+    this.policy = { ...readPolicyFromEnv(), ...policy }
+  }
+
+  getBreaker(provider: string): CircuitBreaker {
+    let breaker = this.breakers.get(provider)
+    if (!breaker) {
+      breaker = new CircuitBreaker(provider, this.policy.breakerThreshold, this.policy.breakerCooldownMs)
+      this.breakers.set(provider, breaker)
+    }
+    return breaker
+  }
+
+  snapshot(): CircuitSnapshot[] {
+    return Array.from(this.breakers.values(), breaker => breaker.snapshot())
+  }
+
+  // Full jitter: a random delay up to the exponential cap spreads retries from parallel agents
+  backoffDelay(retry: number): number {
+    const cap = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (retry - 1))
+    return Math.round(Math.random() * cap)
+  }
+
+  // Runs one model call with a per-attempt timeout, retrying retryable AI errors with
+  // backoff. `canRetry` lets streaming callers stop retrying once output has been emitted.
+  async execute<T>(
+    provider: string,
+    call: (signal: AbortSignal) => Promise<T>,
+    options: { onRetry?: (info: RetryInfo) => void; canRetry?: () => boolean } = {}
+  ): Promise<T> {
+    const breaker = this.getBreaker(provider)
+    const maxAttempts = this.policy.maxRetries + 1
+
+    for (let attempt = 1; ; attempt++) {
+      breaker.acquire()
+
+      const controller = new AbortController()
+      const timer = setTimeout(
+        () => controller.abort(new AITimeoutError(`${provider} did not respond within ${this.policy.timeoutMs}ms`, provider)),
+        this.policy.timeoutMs
+      )
+
+      // Providers that ignore the signal still must not hold the caller past the timeout
+      const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason))
+      })
+
+      try {
+        const result = await Promise.race([call(controller.signal), aborted])
+        breaker.recordSuccess()
+        return result
+      } catch (rawError) {
+        const error = controller.signal.aborted && controller.signal.reason instanceof AITimeoutError
+          ? controller.signal.reason
+          : classifyProviderError(rawError, provider)
+
+        if (isOutage(error)) breaker.recordFailure()
+        else breaker.release()
+
+        const retryable = error instanceof AIError && error.retryable && !(error instanceof CircuitOpenError)
+        if (!retryable || attempt >= maxAttempts || (options.canRetry && !options.canRetry())) {
+          throw error
+        }
+
+        // Honour the provider's Retry-After, but never wait longer than the backoff cap allows
+        const retryAfterMs = error instanceof AIRateLimitError && error.retryAfterSeconds !== undefined
+          ? error.retryAfterSeconds * 1000
+          : undefined
+        if (retryAfterMs !== undefined && retryAfterMs > this.policy.maxDelayMs) {
+          throw error
+        }
+
+        const delayMs = retryAfterMs ?? this.backoffDelay(attempt)
+        logger.warn(`${provider}: ${error.code} on attempt ${attempt}/${maxAttempts}, retrying in ${delayMs}ms`)
+        options.onRetry?.({ provider, attempt: attempt + 1, maxAttempts, delayMs, error })
+
+        await sleep(delayMs)
+      } finally {
+        clearTimeout(timer)
+      }
+    }
+  }
+}
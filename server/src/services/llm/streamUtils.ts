@@ -0,0 +1,20 @@
+// Splits a fetch response body into lines as they arrive (SSE and NDJSON streams)
+export async function* readLines(body: any): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  let pending = ''
+
+  for await (const chunk of body as AsyncIterable<Uint8Array>) {
+    pending += decoder.decode(chunk, { stream: true })
+
+    let newline = pending.indexOf('\n')
+    while (newline !== -1) {
+      const line = pending.slice(0, newline).trim()
+      pending = pending.slice(newline + 1)
+      if (line) yield line
+      newline = pending.indexOf('\n')
+    }
+  }
+
+  pending += decoder.decode()
+  if (pending.trim()) yield pending.trim()
+}
@@ -0,0 +1,55 @@
+export interface GenerationConfig {
+  temperature?: number
+  topP?: number
+  topK?: number
+  maxOutputTokens?: number
+}
+
+export interface ProviderSelection {
+  provider?: string
+  model?: string
+}
+
+// Base64-encoded image sent alongside the text prompt
+export interface ImageInput {
+  mimeType: string
+  data: string
+}
+
+export interface GenerateContentRequest {
+  model: string
+  contents: string
+  config?: GenerationConfig
+  images?: ImageInput[]
+  // Aborted when the call times out
+  signal?: AbortSignal
+}
+
+// Token counts as reported by the provider
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface GenerateContentResult {
+  text: string
+  provider: string
+  model: string
+  // Missing when the provider did not report usage (e.g. cassette replays)
+  usage?: TokenUsage
+}
+
+export interface LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  generateContent(request: GenerateContentRequest): Promise<GenerateContentResult>
+  // Optional: yields text deltas as they arrive and returns the usage, if reported
+  generateContentStream?(request: GenerateContentRequest): AsyncGenerator<string, TokenUsage | undefined>
+}
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.7,
+  topP: 0.8,
+  topK: 40,
+  maxOutputTokens: 8192
+}
@@ -1,7 +1,22 @@
-import { MasterOrchestratorAgent } from '../agents/MasterOrchestratorAgent'
+import {
+  MasterOrchestratorAgent,
+  ClarifyingQuestion,
+  ClarificationAnswer,
+  PlanRetryOptions,
+  OrchestratorState,
+  ApprovalCheckpoint,
+  ApprovalDecision,
+  APPROVAL_CHECKPOINTS
+} from '../agents/MasterOrchestratorAgent'
 import { AgentMessage, AgentContext, agentBus } from '../agents/shared/AgentCommunication'
 import { logger } from '../utils/logger'
-import { SessionManager } from './sessionManager'
+import { SessionManager, CompileCheckSummary, sessionManager } from './sessionManager'
+import { compileFixService, GeneratedFile } from './compileFixService'
+import { guardrailService, GuardrailFinding, GuardrailViolationError } from './guardrailService'
+import { projectContextService } from './projectContextService'
+import { sessionStatePersistence, PersistedSession, PersistedFlutterSession } from './sessionStateStore'
+import { ProviderSelection, ImageInput, asAIError } from './llm'
+import { parseOpenApiDocument, generateDartApi, DartApi, HttpClientPackage } from './openApiDartGenerator'
 import fs from 'fs/promises'
 import path from 'path'
 
@@ -9,7 +24,7 @@ export interface MultiAgentSession {
   sessionId: string
   orchestrator: MasterOrchestratorAgent
   context: AgentContext
-  status: 'initializing' | 'planning' | 'executing' | 'integrating' | 'completed' | 'failed'
+  status: 'initializing' | 'planning' | 'awaiting_answers' | 'awaiting_approval' | 'executing' | 'integrating' | 'completed' | 'failed'
   startTime: Date
   lastActivity: Date
   progress: {
@@ -18,6 +33,43 @@ export interface MultiAgentSession {
     totalPlans: number
     currentAgent: string | null
   }
+  // Set while status is 'awaiting_answers'
+  pendingClarification?: {
+    userPrompt: string
+    questions: ClarifyingQuestion[]
+  }
+  // Saved with the session state so the Flutter session can be restored after a restart
+  flutterSession?: PersistedFlutterSession
+}
+
+export interface PromptOptions {
+  llm?: ProviderSelection
+  referenceImage?: ImageInput
+  // Ask clarifying questions before planning when the prompt is ambiguous
+  clarify?: boolean
+  // Bypass the response cache for every agent call of this prompt
+  noCache?: boolean
+  // Checkpoints where the build pauses in 'awaiting_approval'; defaults to ORCHESTRATOR_APPROVAL_CHECKPOINTS
+  approvals?: ApprovalCheckpoint[]
+}
+
+const DEFAULT_APPROVALS = (process.env.ORCHESTRATOR_APPROVAL_CHECKPOINTS || '')
+  .split(',')
+  .map(checkpoint => checkpoint.trim())
+  .filter((checkpoint): checkpoint is ApprovalCheckpoint => APPROVAL_CHECKPOINTS.includes(checkpoint as ApprovalCheckpoint))
+
+// Statuses of a build that was still running; after a restart such a session is failed and
+// can be resumed with /continue
+const RUNNING_STATUSES: Array<MultiAgentSession['status']> = ['initializing', 'planning', 'executing', 'integrating']
+
+// Uploaded OpenAPI documents are kept in the Flutter project, with the chosen HTTP client stored
+// as a vendor extension so the document stays valid
+const OPENAPI_FILE = 'openapi.json'
+const OPENAPI_CLIENT_EXTENSION = 'x-dart-client'
+
+// Messages in the history carry the session context, which holds the history itself
+function withoutContext(message: AgentMessage): AgentMessage {
+  return { ...message, payload: { ...message.payload, context: undefined } }
 }
 
 export class MultiAgentService {
@@ -26,16 +78,21 @@ export class MultiAgentService {
 
   constructor(sessionManager: SessionManager) {
     this.sessionManager = sessionManager
+    // A build whose project was deleted can no longer be resumed, so it goes with it
+    this.sessionManager.onSessionTerminated(sessionId => this.cleanupSession(sessionId))
     logger.info('Multi-Agent Service initialized')
   }
 
-  async createSession(sessionId: string, userPrompt: string): Promise<MultiAgentSession> {
+  async createSession(sessionId: string, userPrompt: string, llm?: ProviderSelection, referenceImage?: ImageInput): Promise<MultiAgentSession> {
     logger.info(`Multi-Agent Service: Creating session ${sessionId}`)
 
     const orchestrator = new MasterOrchestratorAgent()
+    // Model usage is billed to the owner of the Flutter session
+    const flutterSession = await this.sessionManager.getSession(sessionId)
 
     const context: AgentContext = {
       sessionId,
+      userId: flutterSession?.userId,
       projectContext: {
         userPrompt,
         createdAt: new Date(),
@@ -45,7 +102,9 @@ export class MultiAgentService {
       currentPhase: 'initialization',
       metadata: {
         userPrompt,
-        startTime: new Date()
+        startTime: new Date(),
+        llm,
+        referenceImage
       }
     }
 
@@ -61,10 +120,19 @@ export class MultiAgentService {
         completedPlans: 0,
         totalPlans: 0,
         currentAgent: null
+      },
+      flutterSession: flutterSession && {
+        userId: flutterSession.userId,
+        projectPath: flutterSession.projectPath,
+        port: flutterSession.port,
+        previewUrl: flutterSession.previewUrl,
+        createdAt: flutterSession.createdAt
       }
     }
 
     this.sessions.set(sessionId, session)
+    this.watchOrchestrator(session)
+    this.persist(session)
 
     // Update agent communication bus context
     agentBus.updateContext(sessionId, context)
@@ -73,19 +141,156 @@ export class MultiAgentService {
     return session
   }
 
-  async processUserPrompt(sessionId: string, userPrompt: string): Promise<any> {
+  async processUserPrompt(sessionId: string, userPrompt: string, options: PromptOptions = {}): Promise<any> {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`)
+    }
+
+    if (options.llm) {
+      session.context.metadata.llm = options.llm
+    }
+    if (options.referenceImage) {
+      session.context.metadata.referenceImage = options.referenceImage
+    }
+    session.context.metadata.noCache = options.noCache || false
+    session.context.metadata.approvals = options.approvals ?? DEFAULT_APPROVALS
+
+    session.lastActivity = new Date()
+
+    if (!options.clarify) {
+      return this.startBuild(session, userPrompt)
+    }
+
+    this.setStatus(session, 'planning')
+    session.progress.currentPhase = 'clarification'
+
+    try {
+      const result = await session.orchestrator.processMessage({
+        id: `clarify_${Date.now()}`,
+        agentId: 'master-orchestrator',
+        type: 'request',
+        payload: {
+          action: 'clarify_requirements',
+          userPrompt,
+          context: session.context
+        },
+        timestamp: new Date(),
+        sessionId
+      })
+
+      if (!result.success) {
+        this.setStatus(session, 'failed')
+        return {
+          success: false,
+          error: result.error,
+          sessionId,
+          status: session.status,
+          aiError: result.aiError
+        }
+      }
+
+      const questions: ClarifyingQuestion[] = result.data.questions
+      if (questions.length === 0) {
+        return this.startBuild(session, userPrompt)
+      }
+
+      session.pendingClarification = { userPrompt, questions }
+      this.setStatus(session, 'awaiting_answers')
+      logger.info(`Multi-Agent Service: Session ${sessionId} awaiting answers to ${questions.length} question(s)`)
+
+      return {
+        success: true,
+        sessionId,
+        status: session.status,
+        progress: session.progress,
+        questions
+      }
+    } catch (error) {
+      this.setStatus(session, 'failed')
+      logger.error(`Multi-Agent Service: Error clarifying prompt for session ${sessionId}:`, error)
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        sessionId,
+        status: session.status,
+        aiError: asAIError(error)
+      }
+    }
+  }
+
+  // Unanswered questions fall back to their suggested default
+  async submitAnswers(sessionId: string, answers: Record<string, string>): Promise<any> {
     const session = this.sessions.get(sessionId)
     if (!session) {
       throw new Error(`Session ${sessionId} not found`)
     }
 
-    session.status = 'planning'
+    const pending = session.pendingClarification
+    if (session.status !== 'awaiting_answers' || !pending) {
+      throw new Error(`Session ${sessionId} is not awaiting answers`)
+    }
+
+    const clarifications: ClarificationAnswer[] = pending.questions.map(q => ({
+      topic: q.topic,
+      question: q.question,
+      answer: answers[q.id]?.trim() || q.suggestedDefault
+    }))
+
+    session.context.projectContext.clarifications = clarifications
+    session.pendingClarification = undefined
+    session.lastActivity = new Date()
+
+    return this.startBuild(session, pending.userPrompt)
+  }
+
+  // Validates the document by generating its API layer once, then stores it for the session's
+  // builds; a later upload replaces it. Throws OpenApiError for documents that cannot be used.
+  async setApiSpec(sessionId: string, input: unknown, client: HttpClientPackage): Promise<DartApi> {
+    const document = parseOpenApiDocument(input)
+    const api = generateDartApi(document, { client })
+
+    await this.sessionManager.ensureSession(sessionId)
+    await fs.writeFile(
+      path.join(this.sessionManager.getSessionPath(sessionId), OPENAPI_FILE),
+      JSON.stringify({ ...document, [OPENAPI_CLIENT_EXTENSION]: client }, null, 2)
+    )
+
+    logger.info(`Multi-Agent Service: Stored OpenAPI document "${api.title}" for session ${sessionId}`)
+    return api
+  }
+
+  private async loadApiSpec(sessionId: string): Promise<{ document: any; client: HttpClientPackage } | undefined> {
+    try {
+      const stored = JSON.parse(await fs.readFile(path.join(this.sessionManager.getSessionPath(sessionId), OPENAPI_FILE), 'utf8'))
+      const { [OPENAPI_CLIENT_EXTENSION]: client, ...document } = stored
+      return { document, client: client || 'http' }
+    } catch {
+      return undefined
+    }
+  }
+
+  private async startBuild(session: MultiAgentSession, userPrompt: string): Promise<any> {
+    const { sessionId } = session
+
+    this.setStatus(session, 'planning')
     session.lastActivity = new Date()
     session.progress.currentPhase = 'planning'
 
     logger.info(`Multi-Agent Service: Processing prompt for session ${sessionId}`)
 
     try {
+      // Show the agents what already exists so they extend it instead of re-declaring it
+      const workspaceContext = await projectContextService.buildContext(
+        this.sessionManager.getSessionPath(sessionId),
+        { prompt: userPrompt }
+      )
+      session.context.metadata.workspaceContext = workspaceContext.files.length > 0 || workspaceContext.summaries.length > 0
+        ? projectContextService.format(workspaceContext)
+        : undefined
+      session.context.metadata.openApi = await this.loadApiSpec(sessionId)
+
       // Create agent message for orchestrator
       const message: AgentMessage = {
         id: `msg_${Date.now()}`,
@@ -94,6 +299,7 @@ export class MultiAgentService {
         payload: {
           action: 'build_app',
           userPrompt,
+          approvals: session.context.metadata.approvals,
           context: session.context
         },
         timestamp: new Date(),
@@ -107,7 +313,7 @@ export class MultiAgentService {
       const result = await session.orchestrator.processMessage(message)
 
       if (result.success) {
-        session.status = 'executing'
+        this.setStatus(session, 'executing')
         session.progress.currentPhase = 'execution'
 
         if (result.data && result.data.plans) {
@@ -117,44 +323,68 @@ export class MultiAgentService {
         // Continue with execution automatically
         return await this.continueExecution(sessionId)
       } else {
-        session.status = 'failed'
+        this.setStatus(session, 'failed')
         logger.error(`Multi-Agent Service: Session ${sessionId} failed:`, result.error)
 
         return {
           success: false,
           error: result.error,
           sessionId,
-          status: session.status
+          status: session.status,
+          aiError: result.aiError
         }
       }
     } catch (error) {
-      session.status = 'failed'
+      this.setStatus(session, 'failed')
       logger.error(`Multi-Agent Service: Error processing prompt for session ${sessionId}:`, error)
 
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
         sessionId,
-        status: session.status
+        status: session.status,
+        aiError: asAIError(error)
       }
     }
   }
 
+  // Runs the plans that have not completed yet, then integrates and writes the project
   async continueExecution(sessionId: string): Promise<any> {
+    return this.resumeOrchestrator(sessionId, { action: 'continue_execution' })
+  }
+
+  // Runs one plan again (and the plans that depend on it), optionally with payload edits and
+  // guidance for the agent, then integrates and writes the project
+  async retryPlan(sessionId: string, planId: string, options: PlanRetryOptions = {}): Promise<any> {
+    return this.resumeOrchestrator(sessionId, { action: 'retry_plan', planId, ...options })
+  }
+
+  // Approves, edits or rejects the artifact of the checkpoint the session is paused at
+  async resolveApproval(sessionId: string, decision: ApprovalDecision): Promise<any> {
+    return this.resumeOrchestrator(sessionId, {
+      action: 'resolve_approval',
+      decision: decision.action,
+      artifact: decision.artifact,
+      feedback: decision.feedback
+    })
+  }
+
+  private async resumeOrchestrator(sessionId: string, payload: Record<string, any>): Promise<any> {
     const session = this.sessions.get(sessionId)
     if (!session) {
       throw new Error(`Session ${sessionId} not found`)
     }
 
+    this.setStatus(session, 'executing')
     session.lastActivity = new Date()
 
     try {
       const message: AgentMessage = {
-        id: `continue_${Date.now()}`,
+        id: `${payload.action}_${Date.now()}`,
         agentId: 'master-orchestrator',
         type: 'request',
         payload: {
-          action: 'continue_execution',
+          ...payload,
           context: session.context
         },
         timestamp: new Date(),
@@ -163,19 +393,38 @@ export class MultiAgentService {
 
       const result = await session.orchestrator.processMessage(message)
 
-      if (result.success && result.data) {
-        // Update progress based on orchestrator state
-        const orchestratorState = session.orchestrator.getCurrentState()
-        session.progress.currentPhase = orchestratorState.currentPhase
-        session.progress.completedPlans = orchestratorState.plans.filter(p => p.status === 'completed').length
-        session.progress.totalPlans = orchestratorState.plans.length
-        session.progress.currentAgent = orchestratorState.plans.find(p => p.status === 'in_progress')?.agentId || null
+      const orchestratorState = session.orchestrator.getCurrentState()
+      this.updateProgress(session, orchestratorState)
+
+      // Paused at a checkpoint; a decision that failed (e.g. an invalid edit) leaves it paused
+      const approval = orchestratorState.pendingApproval
+      if (approval) {
+        this.setStatus(session, 'awaiting_approval')
+
+        return {
+          success: result.success,
+          error: result.error,
+          data: result.data,
+          sessionId,
+          status: session.status,
+          progress: session.progress,
+          approval,
+          aiError: result.aiError
+        }
+      }
 
+      if (result.success && result.data) {
         if (orchestratorState.currentPhase === 'completion' && orchestratorState.finalResult) {
-          session.status = 'completed'
+          this.setStatus(session, 'completed')
 
           // Generate Flutter project files
-          await this.generateFlutterProject(sessionId, orchestratorState.finalResult)
+          const { compileCheck, guardrails } = await this.generateFlutterProject(
+            sessionId,
+            orchestratorState.finalResult,
+            session.context.metadata.llm
+          )
+          // Guardrails and compile fixes replace files in the final result
+          this.persist(session)
 
           return {
             success: true,
@@ -183,10 +432,12 @@ export class MultiAgentService {
             sessionId,
             status: session.status,
             progress: session.progress,
-            flutterProjectGenerated: true
+            flutterProjectGenerated: true,
+            compileCheck,
+            guardrails
           }
         } else {
-          session.status = 'executing'
+          this.setStatus(session, 'executing')
 
           return {
             success: true,
@@ -198,32 +449,45 @@ export class MultiAgentService {
           }
         }
       } else {
-        session.status = 'failed'
+        this.setStatus(session, 'failed')
 
         return {
           success: false,
           error: result.error,
           sessionId,
-          status: session.status
+          status: session.status,
+          // Shows which plans completed and will be kept by the next continue or retry
+          progress: session.progress,
+          aiError: result.aiError
         }
       }
     } catch (error) {
-      session.status = 'failed'
-      logger.error(`Multi-Agent Service: Error continuing execution for session ${sessionId}:`, error)
+      this.setStatus(session, 'failed')
+      logger.error(`Multi-Agent Service: Error resuming execution for session ${sessionId}:`, error)
 
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
         sessionId,
-        status: session.status
+        status: session.status,
+        aiError: asAIError(error),
+        // Set when the generated files were blocked before anything was written
+        guardrails: error instanceof GuardrailViolationError ? error.findings : undefined
       }
     }
   }
 
-  private async generateFlutterProject(sessionId: string, agentResult: any): Promise<void> {
+  private async generateFlutterProject(
+    sessionId: string,
+    agentResult: any,
+    llm?: ProviderSelection
+  ): Promise<{ compileCheck: CompileCheckSummary; guardrails: GuardrailFinding[] }> {
     try {
       logger.info(`Multi-Agent Service: Generating Flutter project for session ${sessionId}`)
 
+      // Every agent-written file is checked before the first one reaches the workspace
+      const guardrails = this.applyGuardrails(agentResult)
+
       // Ensure session has Flutter project directory
       await this.sessionManager.ensureSession(sessionId)
 
@@ -255,16 +519,65 @@ export class MultiAgentService {
         await this.generateTestFiles(sessionPath, agentResult.tests.testSuite)
       }
 
-      // Trigger hot reload
-      await this.sessionManager.hotReload(sessionId)
+      // Run the analyzer and let the model fix errors before the preview reloads
+      const fixResult = await compileFixService.analyzeAndFix({
+        projectPath: sessionPath,
+        files: agentResult.code?.files || [],
+        prompt: agentResult.project?.description || '',
+        llm,
+        usage: { sessionId, userId: this.sessions.get(sessionId)?.context.userId }
+      })
+
+      if (agentResult.code && fixResult.fixRounds > 0) {
+        agentResult.code.files = fixResult.files
+      }
+
+      // Trigger hot reload; a session restored after a restart has no preview running yet
+      try {
+        await this.sessionManager.hotReload(sessionId)
+      } catch (error) {
+        logger.warn(`Multi-Agent Service: Hot reload skipped for session ${sessionId}: ${error instanceof Error ? error.message : error}`)
+      }
 
       logger.info(`Multi-Agent Service: Flutter project generated successfully for session ${sessionId}`)
+
+      return {
+        compileCheck: {
+          analyzed: fixResult.analyzed,
+          fixRounds: fixResult.fixRounds,
+          remainingDiagnostics: fixResult.remainingDiagnostics
+        },
+        guardrails: [...guardrails, ...fixResult.guardrails]
+      }
     } catch (error) {
       logger.error(`Multi-Agent Service: Error generating Flutter project for session ${sessionId}:`, error)
       throw error
     }
   }
 
+  // Replaces the code and test files in the result with what the guardrails allow, so the
+  // response carries the same (stripped) files that are written
+  private applyGuardrails(agentResult: any): GuardrailFinding[] {
+    const findings: GuardrailFinding[] = []
+
+    if (agentResult.code?.files) {
+      const report = guardrailService.enforce(agentResult.code.files as GeneratedFile[])
+      agentResult.code.files = report.files
+      findings.push(...report.findings)
+    }
+
+    const testSuite = agentResult.tests?.testSuite
+    for (const kind of ['unitTests', 'widgetTests', 'integrationTests']) {
+      if (!testSuite?.[kind]) continue
+
+      const report = guardrailService.enforce(testSuite[kind].map((test: any) => ({ ...test, path: test.file })))
+      testSuite[kind] = report.files.map(({ path: file, ...test }) => ({ ...test, file }))
+      findings.push(...report.findings)
+    }
+
+    return findings
+  }
+
   private async updatePubspecDependencies(sessionPath: string, dependencies: any[]): Promise<void> {
     const pubspecPath = path.join(sessionPath, 'pubspec.yaml')
 
@@ -276,10 +589,12 @@ export class MultiAgentService {
       let devDependenciesSection = 'dev_dependencies:\n  flutter_test:\n    sdk: flutter\n'
 
       for (const dep of dependencies) {
+        // SDK packages such as flutter_localizations have no version
+        const entry = dep.sdk ? `  ${dep.name}:\n    sdk: ${dep.sdk}\n` : `  ${dep.name}: ${dep.version}\n`
         if (dep.dev) {
-          devDependenciesSection += `  ${dep.name}: ${dep.version}\n`
+          devDependenciesSection += entry
         } else {
-          dependenciesSection += `  ${dep.name}: ${dep.version}\n`
+          dependenciesSection += entry
         }
       }
 
@@ -294,6 +609,11 @@ export class MultiAgentService {
         devDependenciesSection + '\n'
       )
 
+      // gen-l10n only builds AppLocalizations from the ARB files with generate: true
+      if (dependencies.some(dep => dep.name === 'flutter_localizations') && !/^  generate: true$/m.test(pubspecContent)) {
+        pubspecContent = pubspecContent.replace(/^flutter:\n/m, 'flutter:\n  generate: true\n')
+      }
+
       await fs.writeFile(pubspecPath, pubspecContent, 'utf-8')
       logger.info('Multi-Agent Service: Updated pubspec.yaml with new dependencies')
     } catch (error) {
@@ -351,6 +671,99 @@ export class MultiAgentService {
     }
   }
 
+  // Restores the sessions in the state store, e.g. after a restart or deploy. Plans that were
+  // running when the server stopped go back to pending, so /continue runs them again.
+  async rehydrate(): Promise<number> {
+    let restored = 0
+
+    for (const saved of await sessionStatePersistence.loadAll()) {
+      if (this.sessions.has(saved.sessionId)) continue
+
+      const interrupted = RUNNING_STATUSES.includes(saved.status)
+      for (const plan of saved.orchestrator.plans) {
+        if (plan.status !== 'in_progress') continue
+        plan.status = 'pending'
+        plan.startedAt = undefined
+      }
+
+      const orchestrator = new MasterOrchestratorAgent()
+      orchestrator.restoreState(saved.orchestrator)
+
+      const session: MultiAgentSession = {
+        sessionId: saved.sessionId,
+        orchestrator,
+        context: saved.context,
+        status: interrupted ? 'failed' : saved.status,
+        startTime: saved.startTime,
+        lastActivity: saved.lastActivity,
+        progress: { ...saved.progress, currentAgent: null },
+        pendingClarification: saved.pendingClarification,
+        flutterSession: saved.flutterSession
+      }
+
+      // Routes that write into the project need its Flutter session too
+      if (saved.flutterSession && await fs.stat(saved.flutterSession.projectPath).then(() => true, () => false)) {
+        this.sessionManager.restoreSession(saved.sessionId, saved.flutterSession)
+      } else {
+        logger.warn(`Multi-Agent Service: Project of session ${saved.sessionId} is gone; its build can be inspected but not resumed`)
+      }
+
+      this.sessions.set(session.sessionId, session)
+      this.watchOrchestrator(session)
+      agentBus.updateContext(session.sessionId, session.context)
+      if (interrupted) {
+        logger.warn(`Multi-Agent Service: Session ${session.sessionId} was interrupted in ${saved.progress.currentPhase}, marked failed`)
+        this.persist(session)
+      }
+      restored++
+    }
+
+    if (restored > 0) {
+      logger.info(`Multi-Agent Service: Restored ${restored} session(s) from the ${sessionStatePersistence.kind} state store`)
+    }
+    return restored
+  }
+
+  // Keeps progress in step with the orchestrator and saves the session on every transition
+  private watchOrchestrator(session: MultiAgentSession): void {
+    session.orchestrator.onStateChange(state => {
+      this.updateProgress(session, state)
+      this.persist(session)
+    })
+  }
+
+  private updateProgress(session: MultiAgentSession, state: OrchestratorState): void {
+    session.progress.currentPhase = state.currentPhase
+    session.progress.completedPlans = state.plans.filter(p => p.status === 'completed').length
+    session.progress.totalPlans = state.plans.length
+    session.progress.currentAgent = state.plans.find(p => p.status === 'in_progress')?.agentId || null
+  }
+
+  private setStatus(session: MultiAgentSession, status: MultiAgentSession['status']): void {
+    session.status = status
+    this.persist(session)
+  }
+
+  private persist(session: MultiAgentSession): void {
+    const state: PersistedSession = {
+      sessionId: session.sessionId,
+      status: session.status,
+      startTime: session.startTime,
+      lastActivity: session.lastActivity,
+      progress: session.progress,
+      pendingClarification: session.pendingClarification,
+      context: {
+        ...session.context,
+        conversationHistory: session.context.conversationHistory.map(withoutContext)
+      },
+      orchestrator: session.orchestrator.getCurrentState(),
+      flutterSession: session.flutterSession,
+      savedAt: new Date()
+    }
+
+    sessionStatePersistence.save(state)
+  }
+
   getSession(sessionId: string): MultiAgentSession | undefined {
     return this.sessions.get(sessionId)
   }
@@ -365,6 +778,8 @@ export class MultiAgentService {
       sessionId,
       status: session.status,
       progress: session.progress,
+      questions: session.pendingClarification?.questions,
+      approval: session.orchestrator.getCurrentState().pendingApproval,
       startTime: session.startTime,
       lastActivity: session.lastActivity,
       orchestratorState: session.orchestrator.getCurrentState()
@@ -377,6 +792,7 @@ export class MultiAgentService {
       // Reset orchestrator state
       session.orchestrator.resetState()
       this.sessions.delete(sessionId)
+      sessionStatePersistence.delete(sessionId)
       logger.info(`Multi-Agent Service: Cleaned up session ${sessionId}`)
     }
   }
@@ -455,4 +871,6 @@ export class MultiAgentService {
       }
     }
   }
-}
\ No newline at end of file
+}
+
+export const multiAgentService = new MultiAgentService(sessionManager)
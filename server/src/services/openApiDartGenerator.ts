@@ -0,0 +1,782 @@
+import { PACKAGE_VERSIONS } from './flutterEngine'
+
+// Generates the Dart API layer of an app from an OpenAPI 3 document: models with
+// fromJson/toJson, an ApiClient on http or dio with one method per operation, and one
+// repository per tag. The output depends only on the document, so the same document always
+// yields the same files. Only JSON documents and local $refs are supported.
+
+export type HttpClientPackage = 'http' | 'dio'
+
+export const HTTP_CLIENT_PACKAGES: HttpClientPackage[] = ['http', 'dio']
+
+export interface OpenApiDocument {
+  openapi: string
+  info?: { title?: string; version?: string; description?: string }
+  servers?: Array<{ url: string }>
+  paths: Record<string, Record<string, any>>
+  components?: Record<string, Record<string, any>>
+  [extension: string]: any
+}
+
+export interface DartApiOperation {
+  name: string
+  method: string
+  path: string
+  repository: string
+  // e.g. Future<Pet> getPetById(int petId)
+  signature: string
+}
+
+export interface DartApi {
+  title: string
+  client: HttpClientPackage
+  files: Array<{ path: string; content: string; description: string }>
+  dependencies: Array<{ name: string; version: string; dev: boolean; description: string }>
+  models: string[]
+  operations: DartApiOperation[]
+  // What the generated code offers, written for another agent's prompt
+  surface: string
+}
+
+export class OpenApiError extends Error {
+  statusCode = 400
+  code = 'INVALID_OPENAPI'
+  isOperational = true
+  details: { problems: string[] }
+
+  constructor(message: string, problems: string[] = []) {
+    super(problems.length > 0 ? `${message}: ${problems.join('; ')}` : message)
+    this.name = 'OpenApiError'
+    this.details = { problems }
+  }
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options']
+
+const DART_RESERVED = new Set([
+  'abstract', 'as', 'assert', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'covariant', 'default', 'deferred', 'do', 'dynamic', 'else', 'enum', 'export', 'extends', 'extension',
+  'external', 'factory', 'false', 'final', 'finally', 'for', 'function', 'get', 'hide', 'if', 'implements',
+  'import', 'in', 'interface', 'is', 'late', 'library', 'mixin', 'new', 'null', 'on', 'operator', 'part',
+  'required', 'rethrow', 'return', 'set', 'show', 'static', 'super', 'switch', 'sync', 'this', 'throw',
+  'true', 'try', 'typedef', 'var', 'void', 'while', 'with', 'yield', 'values', 'index', 'hashCode',
+  'runtimeType', 'toString', 'toJson', 'fromJson', 'noSuchMethod'
+])
+
+// Dart class names the generated code or the Dart core library already use
+const RESERVED_TYPE_NAMES = new Set(['ApiClient', 'ApiException', 'Object', 'String', 'List', 'Map', 'Set', 'DateTime', 'Duration', 'Type', 'Function', 'Future', 'Stream', 'Error', 'Exception', 'Uri', 'Response', 'Request', 'Client', 'Options'])
+
+// Accepts the parsed document or its JSON text
+export function parseOpenApiDocument(input: unknown): OpenApiDocument {
+  let document: any = input
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input)
+    } catch (error) {
+      throw new OpenApiError('OpenAPI document is not valid JSON (YAML documents must be converted to JSON first)', [error instanceof Error ? error.message : String(error)])
+    }
+  }
+
+  const problems: string[] = []
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new OpenApiError('OpenAPI document must be a JSON object')
+  }
+  if (typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    problems.push(document.swagger ? 'Swagger 2.0 documents are not supported, convert them to OpenAPI 3' : '"openapi" must be a 3.x version')
+  }
+  if (!document.paths || typeof document.paths !== 'object' || Object.keys(document.paths).length === 0) {
+    problems.push('"paths" must list at least one path')
+  }
+  for (const ref of collectRefs(document)) {
+    if (!ref.startsWith('#/')) {
+      problems.push(`External reference ${ref} is not supported`)
+    } else if (resolvePointer(document, ref) === undefined) {
+      problems.push(`Reference ${ref} does not resolve`)
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new OpenApiError('Invalid OpenAPI document', Array.from(new Set(problems)))
+  }
+  return document as OpenApiDocument
+}
+
+function collectRefs(value: any, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectRefs(item, refs))
+  } else if (value && typeof value === 'object') {
+    if (typeof value.$ref === 'string') refs.add(value.$ref)
+    Object.values(value).forEach(item => collectRefs(item, refs))
+  }
+  return refs
+}
+
+function resolvePointer(document: any, ref: string): any {
+  return ref.slice(2).split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, part) => node?.[part], document)
+}
+
+function refCycleError(ref: string): OpenApiError {
+  return new OpenApiError('Invalid OpenAPI document', [`Reference ${ref} refers back to itself without an object schema in between`])
+}
+
+// Splits on anything that is not a letter or digit and on camelCase boundaries
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+}
+
+function pascalCase(name: string): string {
+  const result = words(name).map(word => word[0].toUpperCase() + word.slice(1)).join('')
+  return /^[0-9]/.test(result) ? `N${result}` : result || 'Unnamed'
+}
+
+function camelCase(name: string): string {
+  const pascal = pascalCase(name)
+  const result = pascal[0].toLowerCase() + pascal.slice(1)
+  return DART_RESERVED.has(result) ? `${result}Value` : result
+}
+
+function snakeCase(name: string): string {
+  return words(name).map(word => word.toLowerCase()).join('_') || 'unnamed'
+}
+
+function dartString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\$/g, '\\$').replace(/\n/g, '\\n')}'`
+}
+
+function docComment(text: string | undefined, indent: string): string {
+  if (!text) return ''
+  return text.trim().split('\n').map(line => `${indent}/// ${line.trim()}`.trimEnd()).join('\n') + '\n'
+}
+
+type DartType =
+  | { kind: 'primitive'; name: 'String' | 'int' | 'double' | 'num' | 'bool' }
+  | { kind: 'dateTime' }
+  | { kind: 'model'; name: string }
+  | { kind: 'enum'; name: string }
+  | { kind: 'list'; item: DartType }
+  | { kind: 'map'; value: DartType }
+  | { kind: 'dynamic' }
+
+interface ModelField {
+  jsonKey: string
+  name: string
+  type: DartType
+  nullable: boolean
+  description?: string
+}
+
+interface ModelDefinition {
+  kind: 'class'
+  name: string
+  description?: string
+  fields: ModelField[]
+}
+
+interface EnumDefinition {
+  kind: 'enum'
+  name: string
+  description?: string
+  values: string[]
+}
+
+function typeName(type: DartType): string {
+  switch (type.kind) {
+    case 'primitive': return type.name
+    case 'dateTime': return 'DateTime'
+    case 'model':
+    case 'enum': return type.name
+    case 'list': return `List<${typeName(type.item)}>`
+    case 'map': return `Map<String, ${typeName(type.value)}>`
+    case 'dynamic': return 'dynamic'
+  }
+}
+
+function fromJson(type: DartType, expression: string): string {
+  switch (type.kind) {
+    case 'primitive':
+      if (type.name === 'int') return `(${expression} as num).toInt()`
+      if (type.name === 'double') return `(${expression} as num).toDouble()`
+      return `${expression} as ${type.name}`
+    case 'dateTime': return `DateTime.parse(${expression} as String)`
+    case 'model': return `${type.name}.fromJson(${expression} as Map<String, dynamic>)`
+    case 'enum': return `${type.name}.fromJson(${expression} as String)`
+    case 'list': return `(${expression} as List<dynamic>).map((e) => ${fromJson(type.item, 'e')}).toList()`
+    case 'map': return `(${expression} as Map<String, dynamic>).map((k, v) => MapEntry(k, ${fromJson(type.value, 'v')}))`
+    case 'dynamic': return expression
+  }
+}
+
+function toJson(type: DartType, expression: string, nullable: boolean): string {
+  const access = nullable ? '?.' : '.'
+  switch (type.kind) {
+    case 'dateTime': return `${expression}${access}toIso8601String()`
+    case 'model':
+    case 'enum': return `${expression}${access}toJson()`
+    case 'list': {
+      const item = toJson(type.item, 'e', false)
+      return item === 'e' ? expression : `${expression}${access}map((e) => ${item}).toList()`
+    }
+    case 'map': {
+      const value = toJson(type.value, 'v', false)
+      return value === 'v' ? expression : `${expression}${access}map((k, v) => MapEntry(k, ${value}))`
+    }
+    default: return expression
+  }
+}
+
+// Turns schemas into Dart types, registering a class for every object schema with properties
+// and an enum for every string enum; inline ones are named after where they appear
+class TypeRegistry {
+  readonly definitions = new Map<string, ModelDefinition | EnumDefinition>()
+  private refNames = new Map<string, string>()
+  private resolving = new Set<string>()
+  // Refs being followed to a schema that gets no class of its own, which a cycle would never leave
+  private followedRefs = new Set<string>()
+
+  constructor(private document: OpenApiDocument) {}
+
+  resolve(schema: any, suggestedName: string): DartType {
+    if (!schema || typeof schema !== 'object') return { kind: 'dynamic' }
+
+    if (schema.$ref) {
+      const target = resolvePointer(this.document, schema.$ref)
+      if (!this.isNamed(target)) {
+        if (this.followedRefs.has(schema.$ref)) throw refCycleError(schema.$ref)
+        this.followedRefs.add(schema.$ref)
+        try {
+          return this.resolve(target, suggestedName)
+        } finally {
+          this.followedRefs.delete(schema.$ref)
+        }
+      }
+
+      const existing = this.refNames.get(schema.$ref)
+      if (existing) return { kind: target.enum ? 'enum' : 'model', name: existing }
+
+      const name = this.uniqueName(pascalCase(schema.$ref.split('/').pop() as string))
+      this.refNames.set(schema.$ref, name)
+      return this.define(target, name)
+    }
+
+    if (this.isNamed(schema)) {
+      return this.define(schema, this.uniqueName(pascalCase(suggestedName)))
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      const merged = this.mergeAllOf(schema)
+      return Object.keys(merged.properties).length > 0
+        ? this.define(merged, this.uniqueName(pascalCase(suggestedName)))
+        : { kind: 'dynamic' }
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return schema.format === 'date-time' || schema.format === 'date' ? { kind: 'dateTime' } : { kind: 'primitive', name: 'String' }
+      case 'integer':
+        return { kind: 'primitive', name: 'int' }
+      case 'number':
+        return { kind: 'primitive', name: schema.format === 'float' || schema.format === 'double' ? 'double' : 'num' }
+      case 'boolean':
+        return { kind: 'primitive', name: 'bool' }
+      case 'array':
+        return { kind: 'list', item: this.resolve(schema.items, `${suggestedName}Item`) }
+      case 'object':
+        return {
+          kind: 'map',
+          value: typeof schema.additionalProperties === 'object' ? this.resolve(schema.additionalProperties, `${suggestedName}Value`) : { kind: 'dynamic' }
+        }
+      default:
+        return { kind: 'dynamic' }
+    }
+  }
+
+  // Object schemas with properties become classes and string enums become Dart enums
+  private isNamed(schema: any): boolean {
+    if (!schema || typeof schema !== 'object') return false
+    if (Array.isArray(schema.enum)) return (schema.type === 'string' || !schema.type) && schema.enum.every((v: any) => typeof v === 'string')
+    if (Array.isArray(schema.allOf)) return true
+    return !!schema.properties && Object.keys(schema.properties).length > 0
+  }
+
+  private define(schema: any, name: string): DartType {
+    if (Array.isArray(schema.enum)) {
+      this.definitions.set(name, { kind: 'enum', name, description: schema.description, values: schema.enum })
+      return { kind: 'enum', name }
+    }
+
+    // Guards self-referencing schemas such as a tree node with children
+    if (this.resolving.has(name) || this.definitions.has(name)) return { kind: 'model', name }
+    this.resolving.add(name)
+
+    const merged = Array.isArray(schema.allOf) ? this.mergeAllOf(schema) : schema
+    const required = new Set<string>(merged.required || [])
+    const usedNames = new Set<string>()
+    const definition: ModelDefinition = { kind: 'class', name, description: merged.description, fields: [] }
+    this.definitions.set(name, definition)
+
+    for (const [jsonKey, property] of Object.entries<any>(merged.properties || {})) {
+      let fieldName = camelCase(jsonKey)
+      while (usedNames.has(fieldName)) fieldName = `${fieldName}_`
+      usedNames.add(fieldName)
+
+      const target = property?.$ref ? resolvePointer(this.document, property.$ref) : property
+      definition.fields.push({
+        jsonKey,
+        name: fieldName,
+        type: this.resolve(property, `${name}${pascalCase(jsonKey)}`),
+        nullable: !required.has(jsonKey) || !!target?.nullable,
+        description: target?.description
+      })
+    }
+
+    this.resolving.delete(name)
+    return { kind: 'model', name }
+  }
+
+  // `refs` are the allOf refs already being merged, so a schema cannot include itself
+  private mergeAllOf(schema: any, refs: string[] = []): any {
+    const merged = { description: schema.description, properties: { ...schema.properties } as Record<string, any>, required: [...(schema.required || [])] }
+    for (const part of schema.allOf) {
+      if (part?.$ref && refs.includes(part.$ref)) throw refCycleError(part.$ref)
+      const resolved = part?.$ref ? resolvePointer(this.document, part.$ref) : part
+      const flat = Array.isArray(resolved?.allOf) ? this.mergeAllOf(resolved, part?.$ref ? [...refs, part.$ref] : refs) : resolved
+      Object.assign(merged.properties, flat?.properties || {})
+      merged.required.push(...(flat?.required || []))
+    }
+    return merged
+  }
+
+  private uniqueName(name: string): string {
+    let candidate = RESERVED_TYPE_NAMES.has(name) ? `${name}Model` : name
+    for (let n = 2; this.definitions.has(candidate) || Array.from(this.refNames.values()).includes(candidate); n++) {
+      candidate = `${name}${n}`
+    }
+    return candidate
+  }
+}
+
+interface OperationParameter {
+  name: string
+  jsonName: string
+  location: 'path' | 'query'
+  type: DartType
+  required: boolean
+}
+
+interface Operation {
+  name: string
+  method: string
+  path: string
+  repository: string
+  summary?: string
+  parameters: OperationParameter[]
+  body?: { type: DartType; required: boolean }
+  response?: DartType
+  // Headers, cookies and non-JSON bodies the generated method does not send
+  skipped: string[]
+}
+
+function operationName(method: string, path: string, operation: any): string {
+  if (operation.operationId) return camelCase(operation.operationId)
+
+  const segments = path.split('/').filter(Boolean).map(segment =>
+    segment.startsWith('{') ? `By ${segment.slice(1, -1)}` : segment
+  )
+  return camelCase(`${method} ${segments.join(' ')}`)
+}
+
+function jsonSchemaOf(content: any): any {
+  if (!content || typeof content !== 'object') return undefined
+  const mediaType = Object.keys(content).find(type => type === 'application/json' || type.endsWith('+json'))
+  return mediaType ? content[mediaType].schema || {} : undefined
+}
+
+function collectOperations(document: OpenApiDocument, types: TypeRegistry): Operation[] {
+  const operations: Operation[] = []
+  const usedNames = new Set<string>()
+  const deref = (value: any) => value?.$ref ? resolvePointer(document, value.$ref) : value
+
+  for (const [path, rawPathItem] of Object.entries(document.paths)) {
+    const pathItem = deref(rawPathItem) || {}
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method]
+      if (!operation) continue
+
+      let name = operationName(method, path, operation)
+      while (usedNames.has(name)) name = `${name}_`
+      usedNames.add(name)
+      const typePrefix = pascalCase(name)
+      const skipped: string[] = []
+
+      // Operation parameters override path-level ones with the same name and location
+      const parameters = new Map<string, any>()
+      for (const parameter of [...(pathItem.parameters || []), ...(operation.parameters || [])].map(deref)) {
+        if (parameter?.name) parameters.set(`${parameter.in}:${parameter.name}`, parameter)
+      }
+
+      const usedParameterNames = new Set<string>(['body'])
+      const operationParameters: OperationParameter[] = []
+      for (const parameter of Array.from(parameters.values())) {
+        if (parameter.in !== 'path' && parameter.in !== 'query') {
+          skipped.push(`${parameter.in} parameter ${parameter.name}`)
+          continue
+        }
+        let parameterName = camelCase(parameter.name)
+        while (usedParameterNames.has(parameterName)) parameterName = `${parameterName}_`
+        usedParameterNames.add(parameterName)
+
+        operationParameters.push({
+          name: parameterName,
+          jsonName: parameter.name,
+          location: parameter.in,
+          type: types.resolve(parameter.schema, `${typePrefix}${pascalCase(parameter.name)}`),
+          required: parameter.in === 'path' || !!parameter.required
+        })
+      }
+
+      let body: Operation['body']
+      const requestBody = deref(operation.requestBody)
+      if (requestBody) {
+        const schema = jsonSchemaOf(requestBody.content)
+        if (schema) {
+          body = { type: types.resolve(schema, `${typePrefix}Request`), required: !!requestBody.required }
+        } else {
+          skipped.push(`${Object.keys(requestBody.content || {}).join(', ') || 'non-JSON'} request body`)
+        }
+      }
+
+      const responses = operation.responses || {}
+      const success = Object.keys(responses).sort().find(status => /^2(\d\d|XX)$/i.test(status))
+      const responseSchema = success ? jsonSchemaOf(deref(responses[success])?.content) : undefined
+
+      operations.push({
+        name,
+        method: method.toUpperCase(),
+        path,
+        repository: pascalCase(operation.tags?.[0] || path.split('/').filter(segment => segment && !segment.startsWith('{'))[0] || 'default'),
+        summary: operation.summary || operation.description,
+        parameters: operationParameters,
+        body,
+        response: responseSchema ? types.resolve(responseSchema, `${typePrefix}Response`) : undefined,
+        skipped
+      })
+    }
+  }
+
+  return operations
+}
+
+// Path parameters come first, then the body, then query parameters as named arguments
+function parameterList(operation: Operation): string {
+  const positional = operation.parameters
+    .filter(p => p.location === 'path')
+    .map(p => `${typeName(p.type)} ${p.name}`)
+  if (operation.body?.required) positional.push(`${typeName(operation.body.type)} body`)
+
+  const named = operation.parameters
+    .filter(p => p.location === 'query')
+    .map(p => p.required ? `required ${typeName(p.type)} ${p.name}` : `${typeName(p.type)}? ${p.name}`)
+  if (operation.body && !operation.body.required) named.push(`${typeName(operation.body.type)}? body`)
+
+  return [...positional, ...(named.length > 0 ? [`{${named.join(', ')}}`] : [])].join(', ')
+}
+
+function argumentList(operation: Operation): string {
+  const positional = operation.parameters.filter(p => p.location === 'path').map(p => p.name)
+  if (operation.body?.required) positional.push('body')
+
+  const named = operation.parameters.filter(p => p.location === 'query').map(p => `${p.name}: ${p.name}`)
+  if (operation.body && !operation.body.required) named.push('body: body')
+
+  return [...positional, ...named].join(', ')
+}
+
+function returnType(operation: Operation): string {
+  return `Future<${operation.response ? typeName(operation.response) : 'void'}>`
+}
+
+function renderModels(definitions: Array<ModelDefinition | EnumDefinition>): string {
+  const blocks = definitions.map(definition => {
+    if (definition.kind === 'enum') {
+      const usedNames = new Set<string>()
+      const constants = definition.values.map(value => {
+        let constant = camelCase(value) || 'empty'
+        if (/^[0-9]/.test(constant)) constant = `value${constant}`
+        while (usedNames.has(constant)) constant = `${constant}_`
+        usedNames.add(constant)
+        return `  ${constant}(${dartString(value)})`
+      })
+
+      return `${docComment(definition.description, '')}enum ${definition.name} {
+${constants.join(',\n')};
+
+  const ${definition.name}(this.value);
+
+  final String value;
+
+  static ${definition.name} fromJson(String value) =>
+      ${definition.name}.values.firstWhere((e) => e.value == value, orElse: () => throw ArgumentError.value(value, '${definition.name}'));
+
+  String toJson() => value;
+}`
+    }
+
+    const fields = definition.fields
+    const constructorArgs = fields.map(f => `${f.nullable ? '' : 'required '}this.${f.name}`)
+    const readJson = (f: ModelField) => {
+      const value = `json[${dartString(f.jsonKey)}]`
+      return f.nullable ? `${value} == null ? null : ${fromJson(f.type, value)}` : fromJson(f.type, value)
+    }
+
+    return `${docComment(definition.description, '')}class ${definition.name} {
+  const ${definition.name}(${fields.length > 0 ? `{${constructorArgs.join(', ')}}` : ''});
+
+  factory ${definition.name}.fromJson(Map<String, dynamic> json) => ${definition.name}(
+${fields.map(f => `        ${f.name}: ${readJson(f)},`).join('\n')}
+      );
+
+${fields.map(f => `${docComment(f.description, '  ')}  final ${typeName(f.type)}${f.nullable ? '?' : ''} ${f.name};`).join('\n')}${fields.length > 0 ? '\n\n' : ''}  Map<String, dynamic> toJson() => {
+${fields.map(f => `        ${dartString(f.jsonKey)}: ${toJson(f.type, f.name, f.nullable)},`).join('\n')}
+      };
+}`
+  })
+
+  return `// Generated from the OpenAPI document. Do not edit by hand.
+
+${blocks.join('\n\n')}
+`
+}
+
+function renderPath(operation: Operation): string {
+  const literal = dartString(operation.path)
+  return literal.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const parameter = operation.parameters.find(p => p.location === 'path' && p.jsonName === name)
+    return parameter ? `\${Uri.encodeComponent(${parameter.name}.toString())}` : match
+  })
+}
+
+function renderClientMethod(operation: Operation): string {
+  const query = operation.parameters.filter(p => p.location === 'query')
+  const args = [dartString(operation.method), renderPath(operation)]
+  if (query.length > 0) {
+    args.push(`query: {${query.map(p => `${dartString(p.jsonName)}: ${toJson(p.type, p.name, !p.required)}`).join(', ')}}`)
+  }
+  if (operation.body) {
+    args.push(`body: ${toJson(operation.body.type, 'body', !operation.body.required)}`)
+  }
+
+  const summary = `${operation.method} ${operation.path}${operation.summary ? `: ${operation.summary}` : ''}`
+  const call = `_send(${args.join(', ')})`
+  const body = operation.response
+    ? `    final json = await ${call};\n    return ${fromJson(operation.response, 'json')};`
+    : `    await ${call};`
+
+  return `${docComment(summary, '  ')}  ${returnType(operation)} ${operation.name}(${parameterList(operation)}) async {
+${body}
+  }`
+}
+
+const API_EXCEPTION = `/// Thrown for responses outside the 2xx range
+class ApiException implements Exception {
+  ApiException(this.statusCode, this.body);
+
+  final int statusCode;
+  final String body;
+
+  @override
+  String toString() => 'ApiException($statusCode): $body';
+}`
+
+function renderClient(operations: Operation[], baseUrl: string, client: HttpClientPackage, importModels: boolean): string {
+  const methods = operations.map(renderClientMethod).join('\n\n')
+  const modelsImport = importModels ? `\nimport 'models.dart';\n` : ''
+
+  if (client === 'dio') {
+    return `// Generated from the OpenAPI document. Do not edit by hand.
+
+import 'package:dio/dio.dart';
+${modelsImport}
+${API_EXCEPTION}
+
+class ApiClient {
+  ApiClient({String baseUrl = ${dartString(baseUrl)}, Dio? dio}) : _dio = dio ?? Dio(BaseOptions(baseUrl: baseUrl));
+
+  final Dio _dio;
+
+  Future<dynamic> _send(String method, String path, {Map<String, dynamic>? query, Object? body}) async {
+    try {
+      final response = await _dio.request<dynamic>(
+        path,
+        data: body,
+        queryParameters: query == null ? null : (Map.of(query)..removeWhere((key, value) => value == null)),
+        options: Options(method: method),
+      );
+      return response.data;
+    } on DioException catch (error) {
+      throw ApiException(error.response?.statusCode ?? 0, '\${error.response?.data ?? error.message}');
+    }
+  }
+
+${methods}
+}
+`
+  }
+
+  return `// Generated from the OpenAPI document. Do not edit by hand.
+
+import 'dart:convert';
+
+import 'package:http/http.dart' as http;
+${modelsImport}
+${API_EXCEPTION}
+
+class ApiClient {
+  ApiClient({this.baseUrl = ${dartString(baseUrl)}, http.Client? httpClient, Map<String, String>? headers})
+      : _http = httpClient ?? http.Client(),
+        headers = headers ?? {};
+
+  final String baseUrl;
+  // Sent with every request, e.g. an Authorization header
+  final Map<String, String> headers;
+  final http.Client _http;
+
+  Future<dynamic> _send(String method, String path, {Map<String, dynamic>? query, Object? body}) async {
+    final parameters = <String, dynamic>{};
+    query?.forEach((key, value) {
+      if (value == null) return;
+      parameters[key] = value is Iterable ? value.map((e) => '$e').toList() : '$value';
+    });
+
+    final request = http.Request(method, Uri.parse('$baseUrl$path').replace(queryParameters: parameters.isEmpty ? null : parameters))
+      ..headers.addAll({'Accept': 'application/json', ...headers});
+    if (body != null) {
+      request.headers['Content-Type'] = 'application/json';
+      request.body = jsonEncode(body);
+    }
+
+    final response = await http.Response.fromStream(await _http.send(request));
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw ApiException(response.statusCode, response.body);
+    }
+    return response.body.isEmpty ? null : jsonDecode(response.body);
+  }
+
+${methods}
+}
+`
+}
+
+function renderRepository(name: string, operations: Operation[], importModels: boolean): string {
+  const methods = operations.map(operation =>
+    `${docComment(`${operation.method} ${operation.path}${operation.summary ? `: ${operation.summary}` : ''}`, '  ')}  ${returnType(operation)} ${operation.name}(${parameterList(operation)}) =>\n      _client.${operation.name}(${argumentList(operation)});`
+  )
+
+  return `// Generated from the OpenAPI document. Do not edit by hand.
+
+import '../api_client.dart';
+${importModels ? "import '../models.dart';\n" : ''}
+class ${name}Repository {
+  ${name}Repository(this._client);
+
+  final ApiClient _client;
+
+${methods.join('\n\n')}
+}
+`
+}
+
+function usesAny(code: string, names: string[]): boolean {
+  return names.some(name => new RegExp(`\\b${name}\\b`).test(code))
+}
+
+function describeType(definition: ModelDefinition | EnumDefinition): string {
+  if (definition.kind === 'enum') return `${definition.name} (enum: ${definition.values.join(', ')})`
+  return `${definition.name} { ${definition.fields.map(f => `${f.name}: ${typeName(f.type)}${f.nullable ? '?' : ''}`).join(', ')} }`
+}
+
+export function generateDartApi(document: OpenApiDocument, options: { client?: HttpClientPackage } = {}): DartApi {
+  const client = options.client || 'http'
+  const types = new TypeRegistry(document)
+
+  // Component schemas become models even when no operation uses them
+  for (const name of Object.keys(document.components?.schemas || {})) {
+    types.resolve({ $ref: `#/components/schemas/${name.replace(/~/g, '~0').replace(/\//g, '~1')}` }, name)
+  }
+  const operations = collectOperations(document, types)
+  if (operations.length === 0) {
+    throw new OpenApiError('OpenAPI document has no operations')
+  }
+
+  const definitions = Array.from(types.definitions.values()).sort((a, b) => a.name.localeCompare(b.name))
+  const modelNames = definitions.map(d => d.name)
+  const baseUrl = document.servers?.[0]?.url || 'http://localhost'
+
+  const repositories = new Map<string, Operation[]>()
+  for (const operation of operations) {
+    repositories.set(operation.repository, [...(repositories.get(operation.repository) || []), operation])
+  }
+
+  const clientCode = renderClient(operations, baseUrl, client, false)
+  const files: DartApi['files'] = [
+    { path: 'lib/api/models.dart', content: renderModels(definitions), description: 'Models generated from the OpenAPI schemas' },
+    { path: 'lib/api/api_client.dart', content: renderClient(operations, baseUrl, client, usesAny(clientCode, modelNames)), description: `Typed ${client} client for every API operation` }
+  ]
+
+  for (const [name, repositoryOperations] of Array.from(repositories.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const code = renderRepository(name, repositoryOperations, false)
+    files.push({
+      path: `lib/api/repositories/${snakeCase(name)}_repository.dart`,
+      content: renderRepository(name, repositoryOperations, usesAny(code, modelNames)),
+      description: `${name} operations`
+    })
+  }
+
+  files.push({
+    path: 'lib/api/api.dart',
+    content: `// Generated from the OpenAPI document. Do not edit by hand.
+
+export 'api_client.dart';
+export 'models.dart';
+${Array.from(repositories.keys()).sort().map(name => `export 'repositories/${snakeCase(name)}_repository.dart';`).join('\n')}
+`,
+    description: 'Exports the whole API layer'
+  })
+
+  const title = document.info?.title || 'API'
+  const apiOperations: DartApiOperation[] = operations.map(operation => ({
+    name: operation.name,
+    method: operation.method,
+    path: operation.path,
+    repository: `${operation.repository}Repository`,
+    signature: `${returnType(operation)} ${operation.name}(${parameterList(operation)})`
+  }))
+
+  const skipped = operations.flatMap(operation => operation.skipped.map(item => `${operation.name}: ${item}`))
+  const surface = `API layer for "${title}", generated from its OpenAPI document into lib/api (import lib/api/api.dart with a relative import).
+Create one ApiClient (base URL ${baseUrl}${client === 'http' ? ', optional headers for authentication' : ', or pass a configured Dio'}) and pass it to the repositories, e.g. ${Array.from(repositories.keys())[0]}Repository(ApiClient()).
+Failed requests throw ApiException(statusCode, body).
+
+MODELS (with fromJson/toJson):
+${definitions.length > 0 ? definitions.map(d => `- ${describeType(d)}`).join('\n') : '- None'}
+
+REPOSITORIES:
+${Array.from(repositories.entries()).map(([name, repositoryOperations]) =>
+  `${name}Repository:\n${repositoryOperations.map(o => `  - ${returnType(o)} ${o.name}(${parameterList(o)})  // ${o.method} ${o.path}`).join('\n')}`
+).join('\n')}${skipped.length > 0 ? `\n\nNOT SENT BY THE GENERATED CLIENT (add if needed): ${skipped.join('; ')}` : ''}`
+
+  return {
+    title,
+    client,
+    files,
+    dependencies: [{ name: client, version: PACKAGE_VERSIONS[client], dev: false, description: `HTTP client used by lib/api/api_client.dart` }],
+    models: modelNames,
+    operations: apiOperations,
+    surface
+  }
+}
@@ -0,0 +1,223 @@
+import fs from 'fs-extra'
+import path from 'path'
+import { GeneratedFile } from './compileFixService'
+
+export interface FileSummary {
+  path: string
+  signatures: string
+}
+
+export interface ProjectContextOptions {
+  prompt: string
+  // Most recently edited first
+  recentFiles?: string[]
+  tokenBudget?: number
+}
+
+export interface ProjectContext {
+  // Files included verbatim, most relevant first
+  files: GeneratedFile[]
+  // Files that did not fit, reduced to their declarations
+  summaries: FileSummary[]
+  // Files that did not fit even as a summary
+  omitted: string[]
+  estimatedTokens: number
+}
+
+const DEFAULT_TOKEN_BUDGET = parseInt(process.env.PROJECT_CONTEXT_TOKEN_BUDGET || '24000', 10)
+
+// Rough estimate; good enough to keep prompts inside the model's context window
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Class/mixin/enum/extension declarations, top-level functions and member signatures,
+// without bodies. Enough for the model to reuse what exists instead of re-declaring it.
+export function extractSignatures(content: string): string {
+  const signatures: string[] = []
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('//') || trimmed.startsWith('}') || trimmed.startsWith('@')) continue
+
+    const indent = line.length - line.trimStart().length
+
+    if (indent === 0) {
+      if (/^(import|export|part)\s/.test(trimmed)) {
+        signatures.push(trimmed)
+      } else if (/^(abstract\s+|sealed\s+|base\s+|final\s+)*(class|mixin|enum|extension|typedef)\s/.test(trimmed) || /^[\w<>?, ]+\s+\w+\s*\(/.test(trimmed)) {
+        signatures.push(stripBody(trimmed))
+      }
+    } else if (indent === 2 && /^[\w<>?,\s.]+\(|^(static\s+|final\s+|const\s+|late\s+)*[\w<>?,]+\s+\w+\s*(=|;)/.test(trimmed)) {
+      signatures.push(`  ${stripBody(trimmed)}`)
+    }
+  }
+
+  return signatures.join('\n')
+}
+
+// Drops bodies (`{ ...`, `=> ...`) and field initializers; a `{` that still has a `)`
+// after it opens a named parameter list, not a body
+function stripBody(line: string): string {
+  return line
+    .replace(/\s*=>.*$/, '')
+    .replace(/\s*(async\*?|sync\*)?\s*\{[^()]*$/, '')
+    .replace(/^([^(]*?)\s=\s.*;$/, '$1;')
+    .trim()
+}
+
+function declaredNames(content: string): string[] {
+  const names: string[] = []
+  const pattern = /^(?:abstract\s+|sealed\s+|base\s+|final\s+)*(?:class|mixin|enum|extension|typedef)\s+(\w+)/gm
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content)) !== null) {
+    names.push(match[1])
+  }
+  return names
+}
+
+// Resolves package: and relative imports to workspace paths like lib/widgets/foo.dart
+function resolveImports(file: GeneratedFile): string[] {
+  const imports: string[] = []
+  const pattern = /^import\s+'([^']+)'/gm
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(file.content)) !== null) {
+    const target = match[1]
+    if (target.startsWith('dart:')) continue
+
+    const packageMatch = /^package:[^/]+\/(.+)$/.exec(target)
+    if (packageMatch) {
+      imports.push(`lib/${packageMatch[1]}`)
+    } else if (!target.includes(':')) {
+      imports.push(path.posix.normalize(path.posix.join(path.posix.dirname(file.path), target)))
+    }
+  }
+
+  return imports
+}
+
+export class ProjectContextService {
+  private static instance: ProjectContextService
+
+  static getInstance(): ProjectContextService {
+    if (!ProjectContextService.instance) {
+      ProjectContextService.instance = new ProjectContextService()
+    }
+    return ProjectContextService.instance
+  }
+
+  // All Dart sources under lib/, with paths relative to the project root
+  async readWorkspace(projectPath: string): Promise<GeneratedFile[]> {
+    const libDir = path.join(projectPath, 'lib')
+    const files: GeneratedFile[] = []
+
+    const walk = async (dir: string): Promise<void> => {
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(fullPath)
+        } else if (entry.name.endsWith('.dart')) {
+          files.push({
+            path: path.relative(projectPath, fullPath).split(path.sep).join('/'),
+            content: await fs.readFile(fullPath, 'utf8')
+          })
+        }
+      }
+    }
+
+    if (await fs.pathExists(libDir)) {
+      await walk(libDir)
+    }
+
+    return files
+  }
+
+  // Scores each file by how strongly the prompt points at it: file name and declared class
+  // names mentioned, recent edits, and imports from files that already scored.
+  rankFiles(files: GeneratedFile[], prompt: string, recentFiles: string[] = []): GeneratedFile[] {
+    const promptText = prompt.toLowerCase()
+    const promptWords = new Set(promptText.split(/[^a-z0-9]+/).filter(w => w.length > 2))
+    const scores = new Map<string, number>()
+
+    for (const file of files) {
+      let score = file.path === 'lib/main.dart' ? 1 : 0
+
+      const baseName = path.posix.basename(file.path, '.dart')
+      if (promptText.includes(baseName.toLowerCase())) score += 5
+      score += baseName.split('_').filter(part => promptWords.has(part)).length * 2
+
+      for (const name of declaredNames(file.content)) {
+        if (new RegExp(`\\b${name}\\b`, 'i').test(prompt)) score += 4
+      }
+
+      const recentIndex = recentFiles.indexOf(file.path)
+      if (recentIndex !== -1) score += Math.max(1, 3 - recentIndex * 0.5)
+
+      scores.set(file.path, score)
+    }
+
+    // Files imported by relevant files are likely needed to edit them correctly
+    for (const file of files) {
+      const score = scores.get(file.path) || 0
+      if (score === 0) continue
+
+      for (const imported of resolveImports(file)) {
+        if (scores.has(imported)) {
+          scores.set(imported, (scores.get(imported) || 0) + score / 2)
+        }
+      }
+    }
+
+    return [...files].sort((a, b) =>
+      (scores.get(b.path) || 0) - (scores.get(a.path) || 0) || a.content.length - b.content.length
+    )
+  }
+
+  // Packs ranked files into the token budget: verbatim while they fit, then as signatures
+  pack(ranked: GeneratedFile[], tokenBudget: number = DEFAULT_TOKEN_BUDGET): ProjectContext {
+    const context: ProjectContext = { files: [], summaries: [], omitted: [], estimatedTokens: 0 }
+
+    for (const file of ranked) {
+      const fullTokens = estimateTokens(file.content)
+      if (context.estimatedTokens + fullTokens <= tokenBudget) {
+        context.files.push(file)
+        context.estimatedTokens += fullTokens
+        continue
+      }
+
+      const signatures = extractSignatures(file.content)
+      const summaryTokens = estimateTokens(signatures)
+      if (signatures && context.estimatedTokens + summaryTokens <= tokenBudget) {
+        context.summaries.push({ path: file.path, signatures })
+        context.estimatedTokens += summaryTokens
+      } else {
+        context.omitted.push(file.path)
+      }
+    }
+
+    return context
+  }
+
+  async buildContext(projectPath: string, options: ProjectContextOptions): Promise<ProjectContext> {
+    const files = await this.readWorkspace(projectPath)
+    return this.pack(this.rankFiles(files, options.prompt, options.recentFiles), options.tokenBudget)
+  }
+
+  format(context: ProjectContext): string {
+    const sections = context.files.map(f => `FILE: ${f.path}\n\`\`\`dart\n${f.content}\n\`\`\``)
+
+    if (context.summaries.length > 0) {
+      sections.push('SIGNATURES OF OTHER FILES (bodies omitted):')
+      sections.push(...context.summaries.map(s => `FILE: ${s.path}\n\`\`\`dart\n${s.signatures}\n\`\`\``))
+    }
+
+    if (context.omitted.length > 0) {
+      sections.push(`OTHER FILES (not shown): ${context.omitted.join(', ')}`)
+    }
+
+    return sections.join('\n\n')
+  }
+}
+
+export const projectContextService = ProjectContextService.getInstance()
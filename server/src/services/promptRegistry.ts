@@ -0,0 +1,257 @@
+import crypto from 'crypto'
+import fs from 'fs-extra'
+import path from 'path'
+import { logger } from '../utils/logger'
+
+// Layout of PROMPTS_DIR:
+//   manifest.json            active version per prompt, plus experiments
+//   <promptId>/<version>.md  template text; {{name}} placeholders are filled at render time
+
+export interface PromptExperiment {
+  id: string
+  promptId: string
+  // The version that receives `share` of the traffic; the rest gets the active version
+  candidate: string
+  // 0..1
+  share: number
+  enabled: boolean
+}
+
+interface PromptManifest {
+  active: Record<string, string>
+  experiments?: PromptExperiment[]
+}
+
+interface PromptTemplate {
+  promptId: string
+  version: string
+  text: string
+  hash: string
+  variables: string[]
+}
+
+// Identifies exactly which template text produced an output
+export interface PromptRef {
+  promptId: string
+  version: string
+  // First 12 hex chars of the template's sha256, so in-place edits of a version are visible
+  hash: string
+  experimentId?: string
+  arm?: 'control' | 'candidate'
+}
+
+// e.g. code-agent-system@v2#1a2b3c4d5e6f
+export function formatPromptRef(ref: PromptRef): string {
+  return `${ref.promptId}@${ref.version}#${ref.hash}`
+}
+
+export interface RenderedPrompt {
+  text: string
+  ref: PromptRef
+}
+
+export interface PromptOutcome {
+  success: boolean
+  latencyMs: number
+  // Model calls including repair re-prompts
+  attempts: number
+}
+
+export interface GenerationRecord extends PromptRef, PromptOutcome {
+  at: Date
+  sessionId?: string
+  agentId?: string
+}
+
+export interface OutcomeStats {
+  generations: number
+  successRate: number
+  avgLatencyMs: number
+  avgAttempts: number
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PromptTemplateError'
+  }
+}
+
+const MAX_GENERATION_RECORDS = 1000
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+function listVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1])))
+}
+
+// Stable per routing key, so a session sees the same arm for every call
+function bucketOf(experimentId: string, routingKey: string): number {
+  const digest = crypto.createHash('sha256').update(`${experimentId}:${routingKey}`).digest()
+  return digest.readUInt32BE(0) / 0x100000000
+}
+
+function summarize(records: GenerationRecord[]): OutcomeStats {
+  const count = records.length
+  const sum = (pick: (record: GenerationRecord) => number) => records.reduce((total, record) => total + pick(record), 0)
+
+  return {
+    generations: count,
+    successRate: count ? sum(r => (r.success ? 1 : 0)) / count : 0,
+    avgLatencyMs: count ? Math.round(sum(r => r.latencyMs) / count) : 0,
+    avgAttempts: count ? sum(r => r.attempts) / count : 0
+  }
+}
+
+export class PromptRegistry {
+  private static instance: PromptRegistry
+  private directory: string
+  private templates: Map<string, Map<string, PromptTemplate>> = new Map()
+  private manifest: PromptManifest = { active: {} }
+  private records: GenerationRecord[] = []
+
+  private constructor() {
+    this.directory = path.resolve(process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts'))
+    this.reload()
+  }
+
+  static getInstance(): PromptRegistry {
+    if (!PromptRegistry.instance) {
+      PromptRegistry.instance = new PromptRegistry()
+    }
+    return PromptRegistry.instance
+  }
+
+  // Re-reads every template and the manifest, so prompt changes do not need a redeploy.
+  // A broken manifest keeps the previously loaded state.
+  reload(): void {
+    const manifestPath = path.join(this.directory, 'manifest.json')
+    if (!fs.pathExistsSync(manifestPath)) {
+      throw new PromptTemplateError(`Prompt manifest not found at ${manifestPath}`)
+    }
+
+    const manifest: PromptManifest = fs.readJsonSync(manifestPath)
+    const templates = new Map<string, Map<string, PromptTemplate>>()
+
+    for (const entry of fs.readdirSync(this.directory, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue
+
+      const versions = new Map<string, PromptTemplate>()
+      for (const file of fs.readdirSync(path.join(this.directory, entry.name))) {
+        if (!file.endsWith('.md')) continue
+
+        // Files end with a newline that is not part of the prompt
+        const text = fs.readFileSync(path.join(this.directory, entry.name, file), 'utf8').replace(/\n$/, '')
+        const version = path.basename(file, '.md')
+        versions.set(version, {
+          promptId: entry.name,
+          version,
+          text,
+          hash: crypto.createHash('sha256').update(text).digest('hex').slice(0, 12),
+          variables: listVariables(text)
+        })
+      }
+      templates.set(entry.name, versions)
+    }
+
+    for (const [promptId, version] of Object.entries(manifest.active)) {
+      if (!templates.get(promptId)?.has(version)) {
+        throw new PromptTemplateError(`Active version ${promptId}@${version} has no template file`)
+      }
+    }
+    for (const experiment of manifest.experiments || []) {
+      if (!templates.get(experiment.promptId)?.has(experiment.candidate)) {
+        throw new PromptTemplateError(`Experiment ${experiment.id} points at missing template ${experiment.promptId}@${experiment.candidate}`)
+      }
+    }
+
+    this.templates = templates
+    this.manifest = manifest
+    logger.info(`Prompt registry loaded ${templates.size} prompt(s) from ${this.directory}`)
+  }
+
+  // Picks the version to use: the active one, or an experiment's candidate for its share of routing keys.
+  // Without a routing key the arm is chosen at random.
+  resolve(promptId: string, routingKey?: string): PromptRef {
+    const activeVersion = this.manifest.active[promptId]
+    if (!activeVersion) {
+      throw new PromptTemplateError(`Unknown prompt: ${promptId}`)
+    }
+
+    const experiment = (this.manifest.experiments || []).find(e => e.enabled && e.promptId === promptId)
+    let version = activeVersion
+    let arm: PromptRef['arm']
+
+    if (experiment) {
+      const bucket = routingKey ? bucketOf(experiment.id, routingKey) : Math.random()
+      arm = bucket < experiment.share ? 'candidate' : 'control'
+      version = arm === 'candidate' ? experiment.candidate : activeVersion
+    }
+
+    const template = this.getTemplate(promptId, version)
+    return { promptId, version, hash: template.hash, experimentId: experiment?.id, arm }
+  }
+
+  render(promptId: string, variables: Record<string, string> = {}, routingKey?: string): RenderedPrompt {
+    const ref = this.resolve(promptId, routingKey)
+    const template = this.getTemplate(promptId, ref.version)
+
+    const missing = template.variables.filter(name => variables[name] === undefined)
+    if (missing.length > 0) {
+      throw new PromptTemplateError(`${promptId}@${ref.version} needs variable(s): ${missing.join(', ')}`)
+    }
+
+    return {
+      text: template.text.replace(VARIABLE_PATTERN, (_, name) => variables[name]),
+      ref
+    }
+  }
+
+  recordOutcome(ref: PromptRef, outcome: PromptOutcome, attribution: { sessionId?: string; agentId?: string } = {}): void {
+    this.records.push({ ...ref, ...outcome, ...attribution, at: new Date() })
+    if (this.records.length > MAX_GENERATION_RECORDS) {
+      this.records.splice(0, this.records.length - MAX_GENERATION_RECORDS)
+    }
+  }
+
+  getGenerations(sessionId?: string): GenerationRecord[] {
+    return sessionId ? this.records.filter(r => r.sessionId === sessionId) : [...this.records]
+  }
+
+  // Templates with their versions and outcome stats, and each experiment's control vs candidate
+  describe() {
+    const prompts = Array.from(this.templates.entries(), ([promptId, versions]) => ({
+      promptId,
+      active: this.manifest.active[promptId],
+      versions: Array.from(versions.values(), template => ({
+        version: template.version,
+        hash: template.hash,
+        variables: template.variables,
+        outcomes: summarize(this.records.filter(r => r.promptId === promptId && r.version === template.version))
+      }))
+    }))
+
+    const experiments = (this.manifest.experiments || []).map(experiment => {
+      const records = this.records.filter(r => r.experimentId === experiment.id)
+      return {
+        ...experiment,
+        control: this.manifest.active[experiment.promptId],
+        results: {
+          control: summarize(records.filter(r => r.arm === 'control')),
+          candidate: summarize(records.filter(r => r.arm === 'candidate'))
+        }
+      }
+    })
+
+    return { directory: this.directory, prompts, experiments }
+  }
+
+  private getTemplate(promptId: string, version: string): PromptTemplate {
+    const template = this.templates.get(promptId)?.get(version)
+    if (!template) {
+      throw new PromptTemplateError(`No template file for ${promptId}@${version}`)
+    }
+    return template
+  }
+}
+
+export const promptRegistry = PromptRegistry.getInstance()
@@ -0,0 +1,246 @@
+import crypto from 'crypto'
+import fs from 'fs-extra'
+import path from 'path'
+import { logger } from '../utils/logger'
+import { hashPrompt } from './llm'
+
+export interface CacheEntry<T = any> {
+  value: T
+  createdAt: number
+  expiresAt: number
+}
+
+export interface ResponseCacheStore {
+  readonly kind: 'memory' | 'disk'
+  get(key: string): Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+  size(): Promise<number>
+}
+
+// Everything that changes the model's answer; identical parts mean an identical request
+export interface CacheKeyParts {
+  // What produced the value, e.g. generate, improve, explain or an agent id
+  scope: string
+  prompt: string
+  currentCode?: string
+  // provider/model
+  model: string
+  // promptId@version#hash of every template the prompt was built from
+  templates?: string[]
+  // Anything else that shapes the prompt (project context, image digests, ...)
+  extra?: unknown
+}
+
+export interface CacheLookupOptions {
+  noCache?: boolean
+}
+
+// Whitespace differences do not change what the user asked for
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ')
+}
+
+export function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex')
+}
+
+// Map iteration order is insertion order, so re-inserting on read gives LRU eviction
+export class MemoryCacheStore implements ResponseCacheStore {
+  readonly kind = 'memory'
+  private entries: Map<string, CacheEntry> = new Map()
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size
+  }
+}
+
+// One JSON file per key, so the cache survives restarts and can be shared by processes on one host.
+// Evicts the least recently written entries beyond maxEntries.
+export class DiskCacheStore implements ResponseCacheStore {
+  readonly kind = 'disk'
+  private directory: string
+
+  constructor(directory: string, private maxEntries: number) {
+    this.directory = path.resolve(directory)
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await fs.readJson(this.fileFor(key))
+    } catch {
+      return undefined
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.ensureDir(this.directory)
+    await fs.writeJson(this.fileFor(key), entry)
+    await this.evict()
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.remove(this.fileFor(key))
+  }
+
+  async clear(): Promise<void> {
+    await fs.emptyDir(this.directory)
+  }
+
+  async size(): Promise<number> {
+    return (await this.listFiles()).length
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${key}.json`)
+  }
+
+  private async listFiles(): Promise<string[]> {
+    if (!(await fs.pathExists(this.directory))) return []
+    return (await fs.readdir(this.directory)).filter(file => file.endsWith('.json'))
+  }
+
+  private async evict(): Promise<void> {
+    const files = await this.listFiles()
+    if (files.length <= this.maxEntries) return
+
+    const byAge = await Promise.all(files.map(async file => ({
+      file,
+      mtime: (await fs.stat(path.join(this.directory, file))).mtimeMs
+    })))
+    byAge.sort((a, b) => a.mtime - b.mtime)
+
+    for (const { file } of byAge.slice(0, files.length - this.maxEntries)) {
+      await fs.remove(path.join(this.directory, file))
+    }
+  }
+}
+
+function createStoreFromEnv(): ResponseCacheStore | null {
+  const mode = process.env.RESPONSE_CACHE || 'memory'
+  const maxEntries = parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '500', 10)
+
+  if (mode === 'off') return null
+  if (mode === 'disk') {
+    return new DiskCacheStore(process.env.RESPONSE_CACHE_DIR || path.join(process.cwd(), 'temp', 'response-cache'), maxEntries)
+  }
+  if (mode !== 'memory') {
+    logger.warn(`Unknown RESPONSE_CACHE mode "${mode}", using memory`)
+  }
+  return new MemoryCacheStore(maxEntries)
+}
+
+// Caches validated model outputs (not raw text), so a hit skips the call, the repair
+// prompts and the spend. Session ids and timestamps in prompts do not affect the key.
+export class ResponseCache {
+  private static instance: ResponseCache
+  private store: ResponseCacheStore | null
+  private ttlMs: number
+  private hits = 0
+  private misses = 0
+
+  private constructor() {
+    this.store = createStoreFromEnv()
+    this.ttlMs = parseInt(process.env.RESPONSE_CACHE_TTL_MS || `${60 * 60 * 1000}`, 10)
+  }
+
+  static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache()
+    }
+    return ResponseCache.instance
+  }
+
+  // Pass null to disable caching, e.g. in tests
+  useStore(store: ResponseCacheStore | null): void {
+    this.store = store
+  }
+
+  keyFor(parts: CacheKeyParts): string {
+    return hashPrompt(JSON.stringify({
+      scope: parts.scope,
+      prompt: normalizePrompt(parts.prompt),
+      currentCode: parts.currentCode ? sha256(parts.currentCode) : null,
+      model: parts.model,
+      templates: parts.templates || [],
+      extra: parts.extra ?? null
+    }))
+  }
+
+  // Returns the cached value for `parts`, or computes, stores and returns it.
+  // Failures are not cached; noCache skips both the read and the write.
+  async getOrCompute<T>(
+    parts: CacheKeyParts,
+    compute: () => Promise<T>,
+    options: CacheLookupOptions = {}
+  ): Promise<{ value: T; cached: boolean }> {
+    if (!this.store || options.noCache) {
+      return { value: await compute(), cached: false }
+    }
+
+    const key = this.keyFor(parts)
+    const entry = await this.store.get(key)
+
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++
+      logger.info(`Response cache hit for ${parts.scope} (${key.substring(0, 12)})`)
+      return { value: entry.value as T, cached: true }
+    }
+    if (entry) {
+      await this.store.delete(key)
+    }
+
+    this.misses++
+    const value = await compute()
+    const now = Date.now()
+    await this.store.set(key, { value, createdAt: now, expiresAt: now + this.ttlMs })
+
+    return { value, cached: false }
+  }
+
+  async clear(): Promise<void> {
+    await this.store?.clear()
+  }
+
+  async stats() {
+    return {
+      store: this.store?.kind || 'off',
+      entries: this.store ? await this.store.size() : 0,
+      ttlMs: this.ttlMs,
+      hits: this.hits,
+      misses: this.misses
+    }
+  }
+}
+
+export const responseCache = ResponseCache.getInstance()
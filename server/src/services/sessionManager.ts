@@ -5,9 +5,17 @@ import { exec, spawn, ChildProcess } from 'child_process'
 import { promisify } from 'util'
 import { logger } from '../utils/logger'
 import { aiService } from './aiService'
+import { compileFixService, CompileFixResult, GeneratedFile } from './compileFixService'
+import { codeEditService, EditConflict } from './codeEditService'
+import { projectContextService } from './projectContextService'
+import { GuardrailFinding, GuardrailViolationError } from './guardrailService'
+import { ProviderSelection } from './llm'
+import { sessionStatePersistence } from './sessionStateStore'
 
 const execAsync = promisify(exec)
 
+const MAX_RECENT_FILES = 10
+
 export interface FlutterSession {
   id: string
   userId?: string
@@ -18,8 +26,15 @@ export interface FlutterSession {
   lastActive: Date
   status: 'initializing' | 'ready' | 'error' | 'terminated'
   previewUrl: string
+  compileCheck?: CompileCheckSummary
+  // Guardrail findings of the latest generation or edit, including compile fixes
+  guardrails?: GuardrailFinding[]
+  // Most recently edited first; used to rank files for follow-up prompts
+  recentFiles?: string[]
 }
 
+export type CompileCheckSummary = Omit<CompileFixResult, 'files' | 'guardrails'>
+
 export class SessionManager {
   private static instance: SessionManager
   private sessions: Map<string, FlutterSession> = new Map()
@@ -27,6 +42,7 @@ export class SessionManager {
   private basePort = 8080
   private maxSessions = 50
   private projectsDir: string
+  private terminationListener?: (sessionId: string) => void
 
   private constructor() {
     this.projectsDir = path.join(process.cwd(), 'temp', 'sessions')
@@ -117,12 +133,15 @@ export class SessionManager {
             name: 'flutter_app',
             dependencies: [],
             firebase: false
-          }
+          },
+          usage: { sessionId, userId: session.userId }
         })
 
-        // Update main.dart with generated code
-        const mainDartPath = path.join(projectPath, 'lib', 'main.dart')
-        await fs.writeFile(mainDartPath, result.code, 'utf8')
+        // Write generated files
+        const files = result.files && result.files.length > 0
+          ? result.files
+          : [{ path: 'lib/main.dart', content: result.code }]
+        await this.writeFiles(projectPath, files)
 
         // Update pubspec.yaml if dependencies are needed
         if (result.dependencies && result.dependencies.length > 0) {
@@ -130,8 +149,24 @@ export class SessionManager {
           await execAsync('flutter pub get', { cwd: projectPath })
         }
 
+        const fixResult = await compileFixService.analyzeAndFix({
+          projectPath,
+          files,
+          prompt: initialPrompt,
+          usage: { sessionId, userId: session.userId }
+        })
+        session.compileCheck = {
+          analyzed: fixResult.analyzed,
+          fixRounds: fixResult.fixRounds,
+          remainingDiagnostics: fixResult.remainingDiagnostics
+        }
+        session.guardrails = [...(result.guardrails || []), ...fixResult.guardrails]
+
         logger.info(`Initial code generated for session ${sessionId}`)
       } catch (aiError) {
+        if (aiError instanceof GuardrailViolationError) {
+          session.guardrails = aiError.findings
+        }
         logger.warn(`Failed to generate initial code for session ${sessionId}, using default template:`, aiError)
         // Continue with default Flutter template
       }
@@ -213,7 +248,20 @@ export class SessionManager {
     })
   }
 
-  async updateSessionCode(sessionId: string, prompt: string): Promise<{ success: boolean; files?: any[] }> {
+  // Follow-up prompts are applied as targeted search/replace edits, so files the prompt
+  // does not touch are left exactly as they were.
+  async updateSessionCode(
+    sessionId: string,
+    prompt: string,
+    llm?: ProviderSelection
+  ): Promise<{
+    success: boolean
+    explanation: string
+    files: GeneratedFile[]
+    conflicts: EditConflict[]
+    compileCheck: CompileCheckSummary
+    guardrails: GuardrailFinding[]
+  }> {
     const session = this.sessions.get(sessionId)
     if (!session) {
       throw new Error(`Session ${sessionId} not found`)
@@ -224,45 +272,50 @@ export class SessionManager {
     try {
       logger.info(`Updating code for session ${sessionId}: "${prompt}"`)
 
-      // Read current main.dart
-      const mainDartPath = path.join(session.projectPath, 'lib', 'main.dart')
-      const currentCode = await fs.readFile(mainDartPath, 'utf8')
+      // The model sees the files most relevant to the prompt; edits apply to the whole workspace
+      const workspace = await projectContextService.readWorkspace(session.projectPath)
+      const context = projectContextService.pack(
+        projectContextService.rankFiles(workspace, prompt, session.recentFiles)
+      )
+      logger.info(`Context for session ${sessionId}: ${context.files.length} full, ${context.summaries.length} summarised, ${context.omitted.length} omitted (~${context.estimatedTokens} tokens)`)
 
-      // Generate new code with Gemini
-      const result = await aiService.generateFlutterCode({
-        prompt,
-        currentCode,
-        projectContext: {
-          name: 'flutter_app',
-          dependencies: [],
-          firebase: false
-        }
-      })
-
-      // Update files
-      if (result.files && result.files.length > 0) {
-        for (const file of result.files) {
-          const filePath = path.join(session.projectPath, file.path)
-          await fs.ensureDir(path.dirname(filePath))
-          await fs.writeFile(filePath, file.content, 'utf8')
-        }
-      } else {
-        // Fallback: update main.dart
-        await fs.writeFile(mainDartPath, result.code, 'utf8')
-      }
+      const usage = { sessionId, userId: session.userId }
+      const result = await codeEditService.editProject(session.projectPath, prompt, workspace, context, llm, usage)
+      this.markRecentlyEdited(session, result.changedFiles.map(f => f.path))
 
       // Update dependencies if needed
-      if (result.dependencies && result.dependencies.length > 0) {
+      if (result.dependencies.length > 0) {
         await this.updatePubspec(session.projectPath, result.dependencies)
-        await execAsync('flutter pub get', { cwd: session.projectPath })
       }
 
-      // Trigger hot reload
-      await this.hotReload(sessionId)
+      // Catch analyzer errors before they reach the preview
+      const { files: fixedFiles, guardrails: fixGuardrails, ...compileCheck } = await compileFixService.analyzeAndFix({
+        projectPath: session.projectPath,
+        files: result.changedFiles,
+        prompt,
+        llm,
+        usage
+      })
+      session.compileCheck = compileCheck
+      session.guardrails = [...result.guardrails, ...fixGuardrails]
 
-      logger.info(`Code updated successfully for session ${sessionId}`)
+      // Trigger hot reload; a session restored after a restart has no preview running yet
+      if (session.flutterProcess) {
+        await this.hotReload(sessionId)
+      } else {
+        logger.info(`Hot reload skipped for session ${sessionId}: no Flutter process is running`)
+      }
+
+      logger.info(`Code updated for session ${sessionId}: ${result.changedFiles.length} file(s) changed, ${result.conflicts.length} conflict(s)`)
 
-      return { success: true, files: result.files }
+      return {
+        success: result.conflicts.length === 0,
+        explanation: result.explanation,
+        files: fixedFiles,
+        conflicts: result.conflicts,
+        compileCheck,
+        guardrails: session.guardrails
+      }
 
     } catch (error) {
       logger.error(`Failed to update code for session ${sessionId}:`, error)
@@ -270,7 +323,48 @@ export class SessionManager {
     }
   }
 
-  private async hotReload(sessionId: string): Promise<void> {
+  private markRecentlyEdited(session: FlutterSession, paths: string[]): void {
+    const previous = (session.recentFiles || []).filter(p => !paths.includes(p))
+    session.recentFiles = [...paths, ...previous].slice(0, MAX_RECENT_FILES)
+  }
+
+  private async writeFiles(projectPath: string, files: Array<{ path: string; content: string }>): Promise<void> {
+    for (const file of files) {
+      const filePath = path.join(projectPath, file.path)
+      await fs.ensureDir(path.dirname(filePath))
+      await fs.writeFile(filePath, file.content, 'utf8')
+    }
+  }
+
+  // Registers a session whose project survived a restart. No Flutter process runs for it, so it
+  // is 'terminated' until a preview is started again; generation still writes into its project.
+  restoreSession(sessionId: string, saved: Pick<FlutterSession, 'userId' | 'projectPath' | 'port' | 'previewUrl' | 'createdAt'>): FlutterSession {
+    const existing = this.sessions.get(sessionId)
+    if (existing) return existing
+
+    const session: FlutterSession = {
+      id: sessionId,
+      ...saved,
+      lastActive: new Date(),
+      status: 'terminated'
+    }
+
+    this.sessions.set(sessionId, session)
+    this.usedPorts.add(session.port)
+    logger.info(`Restored Flutter session ${sessionId} from ${session.projectPath}`)
+    return session
+  }
+
+  getSessionPath(sessionId: string): string {
+    return this.sessions.get(sessionId)?.projectPath || path.join(this.projectsDir, sessionId)
+  }
+
+  // Make sure the session's project directory exists before files are written into it
+  async ensureSession(sessionId: string): Promise<void> {
+    await fs.ensureDir(this.getSessionPath(sessionId))
+  }
+
+  async hotReload(sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId)
     if (!session || !session.flutterProcess) {
       throw new Error(`Session ${sessionId} not found or no active Flutter process`)
@@ -293,6 +387,12 @@ export class SessionManager {
     return Array.from(this.sessions.values())
   }
 
+  // Called with the id of every session whose project is deleted
+  onSessionTerminated(listener: (sessionId: string) => void): void {
+    this.terminationListener = listener
+  }
+
+  // Deletes the session's project and its saved state; see shutdown() for stopping it only
   async terminateSession(sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId)
     if (!session) {
@@ -301,15 +401,7 @@ export class SessionManager {
 
     logger.info(`Terminating session ${sessionId}`)
 
-    // Kill Flutter process
-    if (session.flutterProcess) {
-      session.flutterProcess.kill('SIGTERM')
-      setTimeout(() => {
-        if (session.flutterProcess && !session.flutterProcess.killed) {
-          session.flutterProcess.kill('SIGKILL')
-        }
-      }, 5000)
-    }
+    this.stopFlutterProcess(session)
 
     // Clean up project directory
     try {
@@ -324,9 +416,28 @@ export class SessionManager {
     // Remove from sessions
     this.sessions.delete(sessionId)
 
+    // Without its project the saved build could not be resumed after a restart
+    sessionStatePersistence.delete(sessionId)
+    try {
+      this.terminationListener?.(sessionId)
+    } catch (error) {
+      logger.error(`Session termination listener failed for ${sessionId}:`, error)
+    }
+
     logger.info(`Session ${sessionId} terminated`)
   }
 
+  private stopFlutterProcess(session: FlutterSession): void {
+    if (!session.flutterProcess) return
+
+    session.flutterProcess.kill('SIGTERM')
+    setTimeout(() => {
+      if (session.flutterProcess && !session.flutterProcess.killed) {
+        session.flutterProcess.kill('SIGKILL')
+      }
+    }, 5000)
+  }
+
   private startCleanupTimer(): void {
     // Clean up inactive sessions every 10 minutes
     setInterval(async () => {
@@ -342,15 +453,17 @@ export class SessionManager {
     }, 10 * 60 * 1000)
   }
 
+  // Stops the Flutter processes but keeps the projects, which sessions restored from the state
+  // store after a restart build on
   async shutdown(): Promise<void> {
     logger.info('Shutting down session manager...')
 
-    const shutdownPromises = Array.from(this.sessions.keys()).map(sessionId =>
-      this.terminateSession(sessionId)
-    )
+    for (const session of this.sessions.values()) {
+      this.stopFlutterProcess(session)
+      session.status = 'terminated'
+    }
 
-    await Promise.all(shutdownPromises)
-    logger.info('All sessions terminated')
+    logger.info('All Flutter processes stopped')
   }
 }
 
@@ -0,0 +1,284 @@
+import admin from 'firebase-admin'
+import fs from 'fs-extra'
+import path from 'path'
+import { logger } from '../utils/logger'
+import type { AgentContext } from '../agents/shared/AgentCommunication'
+import type { OrchestratorState } from '../agents/MasterOrchestratorAgent'
+import type { MultiAgentSession } from './multiAgentService'
+import type { FlutterSession } from './sessionManager'
+
+// Everything needed to rebuild a multi-agent session after a restart
+export interface PersistedSession {
+  sessionId: string
+  status: MultiAgentSession['status']
+  startTime: Date
+  lastActivity: Date
+  progress: MultiAgentSession['progress']
+  pendingClarification?: MultiAgentSession['pendingClarification']
+  context: AgentContext
+  orchestrator: OrchestratorState
+  // The Flutter session the build writes into; restored with the multi-agent session when its
+  // project directory still exists
+  flutterSession?: PersistedFlutterSession
+  savedAt: Date
+}
+
+export type PersistedFlutterSession = Pick<FlutterSession, 'userId' | 'projectPath' | 'port' | 'previewUrl' | 'createdAt'>
+
+// Stores hold one serialized session per id; writes replace the previous state
+export interface SessionStateStore {
+  readonly kind: 'file' | 'firestore'
+  save(sessionId: string, data: string): Promise<void>
+  load(sessionId: string): Promise<string | undefined>
+  list(): Promise<string[]>
+  delete(sessionId: string): Promise<void>
+}
+
+// JSON has no dates; these fields are revived when a session is loaded
+const DATE_FIELDS = new Set(['startTime', 'lastActivity', 'savedAt', 'createdAt', 'timestamp', 'startedAt', 'completedAt', 'requestedAt'])
+
+export function serializeSession(state: PersistedSession): string {
+  return JSON.stringify(state)
+}
+
+export function deserializeSession(data: string): PersistedSession {
+  return JSON.parse(data, (key, value) =>
+    DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+  )
+}
+
+// One JSON file per session, replaced atomically so a crash mid-write keeps the previous state
+export class FileSessionStateStore implements SessionStateStore {
+  readonly kind = 'file'
+  private directory: string
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory)
+  }
+
+  async save(sessionId: string, data: string): Promise<void> {
+    const file = this.fileFor(sessionId)
+    await fs.ensureDir(this.directory)
+    await fs.writeFile(`${file}.tmp`, data, 'utf8')
+    await fs.move(`${file}.tmp`, file, { overwrite: true })
+  }
+
+  async load(sessionId: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.fileFor(sessionId), 'utf8')
+    } catch {
+      return undefined
+    }
+  }
+
+  async list(): Promise<string[]> {
+    if (!(await fs.pathExists(this.directory))) return []
+    return (await fs.readdir(this.directory))
+      .filter(file => file.endsWith('.json'))
+      .map(file => decodeURIComponent(file.slice(0, -'.json'.length)))
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await fs.remove(this.fileFor(sessionId))
+  }
+
+  private fileFor(sessionId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}.json`)
+  }
+}
+
+// Firestore documents are limited to 1 MiB, and a session's state (reference images, uploaded
+// documents, generated code) easily exceeds that. One UTF-16 unit is at most 3 bytes of UTF-8,
+// so a chunk of this many units stays well below the limit.
+const FIRESTORE_CHUNK_UNITS = 300 * 1024
+
+function splitChunks(data: string): string[] {
+  const chunks: string[] = []
+  for (let start = 0; start < data.length;) {
+    let end = Math.min(start + FIRESTORE_CHUNK_UNITS, data.length)
+    // Never split a surrogate pair, which would not survive the UTF-8 round trip
+    if (end < data.length && /[\uD800-\uDBFF]/.test(data[end - 1])) end--
+    chunks.push(data.slice(start, end))
+    start = end
+  }
+  return chunks.length > 0 ? chunks : ['']
+}
+
+// One Firestore document per session, through a named app so it does not clash with the
+// app firebaseService initializes for user projects. The state is split over the document's
+// chunks subcollection. Every save writes a new generation of chunks before the session
+// document points at it, so a failed save leaves the previous state readable.
+export class FirestoreSessionStateStore implements SessionStateStore {
+  readonly kind = 'firestore'
+  private collection: admin.firestore.CollectionReference
+
+  constructor(collectionName: string, projectId?: string) {
+    const appName = 'session-state'
+    const app = admin.apps.find(existing => existing?.name === appName)
+      || admin.initializeApp({ credential: admin.credential.applicationDefault(), projectId }, appName)
+
+    this.collection = app.firestore().collection(collectionName)
+  }
+
+  async save(sessionId: string, data: string): Promise<void> {
+    const doc = this.collection.doc(sessionId)
+    const chunks = splitChunks(data)
+    const generation = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+
+    await Promise.all(chunks.map((chunk, index) =>
+      doc.collection('chunks').doc(`${generation}_${index}`).set({ data: chunk })
+    ))
+    await doc.set({ generation, chunkCount: chunks.length, bytes: Buffer.byteLength(data), savedAt: new Date() })
+
+    // Chunks of earlier generations, including those of saves that failed halfway
+    const stale = await doc.collection('chunks').get()
+    await Promise.all(stale.docs
+      .filter(chunk => !chunk.id.startsWith(`${generation}_`))
+      .map(chunk => chunk.ref.delete()))
+  }
+
+  async load(sessionId: string): Promise<string | undefined> {
+    const doc = await this.collection.doc(sessionId).get()
+    if (!doc.exists) return undefined
+
+    // Written before the state was chunked
+    const generation: string | undefined = doc.get('generation')
+    if (!generation) return doc.get('data')
+
+    const chunkCount: number = doc.get('chunkCount')
+    const chunks = await Promise.all(Array.from({ length: chunkCount }, (_, index) =>
+      doc.ref.collection('chunks').doc(`${generation}_${index}`).get()
+    ))
+    const missing = chunks.filter(chunk => !chunk.exists).map(chunk => chunk.id)
+    if (missing.length > 0) {
+      throw new Error(`State chunks ${missing.join(', ')} are missing`)
+    }
+    return chunks.map(chunk => chunk.get('data')).join('')
+  }
+
+  async list(): Promise<string[]> {
+    const snapshot = await this.collection.select().get()
+    return snapshot.docs.map(doc => doc.id)
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const doc = this.collection.doc(sessionId)
+    const chunks = await doc.collection('chunks').get()
+    await Promise.all(chunks.docs.map(chunk => chunk.ref.delete()))
+    await doc.delete()
+  }
+}
+
+function createStoreFromEnv(): SessionStateStore | null {
+  const mode = process.env.SESSION_STATE_STORE || 'file'
+
+  if (mode === 'off') return null
+  if (mode === 'firestore') {
+    return new FirestoreSessionStateStore(
+      process.env.SESSION_STATE_COLLECTION || 'multiAgentSessions',
+      process.env.SESSION_STATE_PROJECT_ID
+    )
+  }
+  if (mode !== 'file') {
+    logger.warn(`Unknown SESSION_STATE_STORE "${mode}", using file`)
+  }
+  return new FileSessionStateStore(process.env.SESSION_STATE_DIR || path.join(process.cwd(), 'temp', 'session-state'))
+}
+
+// Saves multi-agent sessions after every state transition. The state is serialized when save is
+// called and writes for one session run in order, so the stored state is never older than the
+// last one saved. Store failures are logged, never thrown into the build.
+export class SessionStatePersistence {
+  private static instance: SessionStatePersistence
+  private store: SessionStateStore | null
+  private maxAgeMs: number
+  private maxBytes: number
+  private writes: Map<string, Promise<void>> = new Map()
+
+  private constructor() {
+    this.store = createStoreFromEnv()
+    this.maxAgeMs = parseInt(process.env.SESSION_STATE_MAX_AGE_MS || `${7 * 24 * 60 * 60 * 1000}`, 10)
+    this.maxBytes = parseInt(process.env.SESSION_STATE_MAX_BYTES || `${32 * 1024 * 1024}`, 10)
+  }
+
+  static getInstance(): SessionStatePersistence {
+    if (!SessionStatePersistence.instance) {
+      SessionStatePersistence.instance = new SessionStatePersistence()
+    }
+    return SessionStatePersistence.instance
+  }
+
+  // Pass null to keep sessions in memory only, e.g. in tests
+  useStore(store: SessionStateStore | null): void {
+    this.store = store
+  }
+
+  get kind(): SessionStateStore['kind'] | 'off' {
+    return this.store?.kind || 'off'
+  }
+
+  save(state: PersistedSession): void {
+    const store = this.store
+    if (!store) return
+
+    const data = serializeSession(state)
+    const bytes = Buffer.byteLength(data)
+    if (bytes > this.maxBytes) {
+      logger.error(`Session state: session ${state.sessionId} is ${bytes} bytes, over SESSION_STATE_MAX_BYTES (${this.maxBytes}); it was not saved and cannot be restored after a restart`)
+      return
+    }
+    this.enqueue(state.sessionId, () => store.save(state.sessionId, data))
+  }
+
+  delete(sessionId: string): void {
+    const store = this.store
+    if (!store) return
+
+    this.enqueue(sessionId, () => store.delete(sessionId))
+  }
+
+  // Sessions idle for longer than SESSION_STATE_MAX_AGE_MS are deleted instead of returned
+  async loadAll(): Promise<PersistedSession[]> {
+    const store = this.store
+    if (!store) return []
+
+    const sessions: PersistedSession[] = []
+    for (const sessionId of await store.list()) {
+      try {
+        const data = await store.load(sessionId)
+        if (!data) continue
+
+        const session = deserializeSession(data)
+        if (Date.now() - session.lastActivity.getTime() > this.maxAgeMs) {
+          await store.delete(sessionId)
+          continue
+        }
+        sessions.push(session)
+      } catch (error) {
+        logger.error(`Session state: could not load session ${sessionId}:`, error)
+      }
+    }
+    return sessions
+  }
+
+  // Resolves once every queued write has finished
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.writes.values()))
+  }
+
+  private enqueue(sessionId: string, write: () => Promise<void>): void {
+    const previous = this.writes.get(sessionId) || Promise.resolve()
+    const next = previous
+      .then(write)
+      .catch(error => {
+        logger.error(`Session state: could not write session ${sessionId}:`, error)
+      })
+      .finally(() => {
+        if (this.writes.get(sessionId) === next) this.writes.delete(sessionId)
+      })
+
+    this.writes.set(sessionId, next)
+  }
+}
+
+export const sessionStatePersistence = SessionStatePersistence.getInstance()
@@ -0,0 +1,241 @@
+import { logger } from '../utils/logger'
+import { GenerateContentResult } from './llm'
+import { estimateTokens } from './projectContextService'
+
+// Who a model call is billed to; every field is optional because not every caller has a session
+export interface UsageAttribution {
+  sessionId?: string
+  userId?: string
+  agentId?: string
+  planId?: string
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+export interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  costUsd: number
+  // Calls whose provider reported no usage, counted from prompt/response length instead
+  estimatedCalls: number
+}
+
+export interface SessionUsage {
+  sessionId: string
+  userId?: string
+  totals: UsageTotals
+  byAgent: Record<string, UsageTotals>
+  byPlan: Record<string, UsageTotals>
+  // Keyed by provider/model
+  byModel: Record<string, UsageTotals>
+  updatedAt: Date
+}
+
+export interface UserBudgetStatus {
+  userId: string
+  // UTC day the counter applies to, e.g. 2024-05-01
+  date: string
+  usedTokens: number
+  // null when the user has no limit
+  limit: number | null
+  remaining: number | null
+  resetsAt: string
+}
+
+export class TokenBudgetExceededError extends Error {
+  statusCode = 429
+  code = 'TOKEN_BUDGET_EXCEEDED'
+  isOperational = true
+
+  constructor(public status: UserBudgetStatus) {
+    super(`Daily token budget of ${status.limit} tokens used up for user ${status.userId} (${status.usedTokens} used); it resets at ${status.resetsAt}`)
+    this.name = 'TokenBudgetExceededError'
+  }
+}
+
+// Published list prices; override or extend with LLM_PRICES. Models are matched exactly,
+// then by the longest key they start with, so "gemini-2.0-flash" covers "gemini-2.0-flash-exp".
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 }
+}
+
+function parseJsonEnv<T>(name: string): T | undefined {
+  const raw = process.env[name]
+  if (!raw) return undefined
+
+  try {
+    return JSON.parse(raw)
+  } catch {
+    logger.warn(`${name} is not valid JSON, ignoring it`)
+    return undefined
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, estimatedCalls: 0 }
+}
+
+function addTo(totals: UsageTotals, inputTokens: number, outputTokens: number, costUsd: number, estimated: boolean): void {
+  totals.calls++
+  totals.inputTokens += inputTokens
+  totals.outputTokens += outputTokens
+  totals.totalTokens += inputTokens + outputTokens
+  totals.costUsd = Math.round((totals.costUsd + costUsd) * 1e6) / 1e6
+  if (estimated) totals.estimatedCalls++
+}
+
+function bucket(map: Record<string, UsageTotals>, key: string): UsageTotals {
+  return map[key] || (map[key] = emptyTotals())
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function nextUtcMidnight(): string {
+  const date = new Date()
+  date.setUTCHours(24, 0, 0, 0)
+  return date.toISOString()
+}
+
+export class UsageService {
+  private static instance: UsageService
+  private prices: Record<string, ModelPrice>
+  private defaultDailyBudget: number
+  private userBudgets: Record<string, number>
+  private sessions: Map<string, SessionUsage> = new Map()
+  private totals: UsageTotals = emptyTotals()
+  private byModel: Record<string, UsageTotals> = {}
+  private dailyUsage: Map<string, { date: string; tokens: number }> = new Map()
+
+  private constructor() {
+    this.prices = { ...DEFAULT_PRICES, ...parseJsonEnv<Record<string, ModelPrice>>('LLM_PRICES') }
+    // 0 means unlimited
+    this.defaultDailyBudget = parseInt(process.env.USER_DAILY_TOKEN_BUDGET || '0', 10)
+    this.userBudgets = parseJsonEnv<Record<string, number>>('USER_TOKEN_BUDGETS') || {}
+  }
+
+  static getInstance(): UsageService {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService()
+    }
+    return UsageService.instance
+  }
+
+  priceFor(model: string): ModelPrice | undefined {
+    if (this.prices[model]) return this.prices[model]
+
+    const prefix = Object.keys(this.prices)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0]
+    return prefix ? this.prices[prefix] : undefined
+  }
+
+  getPrices(): Record<string, ModelPrice> {
+    return { ...this.prices }
+  }
+
+  // Adds one model call to the session, user and server totals
+  record(result: GenerateContentResult, prompt: string, attribution: UsageAttribution = {}): void {
+    const estimated = !result.usage
+    const inputTokens = result.usage?.inputTokens ?? estimateTokens(prompt)
+    const outputTokens = result.usage?.outputTokens ?? estimateTokens(result.text)
+
+    const price = this.priceFor(result.model)
+    const costUsd = price ? (inputTokens * price.input + outputTokens * price.output) / 1e6 : 0
+    const modelKey = `${result.provider}/${result.model}`
+
+    addTo(this.totals, inputTokens, outputTokens, costUsd, estimated)
+    addTo(bucket(this.byModel, modelKey), inputTokens, outputTokens, costUsd, estimated)
+
+    if (attribution.sessionId) {
+      const session = this.getOrCreateSession(attribution.sessionId, attribution.userId)
+      addTo(session.totals, inputTokens, outputTokens, costUsd, estimated)
+      addTo(bucket(session.byModel, modelKey), inputTokens, outputTokens, costUsd, estimated)
+      if (attribution.agentId) addTo(bucket(session.byAgent, attribution.agentId), inputTokens, outputTokens, costUsd, estimated)
+      if (attribution.planId) addTo(bucket(session.byPlan, attribution.planId), inputTokens, outputTokens, costUsd, estimated)
+      session.updatedAt = new Date()
+    }
+
+    if (attribution.userId) {
+      const usage = this.getDailyUsage(attribution.userId)
+      usage.tokens += inputTokens + outputTokens
+    }
+
+    logger.debug(`Usage ${modelKey}: ${inputTokens} in / ${outputTokens} out${estimated ? ' (estimated)' : ''}, $${costUsd.toFixed(6)}`)
+  }
+
+  getSessionUsage(sessionId: string): SessionUsage | undefined {
+    return this.sessions.get(sessionId)
+  }
+
+  getStats() {
+    return {
+      totals: this.totals,
+      byModel: this.byModel,
+      sessions: this.sessions.size,
+      usersToday: Array.from(this.dailyUsage.values()).filter(usage => usage.date === today()).length
+    }
+  }
+
+  getBudgetStatus(userId: string): UserBudgetStatus {
+    const limit = this.userBudgets[userId] ?? this.defaultDailyBudget
+    const usage = this.getDailyUsage(userId)
+
+    return {
+      userId,
+      date: usage.date,
+      usedTokens: usage.tokens,
+      limit: limit > 0 ? limit : null,
+      remaining: limit > 0 ? Math.max(0, limit - usage.tokens) : null,
+      resetsAt: nextUtcMidnight()
+    }
+  }
+
+  // Call before starting a generation; anonymous requests have no budget
+  assertWithinBudget(userId?: string): void {
+    if (!userId) return
+
+    const status = this.getBudgetStatus(userId)
+    if (status.remaining !== null && status.remaining <= 0) {
+      logger.warn(`Rejecting generation for ${userId}: daily token budget exhausted`)
+      throw new TokenBudgetExceededError(status)
+    }
+  }
+
+  private getOrCreateSession(sessionId: string, userId?: string): SessionUsage {
+    let session = this.sessions.get(sessionId)
+    if (!session) {
+      session = { sessionId, userId, totals: emptyTotals(), byAgent: {}, byPlan: {}, byModel: {}, updatedAt: new Date() }
+      this.sessions.set(sessionId, session)
+    }
+    session.userId = session.userId || userId
+    return session
+  }
+
+  // Counters roll over at UTC midnight
+  private getDailyUsage(userId: string): { date: string; tokens: number } {
+    let usage = this.dailyUsage.get(userId)
+    if (!usage || usage.date !== today()) {
+      usage = { date: today(), tokens: 0 }
+      this.dailyUsage.set(userId, usage)
+    }
+    return usage
+  }
+}
+
+export const usageService = UsageService.getInstance()
@@ -0,0 +1,28 @@
+import { Response } from 'express'
+
+export interface EventStream {
+  send(event: { type: string; [key: string]: any }): void
+  close(): void
+}
+
+// Server-Sent Events over a plain Express response; each event is named after its type
+export function openEventStream(res: Response): EventStream {
+  res.status(200)
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+  res.flushHeaders()
+
+  return {
+    send(event) {
+      if (res.writableEnded) return
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    },
+    close() {
+      if (!res.writableEnded) res.end()
+    }
+  }
+}